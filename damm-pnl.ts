@@ -1,50 +1,41 @@
 #!/usr/bin/env ts-node
 
+import { execFile } from 'child_process';
+import crypto from 'crypto';
 import fs from 'fs';
+import http from 'http';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import {
+  ActivePositionRow, applyJournalSide, backupDataFile, buildDashboard, buildFeeReport,
+  buildGroupedSummary, buildPositionReport, buildSuggestionReport, buildSummaryPeriods,
+  buildTaxReport, buildValueHistory, calculateIRR, calculatePnl, calculateSolFlows,
+  calculateSummaryStats, calculateTWR, checkEventTime, closedPnlSOL, ClosedPositionRow,
+  CONDITION_SYMBOLS, CostBasisMethod, DASHBOARD_SORT_KEYS, DashboardRow, DAY_MS, DEFAULT_PORTFOLIO,
+  DEFAULT_STALE_AFTER_HOURS, diffPosition, ensureHomeDir, EventOptions, FeeReportRow, FeeStats,
+  filterClosedPositions, findActivePositions, findClosedPositions, generateSuggestion, getHomeDir,
+  getPriceProviders, getSOLPriceQuote, getSOLPriceQuoteAt, getSOLPriceUSD, groupPositionsByTag,
+  hasAnyTag, hasMissingSolPrice, hasSummaryOptions, HOLDING_BUCKETS, homePath, initializePosition,
+  Journal, JOURNAL_LIMIT, journalCommands, journalSide, LEGACY_DATA_FILE, listBackups,
+  listPortfolios, loadConfig, loadJournal, loadPositions, localDateFromString, localDateString,
+  matchPositions, migrationsAfter, normalizeTags, parsePriceTimestamp, pendingMigrations,
+  PORTFOLIO_NAME_PATTERN, portfolioFile, Position, PositionBook, PositionBookError,
+  PositionBookErrorCode, PositionEventType, PositionMetaChange, positionName, positionShortId,
+  RawPosition, readDataFile, recordEvent, refreshSOLPriceQuote, returnTimeline, rulesFilePath,
+  saveConfig, saveJournal, saveManualPrice, savePositions, SCHEMA_VERSION, selectActivePosition,
+  selectAnyPosition, sortedEvents, Suggestion, summarizeBookChanges, SummaryOptions, SummaryPeriod,
+  SummaryPeriodSize, SummaryStats, TaxReportRow, toActivePositionRow, toClosedPositionRow,
+  tryAcquireLock, writeFileAtomic
+} from './position-book';
 
-interface Position {
-  id: string;                      // Unique position ID
-  token: string;
-  initial_value_usd: number;  // Store in USD now
-  fees_claimed_usd: number;   // Store fees in USD too
-  created_at: string;
-  last_updated: string;
-  capital_additions_usd?: number;  // Additional capital added after initial investment
-  withdrawn_usd?: number;          // Total amount withdrawn from position
-  total_invested_usd?: number;     // Total capital invested (initial + additions - reductions)
-  // Closure data
-  closed_at?: string;              // When position was closed
-  exit_value_usd?: number;         // Final exit value in USD
-  final_pnl_usd?: number;          // Final total PNL at closure
-  final_pnl_percentage?: number;   // Final PNL percentage at closure
-  is_closed?: boolean;             // Whether position is closed
-}
-
-interface PnlData {
-  // Primary USD values
-  unrealized_pnl_usd: number;
-  realized_pnl_usd: number;
-  total_pnl_usd: number;
-  pnl_percentage: number;
-  initial_value_usd: number;
-  current_value_usd: number;
-  total_invested_usd: number;  // Total capital invested
-  // SOL equivalents (calculated)
-  unrealized_pnl_sol: number;
-  realized_pnl_sol: number;
-  total_pnl_sol: number;
-  initial_value_sol: number;
-  current_value_sol: number;
-  total_invested_sol: number;  // Total capital invested in SOL
-}
-
-interface Suggestion {
-  action: 'HOLD' | 'TOP_UP' | 'REDUCE' | 'TAKE_PROFIT' | 'STOP_LOSS';
-  reason: string;
-  confidence: 'LOW' | 'MEDIUM' | 'HIGH';
-}
-
-const DATA_FILE = 'damm_positions.json';
+// Portfolio the commands work on; set from --portfolio in main()
+let activePortfolio = DEFAULT_PORTFOLIO;
+
+// ---------------------------------------------------------------------------
+// Terminal output
+// ---------------------------------------------------------------------------
 
 // ANSI color codes
 const COLORS = {
@@ -76,19 +67,12 @@ const COLORS = {
   BG_YELLOW: '\x1b[43m'
 };
 
-// Suggestion thresholds (configurable)
-const THRESHOLDS = {
-  TAKE_PROFIT: 25, // 25% profit
-  STRONG_PROFIT: 15, // 15% profit  
-  MODERATE_PROFIT: 5, // 5% profit
-  BREAK_EVEN: 0, // 0% (break even)
-  MODERATE_LOSS: -10, // -10% loss
-  STOP_LOSS: -20, // -20% loss
-  HIGH_FEES_RATIO: 0.8 // 80% of unrealized profit
-};
+// Colour is disabled when stdout is not a terminal or NO_COLOR is set (https://no-color.org)
+const USE_COLOR = Boolean(process.stdout.isTTY) && !process.env.NO_COLOR;
 
 // Color helper functions
 function colorText(text: string, color: string, bold: boolean = false): string {
+  if (!USE_COLOR) return text;
   const style = bold ? COLORS.BOLD + color : color;
   return `${style}${text}${COLORS.RESET}`;
 }
@@ -138,333 +122,937 @@ function formatUSDNeutral(value: number): string {
   return colorText(`$${value.toFixed(2)}`, COLORS.BRIGHT_YELLOW, true);
 }
 
-// Simple cache for SOL price to avoid rate limiting
-let solPriceCache: { price: number; timestamp: number } | null = null;
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minute cache
-const PRICE_CACHE_FILE = 'sol_price_cache.json';
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
 
-// Load cached price from file
-function loadPriceCache(): { price: number; timestamp: number } | null {
-  if (fs.existsSync(PRICE_CACHE_FILE)) {
-    try {
-      const data = fs.readFileSync(PRICE_CACHE_FILE, 'utf8');
-      return JSON.parse(data);
-    } catch {
-      return null;
-    }
+// Render a series of numbers as a one-line terminal sparkline
+function sparkline(values: number[]): string {
+  if (values.length === 0) return '';
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min;
+  return values.map(value => {
+    const index = range > 0 ? Math.round(((value - min) / range) * (SPARK_CHARS.length - 1)) : 0;
+    return SPARK_CHARS[index];
+  }).join('');
+}
+
+// Human-readable age of a timestamp, e.g. "5m ago", "3h ago", "2d ago"
+function formatAge(timestamp: string): string {
+  const minutes = Math.max(0, Math.floor((Date.now() - new Date(timestamp).getTime()) / (60 * 1000)));
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+// Warn (on stderr, so machine-readable output stays clean) when SOL figures
+// are based on a stale quote or no quote at all
+async function warnIfPriceUnreliable(): Promise<void> {
+  const quote = await getSOLPriceQuote();
+  if (!quote) {
+    console.error(colorText('⚠️  SOL price unavailable - SOL figures that need a live rate show as 0. Set one with: ./damm-pnl set-price SOL <usd>', COLORS.BRIGHT_YELLOW, true));
+  } else if (quote.stale) {
+    console.error(colorText(`⚠️  SOL price $${quote.price.toFixed(2)} from ${quote.source} is stale (observed ${formatAge(new Date(quote.timestamp).toISOString())})`, COLORS.BRIGHT_YELLOW, true));
   }
-  return null;
 }
 
-// Save price cache to file
-function savePriceCache(cache: { price: number; timestamp: number }): void {
-  try {
-    fs.writeFileSync(PRICE_CACHE_FILE, JSON.stringify(cache));
-  } catch (error) {
-    // Ignore file save errors
+// Active positions an ambiguous selector matched, one per line
+function printPositionCandidates(candidates: Position[]): void {
+  candidates.forEach(pos => {
+    console.error(`  ${colorText(`#${positionShortId(pos)}`, COLORS.BRIGHT_CYAN, true)} ${positionName(pos)} ${colorText(`invested $${(pos.total_invested_usd || 0).toFixed(2)}, opened ${pos.created_at.substring(0, 10)}`, COLORS.GRAY)}`);
+  });
+}
+
+// Render an IRR/TWR that may be undefined or absurdly large once annualised
+function formatReturn(percent: number | null): string {
+  if (percent === null) {
+    return colorText('n/a', COLORS.GRAY);
   }
+  if (percent > 99999) {
+    return colorText('>+99,999%', COLORS.BRIGHT_GREEN, true);
+  }
+  return formatPercentage(percent);
+}
+
+// ---------------------------------------------------------------------------
+// Alerts and watch mode
+//
+// `watch` re-evaluates every active position at its latest recorded value on
+// a fixed interval. An alert fires when a position's suggestion turns into
+// STOP_LOSS or TAKE_PROFIT, and when SOL moves more than --sol-move percent
+// from the price at the previous SOL alert. What was already reported is kept
+// in watch/<portfolio>.json, so an alert is sent once, also across restarts.
+// Delivery channels come from DAMM_PNL_ALERTS (default "bell"):
+//   bell      terminal bell
+//   command   runs DAMM_PNL_ALERT_COMMAND (e.g. notify-send) with title and message
+//   webhook   POSTs the alert as JSON to DAMM_PNL_ALERT_WEBHOOK
+// ---------------------------------------------------------------------------
+
+interface Alert {
+  kind: 'suggestion' | 'sol_price';
+  title: string;
+  message: string;
+  timestamp: string;
+  position_id: string | null;
+  token: string | null;
+  action: Suggestion['action'] | null;
+  sol_price_usd: number | null;
+}
+
+interface AlertNotifier {
+  name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+interface WatchState {
+  actions: Record<string, Suggestion['action']>;  // Suggestion at the last check, per position ID
+  sol_reference_price: number | null;              // SOL price when watching started or at the last SOL alert
+}
+
+const DEFAULT_ALERT_CHANNELS = 'bell';
+const ALERT_ACTIONS: Suggestion['action'][] = ['STOP_LOSS', 'TAKE_PROFIT'];
+const DEFAULT_WATCH_INTERVAL = 300; // Seconds
+const DEFAULT_SOL_MOVE = 5;         // Percent
+
+function createBellNotifier(): AlertNotifier {
+  return {
+    name: 'bell',
+    async send(): Promise<void> {
+      process.stdout.write('\x07');
+    }
+  };
+}
+
+// The alert title and message are appended to the command's own arguments and
+// the whole alert is passed as JSON in DAMM_PNL_ALERT
+function createCommandNotifier(command: string): AlertNotifier {
+  const [file, ...args] = command.split(/\s+/).filter(Boolean);
+  return {
+    name: 'command',
+    send(alert: Alert): Promise<void> {
+      return new Promise((resolve, reject) => {
+        execFile(file, [...args, alert.title, alert.message], {
+          env: { ...process.env, DAMM_PNL_ALERT: JSON.stringify(alert) },
+          timeout: 10000
+        }, error => error ? reject(error) : resolve());
+      });
+    }
+  };
+}
+
+function createWebhookNotifier(url: string): AlertNotifier {
+  return {
+    name: 'webhook',
+    async send(alert: Alert): Promise<void> {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(alert),
+        signal: AbortSignal.timeout(10000)
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    }
+  };
 }
 
-// Get SOL price in USD
-async function getSOLPriceUSD(): Promise<number> {
-  // Check in-memory cache first
-  if (solPriceCache && (Date.now() - solPriceCache.timestamp) < CACHE_DURATION) {
-    return solPriceCache.price;
+// Build the notifier list from the environment, falling back to config.json
+function getAlertNotifiers(): AlertNotifier[] {
+  const config = loadConfig();
+  const alertCommand = process.env.DAMM_PNL_ALERT_COMMAND || config.alert_command;
+  const alertWebhook = process.env.DAMM_PNL_ALERT_WEBHOOK || config.alert_webhook;
+  const channels = (process.env.DAMM_PNL_ALERTS || config.alerts || DEFAULT_ALERT_CHANNELS)
+    .split(',')
+    .map(channel => channel.trim().toLowerCase())
+    .filter(Boolean);
+  const notifiers: AlertNotifier[] = [];
+  
+  for (const channel of channels) {
+    if (channel === 'bell') {
+      notifiers.push(createBellNotifier());
+    } else if (channel === 'command' && alertCommand) {
+      notifiers.push(createCommandNotifier(alertCommand));
+    } else if (channel === 'webhook' && alertWebhook) {
+      notifiers.push(createWebhookNotifier(alertWebhook));
+    } else {
+      console.error(colorText(`⚠️  Alert channel '${channel}' is unknown or not configured; skipped.`, COLORS.BRIGHT_YELLOW));
+    }
   }
   
-  // Check file cache
-  if (!solPriceCache) {
-    solPriceCache = loadPriceCache();
-    if (solPriceCache && (Date.now() - solPriceCache.timestamp) < CACHE_DURATION) {
-      return solPriceCache.price;
+  return notifiers;
+}
+
+function watchStateFile(): string {
+  return homePath('watch', `${activePortfolio}.json`);
+}
+
+function loadWatchState(): WatchState {
+  const file = watchStateFile();
+  if (fs.existsSync(file)) {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      console.error(colorText(`⚠️  Cannot read ${file} (${error}); starting with a fresh alert state.`, COLORS.BRIGHT_YELLOW));
     }
   }
+  return { actions: {}, sol_reference_price: null };
+}
+
+function saveWatchState(state: WatchState): void {
+  fs.mkdirSync(homePath('watch'), { recursive: true });
+  writeFileAtomic(watchStateFile(), JSON.stringify(state, null, 2));
+}
+
+// One pass over the book: returns the alerts that are new since the last pass
+async function checkAlerts(solMovePercent: number): Promise<{ alerts: Alert[]; checked: number; solPrice: number | null }> {
+  const positions = loadPositions(portfolioFile(activePortfolio));
+  const state = loadWatchState();
+  const alerts: Alert[] = [];
+  const now = new Date().toISOString();
   
-  try {
-    // Try CoinGecko API
-    const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd', {
-      signal: AbortSignal.timeout(10000)
-    });
+  // Fresh quote every pass (the quote is otherwise memoized per process)
+  refreshSOLPriceQuote();
+  const quote = await getSOLPriceQuote();
+  
+  const active = Object.values(positions).filter(pos => !pos.is_closed);
+  const actions: Record<string, Suggestion['action']> = {};
+  for (const position of active) {
+    const pnlData = await calculatePnl(position, position.current_value_usd ?? position.initial_value_usd);
+    const suggestion = generateSuggestion(position, pnlData, positions, activePortfolio);
+    actions[position.id] = suggestion.action;
     
-    if (response.ok) {
-      const data = await response.json();
-      const price = data.solana?.usd;
-      
-      if (price && price > 0) {
-        // Cache the price in memory and file
-        solPriceCache = { price, timestamp: Date.now() };
-        savePriceCache(solPriceCache);
-        return price;
-      }
+    // Only on the transition into an alerting action
+    if (ALERT_ACTIONS.includes(suggestion.action) && state.actions[position.id] !== suggestion.action) {
+      alerts.push({
+        kind: 'suggestion',
+        title: `${positionName(position)}: ${suggestion.action}`,
+        message: suggestion.reason,
+        timestamp: now,
+        position_id: position.id,
+        token: position.token,
+        action: suggestion.action,
+        sol_price_usd: quote ? quote.price : null
+      });
     }
-    
-    // API failed - use any available cached data (even if old)
-    if (solPriceCache && solPriceCache.price > 0) {
-      const ageMinutes = Math.round((Date.now() - solPriceCache.timestamp) / (60 * 1000));
-      if (ageMinutes < 60) { // Use cached data up to 1 hour old
-        return solPriceCache.price;
-      }
+  }
+  // Closed and removed positions drop out of the state
+  state.actions = actions;
+  
+  // Stale quotes say nothing about a move happening now
+  if (quote && !quote.stale) {
+    const reference = state.sol_reference_price;
+    const move = reference ? ((quote.price - reference) / reference) * 100 : 0;
+    if (reference && Math.abs(move) >= solMovePercent) {
+      alerts.push({
+        kind: 'sol_price',
+        title: `SOL ${move > 0 ? 'up' : 'down'} ${Math.abs(move).toFixed(1)}%`,
+        message: `SOL moved from $${reference.toFixed(2)} to $${quote.price.toFixed(2)} (${move > 0 ? '+' : ''}${move.toFixed(1)}%).`,
+        timestamp: now,
+        position_id: null,
+        token: null,
+        action: null,
+        sol_price_usd: quote.price
+      });
     }
-    
-    // Final fallback
-    const fallbackPrice = 185;
-    return fallbackPrice;
-  } catch (error) {
-    // Use any cached price if available
-    if (solPriceCache && solPriceCache.price > 0) {
-      return solPriceCache.price;
+    if (!reference || Math.abs(move) >= solMovePercent) {
+      state.sol_reference_price = quote.price;
     }
-    
-    // Final fallback
-    return 185;
   }
+  
+  saveWatchState(state);
+  return { alerts, checked: active.length, solPrice: quote ? quote.price : null };
 }
 
-function loadPositions(): Record<string, Position> {
-  if (fs.existsSync(DATA_FILE)) {
+// Deliver an alert on every channel; a failing channel doesn't stop the others
+async function sendAlert(alert: Alert, notifiers: AlertNotifier[]): Promise<void> {
+  for (const notifier of notifiers) {
     try {
-      const data = fs.readFileSync(DATA_FILE, 'utf8');
-      const positions = JSON.parse(data);
-      
-      // Migrate old format (token-keyed) to new format (ID-keyed)
-      const migratedPositions: Record<string, Position> = {};
-      
-      for (const [key, position] of Object.entries(positions)) {
-        if (typeof position === 'object' && position !== null) {
-          const pos = position as any;
-          
-          // If this position doesn't have an ID, it's old format
-          if (!pos.id) {
-            // Generate ID from token and timestamp for migration
-            pos.id = `${key}_${new Date(pos.created_at || Date.now()).getTime()}`;
-            pos.token = key;
-          }
-          
-          // Migrate to simplified withdraw model
-          if (pos.capital_reduction_usd !== undefined) {
-            pos.withdrawn_usd = pos.capital_reduction_usd + (pos.profit_taken_usd || 0);
-            delete pos.capital_reduction_usd;
-            delete pos.profit_taken_usd;
-          }
-          
-          // Fix total_invested_usd to be initial + additions
-          if (pos.initial_value_usd !== undefined) {
-            const capitalAdditions = pos.capital_additions_usd || 0;
-            pos.total_invested_usd = pos.initial_value_usd + capitalAdditions;
-          }
-          
-          migratedPositions[pos.id] = pos as Position;
-        }
-      }
-      
-      return migratedPositions;
+      await notifier.send(alert);
     } catch (error) {
-      return {};
+      console.error(colorText(`⚠️  Alert via ${notifier.name} failed: ${error instanceof Error ? error.message : error}`, COLORS.BRIGHT_YELLOW));
     }
   }
-  return {};
-}
-
-function savePositions(positions: Record<string, Position>): void {
-  try {
-    fs.writeFileSync(DATA_FILE, JSON.stringify(positions, null, 2));
-  } catch (error) {
-    console.error(`Error saving data: ${error}`);
-    process.exit(1);
-  }
 }
 
-// Helper functions for position management
-function findActivePosition(positions: Record<string, Position>, token: string): Position | null {
-  for (const position of Object.values(positions)) {
-    if (position.token.toLowerCase() === token.toLowerCase() && !position.is_closed) {
-      return position;
+async function watchPositions(intervalSeconds: number, solMovePercent: number, once: boolean): Promise<void> {
+  const notifiers = getAlertNotifiers();
+  console.log(colorText(`👀 Watching portfolio '${activePortfolio}' every ${intervalSeconds}s (alerts: ${notifiers.map(notifier => notifier.name).join(', ') || 'none'}, SOL move ${solMovePercent}%)${once ? '' : ' - Ctrl+C to stop'}`, COLORS.GRAY));
+  
+  for (;;) {
+    const { alerts, checked, solPrice } = await checkAlerts(solMovePercent);
+    const time = new Date().toLocaleTimeString();
+    console.log(`${colorText(time, COLORS.GRAY)} ${colorText(`${checked} position${checked !== 1 ? 's' : ''} checked`, COLORS.WHITE)} ${colorText(`| SOL ${solPrice !== null ? `$${solPrice.toFixed(2)}` : 'n/a'}`, COLORS.GRAY)}${alerts.length > 0 ? ' ' + colorText(`| ${alerts.length} alert${alerts.length !== 1 ? 's' : ''}`, COLORS.BRIGHT_YELLOW, true) : ''}`);
+    
+    for (const alert of alerts) {
+      const color = alert.action === 'STOP_LOSS' ? COLORS.BRIGHT_RED : alert.action === 'TAKE_PROFIT' ? COLORS.BRIGHT_GREEN : COLORS.BRIGHT_CYAN;
+      console.log(`  🔔 ${colorText(alert.title, color, true)} ${colorText(alert.message, COLORS.WHITE)}`);
+      await sendAlert(alert, notifiers);
     }
+    
+    if (once) return;
+    await new Promise(resolve => setTimeout(resolve, intervalSeconds * 1000));
   }
-  return null;
 }
 
-function findClosedPositions(positions: Record<string, Position>, token: string): Position[] {
-  return Object.values(positions).filter(
-    pos => pos.token.toLowerCase() === token.toLowerCase() && pos.is_closed
-  );
+// ---------------------------------------------------------------------------
+// Transaction import
+//
+// `import <file>` turns the rows of a CSV or JSON export into position events.
+// Each row has a date, token, type and amount, plus optional fees, SOL price,
+// label (for new positions), position selector and reference (a transaction
+// ID). --columns (or import_columns in config.json) maps these fields to the
+// file's own column names, e.g. "date=Time,amount=Value USD". Every event
+// keeps a fingerprint of its row, so importing the same file again skips the
+// rows already in.
+// ---------------------------------------------------------------------------
+
+type ImportField = 'date' | 'token' | 'type' | 'amount' | 'fees' | 'sol_price' | 'label' | 'position' | 'reference';
+
+interface ImportRow {
+  line: number;                // Data row number in the file (1 = first row after the header)
+  values: Partial<Record<ImportField, string>>;
 }
 
-function generatePositionId(token: string): string {
-  return `${token.toLowerCase()}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+interface ImportResult {
+  row: ImportRow;
+  timestamp: string | null;
+  type: PositionEventType | null;
+  status: 'imported' | 'duplicate' | 'error';
+  detail: string;              // Target position, or why the row was skipped or rejected
 }
 
-async function initializePosition(token: string, initialValueUSD: number): Promise<Position> {
-  const now = new Date().toISOString();
-  return {
-    id: generatePositionId(token),
-    token,
-    initial_value_usd: initialValueUSD,
-    fees_claimed_usd: 0,
-    created_at: now,
-    last_updated: now,
-    capital_additions_usd: 0,
-    withdrawn_usd: 0,
-    total_invested_usd: initialValueUSD
-  };
+const IMPORT_FIELDS: ImportField[] = ['date', 'token', 'type', 'amount', 'fees', 'sol_price', 'label', 'position', 'reference'];
+
+// Spellings of each event type found in exports, after lowercasing and
+// turning spaces and dashes into underscores
+const IMPORT_TYPE_ALIASES: Record<string, PositionEventType> = {
+  open: 'open', create: 'open', create_position: 'open',
+  value: 'value_snapshot', value_snapshot: 'value_snapshot', snapshot: 'value_snapshot', update: 'value_snapshot',
+  fee: 'fee_claim', fees: 'fee_claim', fee_claim: 'fee_claim', claim: 'fee_claim', claim_fee: 'fee_claim', claim_fees: 'fee_claim',
+  add: 'add_capital', add_capital: 'add_capital', deposit: 'add_capital', add_liquidity: 'add_capital',
+  withdraw: 'withdraw', withdrawal: 'withdraw', remove_liquidity: 'withdraw',
+  close: 'close', close_position: 'close', exit: 'close'
+};
+
+// Parse "field=Column,..." into a field -> column name map (defaults to the field names)
+function parseImportColumns(spec: string | undefined): Record<ImportField, string> {
+  const columns = Object.fromEntries(IMPORT_FIELDS.map(field => [field, field])) as Record<ImportField, string>;
+  for (const pair of (spec || '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const [field, column] = pair.split('=').map(part => part.trim());
+    if (!IMPORT_FIELDS.includes(field as ImportField) || !column) {
+      console.error(`Error: --columns entries look like date=Time, with fields ${IMPORT_FIELDS.join(', ')}; got '${pair}'`);
+      process.exit(1);
+    }
+    columns[field as ImportField] = column;
+  }
+  return columns;
 }
 
-async function calculatePnl(position: Position, currentValueUSD: number): Promise<PnlData> {
-  // Initialize fields if they don't exist (backward compatibility)
-  const capitalAdditions = position.capital_additions_usd || 0;
-  const withdrawn = position.withdrawn_usd || 0;
+// Split CSV text into records, honouring double-quoted fields
+function parseCSV(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
   
-  // Total invested stays constant: initial + additions
-  const totalInvestedUSD = position.initial_value_usd + capitalAdditions;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  
+  return records.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+// Read the file into rows of import fields. Column names match case-insensitively.
+function readImportFile(filePath: string, columns: Record<ImportField, string>): ImportRow[] {
+  if (!fs.existsSync(filePath)) {
+    console.error(`Error: File not found: ${filePath}`);
+    process.exit(1);
+  }
+  const content = fs.readFileSync(filePath, 'utf8');
   
-  // Amount still invested = total invested - amount withdrawn
-  const currentlyInvestedUSD = totalInvestedUSD - withdrawn;
+  let objects: Record<string, unknown>[];
+  if (filePath.toLowerCase().endsWith('.json')) {
+    try {
+      const data = JSON.parse(content);
+      objects = Array.isArray(data) ? data : [data];
+    } catch (error) {
+      console.error(`Error: Cannot parse ${filePath}: ${error}`);
+      process.exit(1);
+    }
+  } else {
+    const [header = [], ...records] = parseCSV(content);
+    objects = records.map(record => Object.fromEntries(header.map((name, index) => [name.trim(), record[index]])));
+  }
   
-  // Total value received: current position + withdrawn + fees
-  const totalValueUSD = currentValueUSD + withdrawn + position.fees_claimed_usd;
+  return objects.map((object, index) => {
+    const keys = Object.keys(object);
+    const values: Partial<Record<ImportField, string>> = {};
+    for (const field of IMPORT_FIELDS) {
+      const key = keys.find(name => name.toLowerCase() === columns[field].toLowerCase());
+      const value = key !== undefined ? object[key] : undefined;
+      if (value !== undefined && value !== null && String(value).trim() !== '') {
+        values[field] = String(value).trim();
+      }
+    }
+    return { line: index + 1, values };
+  });
+}
+
+// Milliseconds since epoch from an ISO/locale date or a Unix timestamp in seconds or milliseconds
+function parseImportDate(value: string): number {
+  if (/^\d+$/.test(value)) {
+    return value.length <= 10 ? Number(value) * 1000 : Number(value);
+  }
+  return new Date(value).getTime();
+}
+
+// Stable identity of a row, independent of its position in the file. Rows
+// that are otherwise identical (two equal fee claims in the same second) are
+// told apart by their reference, or else by `occurrence`, their count among
+// such rows of the file (1 for the first).
+function importFingerprint(timestamp: string, type: PositionEventType, values: Partial<Record<ImportField, string>>, occurrence: number = 1): string {
+  let key = [timestamp, (values.position || values.token || '').toLowerCase(), type, values.amount, values.fees, values.sol_price].join('|');
+  if (values.reference) {
+    key += `|${values.reference}`;
+  }
+  if (occurrence > 1) {
+    key += `#${occurrence}`;
+  }
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+// Apply rows to the book in date order. Returns one result per row; the book
+// is changed even when some rows fail, so callers only save a clean run.
+async function applyImport(positions: Record<string, Position>, rows: ImportRow[], solPriceOverride?: number): Promise<ImportResult[]> {
+  const imported = new Set<string>();
+  Object.values(positions).forEach(position => (position.events || []).forEach(event => {
+    if (event.import_id) imported.add(event.import_id);
+  }));
   
-  // Total PnL is total value minus total invested
-  const totalPnlUSD = totalValueUSD - totalInvestedUSD;
+  const occurrences = new Map<string, number>();
   
-  // Unrealized PnL is current position value minus what's still invested
-  const unrealizedPnlUSD = currentValueUSD - currentlyInvestedUSD;
+  // Parse dates first so rows can be applied in time order
+  const parsed = rows.map(row => ({ row, time: row.values.date ? parseImportDate(row.values.date) : NaN }));
+  parsed.sort((a, b) => (isNaN(a.time) ? -Infinity : a.time) - (isNaN(b.time) ? -Infinity : b.time));
   
-  // Realized PnL is withdrawn + fees
-  const realizedPnlUSD = withdrawn + position.fees_claimed_usd;
+  const results: ImportResult[] = [];
+  for (const { row, time } of parsed) {
+    const { values } = row;
+    const fail = (detail: string) => results.push({ row, timestamp: isNaN(time) ? null : new Date(time).toISOString(), type: null, status: 'error', detail });
+    
+    if (isNaN(time)) { fail(`date '${values.date ?? ''}' is missing or invalid`); continue; }
+    if (!values.token && !values.position) { fail('token is missing'); continue; }
+    const type = IMPORT_TYPE_ALIASES[(values.type || '').toLowerCase().replace(/[\s-]+/g, '_')];
+    if (!type) { fail(`unknown type '${values.type ?? ''}' (use open, value, fee, add, withdraw or close)`); continue; }
+    const timestamp = new Date(time).toISOString();
+    
+    // Same checks as the matching commands; a fee row may carry its amount in the fees column
+    const { amount, error } = parseAmount(values.amount ?? (type === 'fee_claim' ? values.fees ?? '' : ''), type === 'fee_claim' ? 'Fees claimed' : 'Amount');
+    if (error) { fail(error); continue; }
+    let fees = 0;
+    if (values.fees !== undefined && type !== 'fee_claim') {
+      fees = parseFloat(values.fees);
+      if (isNaN(fees) || fees < 0) { fail(`Fees must be a non-negative number, got '${values.fees}'`); continue; }
+    }
+    let solPrice = solPriceOverride;
+    if (values.sol_price !== undefined) {
+      const { amount: rowPrice, error: priceError } = parseAmount(values.sol_price, 'SOL price');
+      if (priceError) { fail(priceError); continue; }
+      solPrice = rowPrice;
+    }
+    
+    const first = importFingerprint(timestamp, type, values);
+    const occurrence = (occurrences.get(first) || 0) + 1;
+    occurrences.set(first, occurrence);
+    const fingerprint = importFingerprint(timestamp, type, values, occurrence);
+    if (imported.has(fingerprint)) {
+      results.push({ row, timestamp, type, status: 'duplicate', detail: 'already imported' });
+      continue;
+    }
+    
+    // Find the target position; only open rows create one
+    const selector = values.position || values.token!;
+    let position: Position | null = null;
+    if (type !== 'open') {
+      const matches = findActivePositions(positions, selector);
+      if (matches.length > 1) { fail(`'${selector}' matches ${matches.length} active positions; add a position column`); continue; }
+      position = matches[0] || null;
+      if (!position) { fail(`no active position for ${selector.toUpperCase()}`); continue; }
+    }
+    try {
+      checkEventTime(position, type, timestamp);
+    } catch (error) {
+      if (!(error instanceof PositionBookError)) throw error;
+      fail(error.message);
+      continue;
+    }
+    
+    let detail: string;
+    if (!position) {
+      position = await initializePosition((values.token || selector).toLowerCase(), amount, solPrice, timestamp);
+      if (values.label) {
+        position.label = values.label;
+      }
+      positions[position.id] = position;
+      position.events!.forEach(event => { event.import_id = fingerprint; });
+      detail = `new position ${positionName(position)} #${positionShortId(position)}`;
+    } else {
+      // Fees first, so a snapshot or close reflects them
+      if (fees > 0) {
+        recordEvent(position, 'fee_claim', fees, timestamp, solPrice).import_id = fingerprint;
+      }
+      recordEvent(position, type, amount, timestamp, solPrice).import_id = fingerprint;
+      detail = `${positionName(position)} #${positionShortId(position)}`;
+    }
+    
+    imported.add(fingerprint);
+    results.push({ row, timestamp, type, status: 'imported', detail });
+  }
   
-  const pnlPercentage = totalInvestedUSD > 0 ? (totalPnlUSD / totalInvestedUSD) * 100 : 0;
+  return results;
+}
+
+function showImportResults(results: ImportResult[]): void {
+  console.log(`\n${colorText('Import preview:', COLORS.BOLD + COLORS.WHITE)} ${colorText('(in date order)', COLORS.GRAY)}`);
+  console.log(colorText('='.repeat(60), COLORS.CYAN));
+  results.forEach(({ row, timestamp, type, status, detail }) => {
+    const when = timestamp ? timestamp.substring(0, 19) : '-'.repeat(19);
+    const what = type ? `${(EVENT_LABELS[type] || type).padEnd(11)} ${formatUSDNeutral(parseFloat(row.values.amount ?? row.values.fees ?? '0'))}` : colorText((row.values.type || '?').padEnd(11), COLORS.GRAY);
+    const outcome = status === 'imported' ? colorText(`→ ${detail}`, COLORS.BRIGHT_GREEN)
+      : status === 'duplicate' ? colorText(`skipped: ${detail}`, COLORS.GRAY)
+      : colorText(`error: ${detail}`, COLORS.BRIGHT_RED);
+    console.log(`${colorText(`#${row.line}`.padStart(5), COLORS.GRAY)} ${colorText(when, COLORS.GRAY)} ${colorText((row.values.token || row.values.position || '?').toUpperCase().padEnd(8), COLORS.BRIGHT_CYAN, true)} ${what} ${outcome}`);
+  });
+  console.log('');
+}
 
-  // Get SOL price for SOL equivalents calculation
-  const solPriceUSD = await getSOLPriceUSD();
+// ---------------------------------------------------------------------------
+// Meteora DAMM transaction decoding
+//
+// `ingest-tx` reads transactions saved from getTransaction (jsonParsed
+// encoding) and turns Meteora DAMM instructions into position events, without
+// any network access besides the configured SOL price provider. Instruction
+// names come from the program logs; amounts are the token transfers made
+// inside each DAMM instruction: transfers signed by the wallet are deposits,
+// all others are payouts to it. SOL is valued at the SOL price at block time,
+// USDC/USDT at $1. The other token of the pool is valued at --token-price, or
+// else, for liquidity moves, at the value of the priced token: full-range
+// pools take and return both tokens in equal value.
+// ---------------------------------------------------------------------------
 
-  // Convert USD values to SOL equivalents
-  const unrealizedPnlSOL = solPriceUSD > 0 ? unrealizedPnlUSD / solPriceUSD : 0;
-  const realizedPnlSOL = solPriceUSD > 0 ? realizedPnlUSD / solPriceUSD : 0;
-  const totalPnlSOL = solPriceUSD > 0 ? totalPnlUSD / solPriceUSD : 0;
-  const currentValueSOL = solPriceUSD > 0 ? currentValueUSD / solPriceUSD : 0;
-  const initialValueSOL = solPriceUSD > 0 ? position.initial_value_usd / solPriceUSD : 0;
-  const totalInvestedSOL = solPriceUSD > 0 ? totalInvestedUSD / solPriceUSD : 0;
+type DammInstructionKind = 'add' | 'remove' | 'claim' | 'close';
 
-  return {
-    // Primary USD values
-    unrealized_pnl_usd: unrealizedPnlUSD,
-    realized_pnl_usd: realizedPnlUSD,
-    total_pnl_usd: totalPnlUSD,
-    pnl_percentage: pnlPercentage,
-    initial_value_usd: position.initial_value_usd,
-    current_value_usd: currentValueUSD,
-    total_invested_usd: totalInvestedUSD,
-    // SOL equivalents (calculated)
-    unrealized_pnl_sol: unrealizedPnlSOL,
-    realized_pnl_sol: realizedPnlSOL,
-    total_pnl_sol: totalPnlSOL,
-    initial_value_sol: initialValueSOL,
-    current_value_sol: currentValueSOL,
-    total_invested_sol: totalInvestedSOL
+interface TokenLeg {
+  mint: string;
+  amount: number;              // UI units; positive for payouts, negative for deposits
+}
+
+interface DammAction {
+  signature: string;
+  index: number;               // Outer instruction index in the transaction
+  timestamp: string;
+  instructions: string[];      // Instruction names from the logs, e.g. ["AddLiquidity"]
+  kind: DammInstructionKind;
+  legs: TokenLeg[];
+}
+
+interface IngestResult {
+  action: DammAction;
+  type: PositionEventType | null;
+  amount_usd: number | null;
+  estimated: boolean;            // Unpriced token counted at the value of the priced one
+  sol_price_usd: number | null;  // SOL/USD rate recorded with the event, if any
+  status: 'imported' | 'duplicate' | 'skipped' | 'error';
+  detail: string;
+}
+
+// The parts of a getTransaction result (jsonParsed encoding) the decoder reads
+interface ParsedTransaction {
+  blockTime?: number | null;
+  transaction: {
+    signatures?: string[];
+    message: { accountKeys?: (string | { pubkey: string })[] };
+  };
+  meta: {
+    err?: unknown;                 // Set when the transaction failed
+    logMessages?: string[] | null;
+    preTokenBalances?: TokenBalance[] | null;
+    postTokenBalances?: TokenBalance[] | null;
+    innerInstructions?: { index: number; instructions: ParsedInstruction[] }[] | null;
   };
 }
 
-function generateSuggestion(position: Position, pnlData: PnlData): Suggestion {
-  const pnlPercent = pnlData.pnl_percentage;
-  const unrealizedPnlUSD = pnlData.unrealized_pnl_usd;
-  const realizedPnlUSD = pnlData.realized_pnl_usd;
-  const daysOpen = Math.floor((Date.now() - new Date(position.created_at).getTime()) / (1000 * 60 * 60 * 24));
-  
-  // High fees relative to unrealized profit (risk of giving back gains)
-  // Only trigger this if unrealized gains are meaningful (>$10) to avoid false positives
-  if (unrealizedPnlUSD > 10 && realizedPnlUSD / unrealizedPnlUSD > THRESHOLDS.HIGH_FEES_RATIO) {
-    return {
-      action: 'TAKE_PROFIT',
-      reason: `High fees earned (${((realizedPnlUSD / unrealizedPnlUSD) * 100).toFixed(0)}% of unrealized gains). Secure profits before market turns.`,
-      confidence: 'HIGH'
+interface TokenBalance {
+  accountIndex: number;
+  mint: string;
+  uiTokenAmount: { decimals: number };
+}
+
+interface ParsedInstruction {
+  program?: string;
+  parsed?: {
+    type: string;
+    info: {
+      source?: string;
+      destination?: string;
+      authority?: string;
+      mint?: string;             // transferChecked only
+      amount?: string;           // transfer: raw amount
+      tokenAmount?: { uiAmount: number | null; uiAmountString?: string };  // transferChecked
     };
+  };
+}
+
+const DAMM_PROGRAM_IDS: Record<string, string> = {
+  Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB: 'DAMM v1',
+  cpamdpZCGKUy5JxQXB4dcpGPiikHawvSWAd6mEn1sGG: 'DAMM v2'
+};
+
+const DAMM_INSTRUCTION_KINDS: Record<string, DammInstructionKind> = {
+  AddLiquidity: 'add',
+  AddBalanceLiquidity: 'add',
+  AddImbalanceLiquidity: 'add',
+  BootstrapLiquidity: 'add',
+  RemoveLiquidity: 'remove',
+  RemoveAllLiquidity: 'remove',
+  RemoveBalanceLiquidity: 'remove',
+  RemoveLiquiditySingleSide: 'remove',
+  ClaimPositionFee: 'claim',
+  ClaimFee: 'claim',
+  ClosePosition: 'close'
+};
+
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+const STABLE_MINTS: Record<string, string> = {
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 'USDC',
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY2kR1wZXyPKy8uF: 'USDT'
+};
+
+function mintName(mint: string): string {
+  if (mint === WSOL_MINT) return 'SOL';
+  return STABLE_MINTS[mint] || `${mint.slice(0, 4)}…`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Whether a JSON value has the shape of a parsed transaction
+function isParsedTransaction(value: unknown): value is ParsedTransaction {
+  return isObject(value) && isObject(value.meta) && isObject(value.transaction) && isObject(value.transaction.message);
+}
+
+// Transactions from a file: one transaction, an array, or JSON-RPC responses
+function readTransactionFile(filePath: string): ParsedTransaction[] {
+  if (!fs.existsSync(filePath)) {
+    console.error(`Error: File not found: ${filePath}`);
+    process.exit(1);
   }
-  
-  // Take profit scenarios
-  if (pnlPercent >= THRESHOLDS.TAKE_PROFIT) {
-    return {
-      action: 'TAKE_PROFIT',
-      reason: `Excellent ${pnlPercent.toFixed(1)}% return! Consider taking partial profits to secure gains.`,
-      confidence: 'HIGH'
-    };
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    console.error(`Error: Cannot parse ${filePath}: ${error}`);
+    process.exit(1);
   }
+  return (Array.isArray(data) ? data : [data])
+    .map((entry: unknown) => isObject(entry) && entry.result !== undefined ? entry.result : entry)
+    .filter(isParsedTransaction);
+}
+
+// Names of the DAMM instructions executed under each outer instruction, from
+// "Program <id> invoke [n]" / "Program log: Instruction: <name>" log lines
+function dammInstructionNames(logs: string[]): Map<number, string[]> {
+  const names = new Map<number, string[]>();
+  const stack: string[] = [];
+  let outer = -1;
   
-  if (pnlPercent >= THRESHOLDS.STRONG_PROFIT) {
-    return {
-      action: 'REDUCE',
-      reason: `Strong ${pnlPercent.toFixed(1)}% profit. Consider reducing position size to lock in gains while maintaining exposure.`,
-      confidence: 'MEDIUM'
-    };
+  for (const line of logs) {
+    const invoke = line.match(/^Program (\w+) invoke \[(\d+)\]/);
+    if (invoke) {
+      if (invoke[2] === '1') outer++;
+      stack.length = Number(invoke[2]) - 1;
+      stack.push(invoke[1]);
+      continue;
+    }
+    if (/^Program \w+ (success|failed)/.test(line)) {
+      stack.pop();
+      continue;
+    }
+    const instruction = line.match(/^Program log: Instruction: (\w+)/);
+    if (instruction && DAMM_PROGRAM_IDS[stack[stack.length - 1]] && DAMM_INSTRUCTION_KINDS[instruction[1]]) {
+      names.set(outer, [...(names.get(outer) || []), instruction[1]]);
+    }
+  }
+  return names;
+}
+
+// Decode the DAMM actions of one transaction; throws when it can't be read
+function decodeDammTransaction(tx: ParsedTransaction): DammAction[] {
+  const message = tx.transaction.message;
+  const signature = tx.transaction.signatures?.[0] || '';
+  const accountKeys = (message.accountKeys || []).map(key => typeof key === 'string' ? key : key.pubkey);
+  const wallet = accountKeys[0];
+  if (!tx.blockTime) {
+    throw new Error('transaction has no blockTime');
   }
+  const timestamp = new Date(tx.blockTime * 1000).toISOString();
   
-  // Stop loss scenarios  
-  if (pnlPercent <= THRESHOLDS.STOP_LOSS) {
-    return {
-      action: 'STOP_LOSS',
-      reason: `Position down ${Math.abs(pnlPercent).toFixed(1)}%. Consider cutting losses to preserve capital.`,
-      confidence: 'HIGH'
-    };
+  // Token account -> mint and decimals, for transfers that don't carry them
+  const tokenAccounts = new Map<string, { mint: string; decimals: number }>();
+  [...(tx.meta.preTokenBalances || []), ...(tx.meta.postTokenBalances || [])].forEach(balance => {
+    tokenAccounts.set(accountKeys[balance.accountIndex], { mint: balance.mint, decimals: balance.uiTokenAmount.decimals });
+  });
+  
+  const actions: DammAction[] = [];
+  for (const [index, instructions] of dammInstructionNames(tx.meta.logMessages || [])) {
+    const inner = (tx.meta.innerInstructions || []).find(group => group.index === index);
+    const legs = new Map<string, number>();
+    
+    for (const instruction of inner ? inner.instructions : []) {
+      const parsed = instruction.parsed;
+      if (!parsed || instruction.program === 'system' || (parsed.type !== 'transfer' && parsed.type !== 'transferChecked')) continue;
+      const info = parsed.info;
+      const account = tokenAccounts.get(info.source || '') || tokenAccounts.get(info.destination || '');
+      const mint: string | undefined = info.mint || account?.mint;
+      if (!mint) continue;
+      const amount = info.tokenAmount
+        ? Number(info.tokenAmount.uiAmountString ?? info.tokenAmount.uiAmount)
+        : Number(info.amount) / Math.pow(10, account?.decimals ?? 0);
+      const signedAmount = info.authority === wallet ? -amount : amount;
+      legs.set(mint, (legs.get(mint) || 0) + signedAmount);
+    }
+    
+    // Several DAMM instructions under one outer instruction (e.g. via a router)
+    // count as the most significant of them
+    const kinds = instructions.map(name => DAMM_INSTRUCTION_KINDS[name]);
+    const kind = (['add', 'remove', 'claim', 'close'] as DammInstructionKind[]).find(candidate => kinds.includes(candidate))!;
+    actions.push({
+      signature,
+      index,
+      timestamp,
+      instructions,
+      kind,
+      legs: [...legs.entries()].filter(([, amount]) => amount !== 0).map(([mint, amount]) => ({ mint, amount }))
+    });
   }
   
-  if (pnlPercent <= THRESHOLDS.MODERATE_LOSS) {
-    if (daysOpen > 30) {
-      return {
-        action: 'REDUCE',
-        reason: `Position down ${Math.abs(pnlPercent).toFixed(1)}% for ${daysOpen} days. Consider reducing exposure or reevaluating thesis.`,
-        confidence: 'MEDIUM'
-      };
-    } else {
-      return {
-        action: 'HOLD',
-        reason: `Down ${Math.abs(pnlPercent).toFixed(1)}% but position is recent (${daysOpen} days). Monitor closely.`,
-        confidence: 'LOW'
-      };
-    }
-  }
-  
-  // Top up scenarios
-  if (pnlPercent >= THRESHOLDS.BREAK_EVEN && pnlPercent < THRESHOLDS.MODERATE_PROFIT) {
-    if (realizedPnlUSD > 0) {
-      return {
-        action: 'TOP_UP',
-        reason: `Near breakeven with $${realizedPnlUSD.toFixed(2)} in fees earned. Position showing promise - consider increasing.`,
-        confidence: 'MEDIUM'
-      };
+  // Removing the liquidity and closing the position in one transaction is a
+  // close at the value withdrawn
+  const close = actions.find(action => action.kind === 'close');
+  const removal = [...actions].reverse().find(action => action.kind === 'remove');
+  if (close && removal) {
+    removal.kind = 'close';
+    removal.instructions.push(...close.instructions);
+    return actions.filter(action => action !== close);
+  }
+  return actions;
+}
+
+// Instructions that move one token more than the other, so the two legs are
+// not of equal value
+const ONE_SIDED_INSTRUCTIONS = ['AddImbalanceLiquidity', 'RemoveLiquiditySingleSide'];
+
+// USD value of an action's legs, with SOL at `solPriceUSD` (the rate at block
+// time). An unpriced token in a balanced liquidity move counts at the value of
+// the priced one, and the value is flagged as estimated. Throws when a token
+// can't be priced.
+function valueDammAction(action: DammAction, solPriceUSD?: number, tokenPriceUSD?: number): { amountUSD: number; estimated: boolean } {
+  let priced = 0;
+  const unpriced: TokenLeg[] = [];
+  for (const leg of action.legs) {
+    const amount = Math.abs(leg.amount);
+    if (leg.mint === WSOL_MINT) {
+      if (solPriceUSD === undefined) {
+        throw new Error(`no SOL price for ${action.timestamp.substring(0, 19)} (configure DAMM_PNL_PRICE_FILE, or pass --price)`);
+      }
+      priced += amount * solPriceUSD;
+    } else if (STABLE_MINTS[leg.mint]) {
+      priced += amount;
+    } else if (tokenPriceUSD !== undefined) {
+      priced += amount * tokenPriceUSD;
     } else {
-      return {
-        action: 'HOLD',
-        reason: `Position near breakeven. Monitor for clear direction before making changes.`,
-        confidence: 'LOW'
-      };
+      unpriced.push(leg);
     }
   }
   
-  // Moderate profit - hold and monitor
-  if (pnlPercent >= THRESHOLDS.MODERATE_PROFIT && pnlPercent < THRESHOLDS.STRONG_PROFIT) {
-    return {
-      action: 'HOLD',
-      reason: `Good ${pnlPercent.toFixed(1)}% profit with momentum. Hold position and monitor for further gains.`,
-      confidence: 'MEDIUM'
-    };
+  if (unpriced.length === 0) return { amountUSD: priced, estimated: false };
+  const oneSided = action.instructions.some(name => ONE_SIDED_INSTRUCTIONS.includes(name));
+  if (unpriced.length === 1 && priced > 0 && action.kind !== 'claim' && !oneSided) {
+    return { amountUSD: priced * 2, estimated: true };
   }
+  throw new Error(`cannot price ${unpriced.map(leg => mintName(leg.mint)).join(', ')}; pass --token-price <usd>`);
+}
+
+// Turn decoded actions into events on the position picked by `selector`. An
+// add with no active position opens one for token `selector`.
+async function applyDammActions(positions: Record<string, Position>, actions: DammAction[], selector: string, solPriceOverride?: number, tokenPriceUSD?: number): Promise<IngestResult[]> {
+  const imported = new Set<string>();
+  Object.values(positions).forEach(position => (position.events || []).forEach(event => {
+    if (event.import_id) imported.add(event.import_id);
+  }));
   
-  // Default hold
-  return {
-    action: 'HOLD',
-    reason: `Position performing as expected. Continue monitoring market conditions.`,
-    confidence: 'LOW'
-  };
+  // Time order; within a transaction the close comes after the claims and removals
+  const ordered = [...actions].sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp) || Number(a.kind === 'close') - Number(b.kind === 'close') || a.index - b.index);
+  const results: IngestResult[] = [];
+  
+  for (const action of ordered) {
+    const id = `${action.signature}#${action.index}`;
+    let estimated = false;
+    const result = (status: IngestResult['status'], detail: string, type: PositionEventType | null = null, amountUSD: number | null = null, solPrice: number | null = null) =>
+      results.push({ action, type, amount_usd: amountUSD, estimated, sol_price_usd: solPrice, status, detail });
+    
+    if (imported.has(id)) { result('duplicate', 'already imported'); continue; }
+    
+    const matches = findActivePositions(positions, selector);
+    if (matches.length > 1) { result('error', `'${selector}' matches ${matches.length} active positions; use a position ID or label`); continue; }
+    let position = matches[0] || null;
+    
+    if (action.kind === 'close' && action.legs.length === 0) {
+      result('skipped', 'no liquidity removed in this transaction; close the position with ./damm-pnl close');
+      continue;
+    }
+    
+    // A stale quote is not the rate at block time: SOL legs can't be valued
+    // with it and events are recorded without a rate
+    const time = new Date(action.timestamp).getTime();
+    const quote = solPriceOverride === undefined ? await getSOLPriceQuoteAt(time) : null;
+    const solPrice = solPriceOverride ?? (quote && !quote.stale ? quote.price : undefined);
+    
+    let amountUSD: number;
+    try {
+      ({ amountUSD, estimated } = valueDammAction(action, solPrice, tokenPriceUSD));
+    } catch (error) {
+      result('error', error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    // Same checks as add-capital, withdraw, claim-fee and close
+    const { error } = parseAmount(String(amountUSD), 'Amount');
+    if (error) { result('error', `${error} (no token transfers found)`); continue; }
+    
+    const type: PositionEventType = action.kind === 'add' ? 'add_capital' : action.kind === 'remove' ? 'withdraw' : action.kind === 'close' ? 'close' : 'fee_claim';
+    
+    if (!position) {
+      if (type !== 'add_capital') { result('error', `no active position for ${selector.toUpperCase()}`); continue; }
+      position = await initializePosition(selector.toLowerCase(), amountUSD, solPrice, action.timestamp);
+      positions[position.id] = position;
+      position.events!.forEach(event => { event.import_id = id; });
+      imported.add(id);
+      result('imported', `new position ${positionName(position)} #${positionShortId(position)}`, 'open', amountUSD, solPrice ?? null);
+      continue;
+    }
+    try {
+      checkEventTime(position, type, action.timestamp);
+    } catch (error) {
+      if (!(error instanceof PositionBookError)) throw error;
+      result('error', error.message);
+      continue;
+    }
+    
+    recordEvent(position, type, amountUSD, action.timestamp, solPrice).import_id = id;
+    imported.add(id);
+    result('imported', `${positionName(position)} #${positionShortId(position)}${type === 'close' ? ' closed' : ''}`, type, amountUSD, solPrice ?? null);
+  }
+  
+  return results;
+}
+
+function showIngestResults(results: IngestResult[]): void {
+  console.log(`\n${colorText('Meteora DAMM transactions:', COLORS.BOLD + COLORS.WHITE)} ${colorText('(in time order)', COLORS.GRAY)}`);
+  console.log(colorText('='.repeat(60), COLORS.CYAN));
+  results.forEach(({ action, type, amount_usd, estimated, status, detail }) => {
+    const legs = action.legs.map(leg => `${leg.amount > 0 ? '+' : ''}${Number(leg.amount.toFixed(6))} ${mintName(leg.mint)}`).join(' ');
+    const amount = amount_usd !== null ? `${formatUSDNeutral(amount_usd)}${estimated ? colorText(' (est.)', COLORS.BRIGHT_YELLOW) : ''}` : '';
+    const what = type ? `${EVENT_LABELS[type].padEnd(11)} ${amount}` : colorText(action.instructions.join('+').padEnd(11), COLORS.GRAY);
+    const outcome = status === 'imported' ? colorText(`→ ${detail}`, COLORS.BRIGHT_GREEN)
+      : status === 'error' ? colorText(`error: ${detail}`, COLORS.BRIGHT_RED)
+      : colorText(`skipped: ${detail}`, COLORS.GRAY);
+    console.log(`${colorText(action.timestamp.substring(0, 19), COLORS.GRAY)} ${colorText(`${action.signature.slice(0, 8)}…#${action.index}`, COLORS.GRAY)} ${what} ${outcome}`);
+    if (legs) {
+      console.log(`    ${colorText(`${action.instructions.join(', ')}: ${legs}`, COLORS.GRAY)}`);
+    }
+  });
+  console.log('');
+}
+
+// ---------------------------------------------------------------------------
+// Position metadata, suggestions and position views
+// ---------------------------------------------------------------------------
+
+const META_FIELDS = ['pool', 'pair', 'fee-tier'];
+
+function formatFeeTier(percentage: number): string {
+  return `${percentage}%`;
+}
+
+// One-line summary of the metadata for position lists, or null when none is set
+function formatPositionMeta(position: Position): string | null {
+  const parts: string[] = [];
+  if (position.pair) parts.push(position.pair);
+  if (position.fee_tier_percentage !== undefined) parts.push(`fee ${formatFeeTier(position.fee_tier_percentage)}`);
+  if (position.pool_address) parts.push(`pool ${position.pool_address.substring(0, 4)}…${position.pool_address.slice(-4)}`);
+  if (position.tags && position.tags.length > 0) parts.push(position.tags.map(tag => `#${tag}`).join(' '));
+  return parts.length > 0 ? parts.join(' | ') : null;
+}
+
+// Metadata block of the position view; prints nothing when none is set
+function showPositionMeta(position: Position): void {
+  if (position.pool_address) {
+    console.log(`${colorText('Pool:', COLORS.WHITE)} ${colorText(position.pool_address, COLORS.GRAY)}`);
+  }
+  if (position.pair || position.fee_tier_percentage !== undefined) {
+    const pair = position.pair ? `${colorText('Pair:', COLORS.WHITE)} ${colorText(position.pair, COLORS.BRIGHT_CYAN)}` : '';
+    const feeTier = position.fee_tier_percentage !== undefined ? `${colorText('Fee Tier:', COLORS.WHITE)} ${colorText(formatFeeTier(position.fee_tier_percentage), COLORS.BRIGHT_CYAN)}` : '';
+    console.log([pair, feeTier].filter(Boolean).join(` ${colorText('|', COLORS.GRAY)} `));
+  }
+  if (position.tags && position.tags.length > 0) {
+    console.log(`${colorText('Tags:', COLORS.WHITE)} ${colorText(position.tags.map(tag => `#${tag}`).join(' '), COLORS.BRIGHT_CYAN)}`);
+  }
+  if (position.notes) {
+    console.log(colorText('Notes:', COLORS.WHITE));
+    position.notes.split('\n').forEach(line => console.log(`  ${colorText(line, COLORS.GRAY)}`));
+  }
 }
 
-async function displayPositionInfo(token: string, position: Position, currentValueUSD: number): Promise<void> {
+async function displayPositionInfo(token: string, position: Position, currentValueUSD: number, positions: Record<string, Position>): Promise<void> {
   try {
     const pnlData = await calculatePnl(position, currentValueUSD);
-    const suggestion = generateSuggestion(position, pnlData);
+    const suggestion = generateSuggestion(position, pnlData, positions, activePortfolio);
     const daysOpen = Math.floor((Date.now() - new Date(position.created_at).getTime()) / (1000 * 60 * 60 * 24));
     
     console.log(`\n${colorText('='.repeat(60), COLORS.CYAN)}`);
     console.log(`${colorText('TOKEN:', COLORS.BOLD + COLORS.WHITE)} ${colorText(token.toUpperCase(), COLORS.BRIGHT_CYAN, true)}`);
     console.log(`${colorText('='.repeat(60), COLORS.CYAN)}`);
+    showPositionMeta(position);
     
     // Show USD values with SOL equivalents in parentheses
     const capitalAdditions = (position.capital_additions_usd || 0);
@@ -473,31 +1061,29 @@ async function displayPositionInfo(token: string, position: Position, currentVal
     console.log(`${colorText('Initial Position Value:', COLORS.WHITE)} ${formatUSDNeutral(pnlData.initial_value_usd)} ${colorText(`(${(pnlData.initial_value_sol || 0).toFixed(4)} SOL)`, COLORS.GRAY)}`);
     
     if (capitalAdditions > 0) {
-      const solPrice = await getSOLPriceUSD();
-      const capitalAdditionsSOL = solPrice > 0 ? capitalAdditions / solPrice : 0;
-      console.log(`${colorText('Capital Additions:', COLORS.WHITE)} ${formatUSDNeutral(capitalAdditions)} ${colorText(`(${capitalAdditionsSOL.toFixed(4)} SOL)`, COLORS.GRAY)}`);
+      console.log(`${colorText('Capital Additions:', COLORS.WHITE)} ${formatUSDNeutral(capitalAdditions)} ${colorText(`(${pnlData.capital_additions_sol.toFixed(4)} SOL)`, COLORS.GRAY)}`);
     }
     
     console.log(`${colorText('Total Invested Capital:', COLORS.BOLD + COLORS.WHITE)} ${formatUSDNeutral(pnlData.total_invested_usd)} ${colorText(`(${(pnlData.total_invested_sol || 0).toFixed(4)} SOL)`, COLORS.GRAY)}`);
     
     if (withdrawn > 0) {
-      const solPrice = await getSOLPriceUSD();
-      const withdrawnSOL = solPrice > 0 ? withdrawn / solPrice : 0;
-      console.log(`${colorText('Withdrawn:', COLORS.WHITE)} ${formatUSDValue(withdrawn)} ${colorText(`(${formatSOLValue(withdrawnSOL)})`, COLORS.GRAY)}`);
+      console.log(`${colorText('Withdrawn:', COLORS.WHITE)} ${formatUSDValue(withdrawn)} ${colorText(`(${formatSOLValue(pnlData.withdrawn_sol)})`, COLORS.GRAY)}`);
     }
     
     console.log(`${colorText('Current Position Value:', COLORS.WHITE)} ${colorText(`$${currentValueUSD.toFixed(2)}`, COLORS.BRIGHT_YELLOW, true)} ${colorText(`(${(pnlData.current_value_sol || 0).toFixed(4)} SOL)`, COLORS.GRAY)}`);
     
     // Show actual fees claimed (not total realized PnL)
     const actualFeesUSD = position.fees_claimed_usd;
-    const solPrice = await getSOLPriceUSD();
-    const actualFeesSOL = solPrice > 0 ? actualFeesUSD / solPrice : 0;
-    console.log(`${colorText('Fees Claimed:', COLORS.WHITE)} ${formatUSDNeutral(actualFeesUSD)} ${colorText(`(${actualFeesSOL.toFixed(4)} SOL)`, COLORS.GRAY)}`);
+    console.log(`${colorText('Fees Claimed:', COLORS.WHITE)} ${formatUSDNeutral(actualFeesUSD)} ${colorText(`(${pnlData.fees_claimed_sol.toFixed(4)} SOL)`, COLORS.GRAY)}`);
     
-    // Show current SOL price used for calculations
-    const currentSOLPrice = await getSOLPriceUSD();
-    if (currentSOLPrice > 0) {
-      console.log(`${colorText('SOL Price (live):', COLORS.GRAY)} ${colorText(`$${currentSOLPrice.toFixed(2)}`, COLORS.BRIGHT_CYAN, true)}`);
+    // Show current SOL price used for calculations and where it came from
+    const quote = await getSOLPriceQuote();
+    if (quote) {
+      console.log(`${colorText(`SOL Price (${quote.source}):`, COLORS.GRAY)} ${colorText(`$${quote.price.toFixed(2)}`, COLORS.BRIGHT_CYAN, true)}`);
+    }
+    await warnIfPriceUnreliable();
+    if (quote && hasMissingSolPrice(position)) {
+      console.log(colorText('Some events have no recorded SOL price; the live price is used for them.', COLORS.GRAY));
     }
   console.log(``);
   
@@ -505,6 +1091,8 @@ async function displayPositionInfo(token: string, position: Position, currentVal
   console.log(`${colorText('Unrealized PNL:', COLORS.WHITE)} ${formatUSDValue(pnlData.unrealized_pnl_usd)} ${colorText(`(${formatSOLValue(pnlData.unrealized_pnl_sol || 0)})`, COLORS.GRAY)}`);
   console.log(`${colorText('Realized PNL:', COLORS.WHITE)} ${formatUSDValue(pnlData.realized_pnl_usd)} ${colorText(`(${formatSOLValue(pnlData.realized_pnl_sol || 0)})`, COLORS.GRAY)}`);
   console.log(`${colorText('Total PNL:', COLORS.BOLD + COLORS.WHITE)} ${formatUSDValue(pnlData.total_pnl_usd)} ${colorText(`(${formatSOLValue(pnlData.total_pnl_sol || 0)})`, COLORS.GRAY)}`);
+  console.log(`${colorText('PNL in SOL terms:', COLORS.WHITE)} ${formatSOLValue(pnlData.total_pnl_sol)} ${formatPercentage(pnlData.pnl_percentage_sol)}`);
+  console.log(`${colorText('IRR (annualised):', COLORS.WHITE)} ${formatReturn(pnlData.irr_percentage)} ${colorText('|', COLORS.GRAY)} ${colorText('Time-weighted:', COLORS.WHITE)} ${formatReturn(pnlData.twr_percentage)}`);
   console.log(``);
   
   // Prominent PNL Percentage Display
@@ -543,22 +1131,128 @@ async function displayPositionInfo(token: string, position: Position, currentVal
   }
 }
 
-function listAllPositions(positions: Record<string, Position>): void {
-  const activePositions = Object.values(positions).filter(pos => !pos.is_closed);
-  
-  if (activePositions.length === 0) {
+async function showSuggestions(book: Position[], positions: Record<string, Position>, explain: boolean): Promise<void> {
+  if (book.length === 0) {
     console.log(colorText('No active positions found.', COLORS.GRAY));
     return;
   }
-
-  console.log(`\n${colorText('Active Positions:', COLORS.BOLD + COLORS.WHITE)}`);
-  console.log(colorText('=================', COLORS.CYAN));
-  activePositions.forEach(position => {
-    const capitalAdditions = position.capital_additions_usd || 0;
+  
+  console.log(`\n${colorText('Suggestions:', COLORS.BOLD + COLORS.WHITE)} ${colorText(`(rules: ${fs.existsSync(rulesFilePath()) ? rulesFilePath() : 'built-in'})`, COLORS.GRAY)}`);
+  console.log(colorText('============', COLORS.CYAN));
+  
+  for (const row of await buildSuggestionReport(book, positions, explain, activePortfolio)) {
+    const position = positions[row.id];
+    console.log(`${colorText(positionName(position), COLORS.BRIGHT_CYAN, true)} ${colorText(`#${positionShortId(position)}`, COLORS.GRAY)}: ${colorText(row.suggestion.action, COLORS.BOLD + COLORS.WHITE)} ${colorText(`(${row.suggestion.confidence})`, COLORS.GRAY)} ${colorText(`[${row.suggestion.rule ?? 'no rule'}]`, COLORS.BRIGHT_YELLOW)}`);
+    console.log(`  ${row.suggestion.reason}`);
+    
+    if (explain) {
+      const metrics = Object.entries(row.metrics)
+        .map(([metric, value]) => `${metric}=${value === null ? 'n/a' : Number(value.toFixed(2))}`)
+        .join(' ');
+      console.log(`  ${colorText('Metrics:', COLORS.GRAY)} ${colorText(metrics, COLORS.WHITE)}`);
+      row.evaluated!.forEach(evaluation => {
+        const checks = evaluation.checks.length === 0
+          ? 'no conditions'
+          : evaluation.checks.map(check => {
+            const value = check.value === null ? 'n/a' : Number(check.value.toFixed(2));
+            const text = `${check.metric} ${value} ${CONDITION_SYMBOLS[check.operator]} ${check.threshold}`;
+            return colorText(text, check.passed ? COLORS.BRIGHT_GREEN : COLORS.BRIGHT_RED);
+          }).join(', ');
+        const mark = evaluation.fired ? colorText('✔ fired  ', COLORS.BRIGHT_GREEN, true) : colorText('✘ skipped', COLORS.GRAY);
+        console.log(`    ${mark} ${colorText(evaluation.rule, COLORS.WHITE)} ${colorText(`(${evaluation.source})`, COLORS.GRAY)}: ${checks}`);
+      });
+    }
+    console.log('');
+  }
+}
+
+const EVENT_LABELS: Record<PositionEventType, string> = {
+  open: 'OPEN',
+  value_snapshot: 'VALUE',
+  fee_claim: 'FEE CLAIM',
+  add_capital: 'ADD CAPITAL',
+  withdraw: 'WITHDRAW',
+  close: 'CLOSE'
+};
+
+function showEventLedger(position: Position): void {
+  const events = sortedEvents(position);
+  const status = position.is_closed ? colorText('closed', COLORS.GRAY) : colorText('active', COLORS.BRIGHT_GREEN);
+  
+  console.log(`\n${colorText(`Event Ledger: ${positionName(position)}`, COLORS.BOLD + COLORS.WHITE)} ${colorText(`(${position.id},`, COLORS.GRAY)} ${status}${colorText(')', COLORS.GRAY)}`);
+  console.log(colorText('='.repeat(60), COLORS.CYAN));
+  
+  if (events.length === 0) {
+    console.log(colorText('No events recorded.', COLORS.GRAY));
+    return;
+  }
+  
+  events.forEach(event => {
+    const label = EVENT_LABELS[event.type].padEnd(12);
+    const amount = event.type === 'withdraw' || event.type === 'fee_claim'
+      ? formatUSDValue(event.amount_usd)
+      : formatUSDNeutral(event.amount_usd);
+    const rate = event.sol_price_usd ? colorText(`@ SOL $${event.sol_price_usd.toFixed(2)}`, COLORS.GRAY) : colorText('@ SOL n/a', COLORS.GRAY);
+    const synthetic = event.synthetic ? ` ${colorText('(migrated)', COLORS.GRAY)}` : event.import_id ? ` ${colorText('(imported)', COLORS.GRAY)}` : '';
+    console.log(`${colorText(event.timestamp.substring(0, 19), COLORS.GRAY)}  ${colorText(label, COLORS.BRIGHT_CYAN, true)} ${amount} ${rate}${synthetic}`);
+    if (event.note) {
+      console.log(`${' '.repeat(21)}${colorText(event.note, COLORS.WHITE)}`);
+    }
+  });
+  console.log('');
+}
+
+function showValueHistory(position: Position): void {
+  const points = buildValueHistory(position);
+  
+  console.log(`\n${colorText(`Value History: ${positionName(position)}`, COLORS.BOLD + COLORS.WHITE)} ${colorText(`(${position.id})`, COLORS.GRAY)}`);
+  console.log(colorText('='.repeat(60), COLORS.CYAN));
+  
+  if (points.length === 0) {
+    console.log(colorText('No value snapshots recorded.', COLORS.GRAY));
+    return;
+  }
+  
+  console.log(colorText(`${'Date'.padEnd(21)}${'Value'.padStart(12)}${'Fees'.padStart(12)}${'Total PNL'.padStart(14)}`, COLORS.GRAY));
+  points.forEach(point => {
+    const pnl = point.total_pnl_usd;
+    const pnlText = `${pnl >= 0 ? '+' : '-'}$${Math.abs(pnl).toFixed(2)}`.padStart(14);
+    const pnlColor = pnl > 0 ? COLORS.BRIGHT_GREEN : pnl < 0 ? COLORS.BRIGHT_RED : COLORS.GRAY;
+    console.log(
+      `${colorText(point.timestamp.substring(0, 19).replace('T', ' ').padEnd(21), COLORS.WHITE)}` +
+      `${colorText(`$${point.value_usd.toFixed(2)}`.padStart(12), COLORS.BRIGHT_YELLOW)}` +
+      `${colorText(`$${point.fees_claimed_usd.toFixed(2)}`.padStart(12), COLORS.BRIGHT_YELLOW)}` +
+      `${colorText(pnlText, pnlColor, true)}`
+    );
+  });
+  
+  if (points.length > 1) {
+    console.log('');
+    console.log(`${colorText('Value:    ', COLORS.GRAY)} ${colorText(sparkline(points.map(p => p.value_usd)), COLORS.BRIGHT_CYAN)}`);
+    console.log(`${colorText('Fees:     ', COLORS.GRAY)} ${colorText(sparkline(points.map(p => p.fees_claimed_usd)), COLORS.BRIGHT_YELLOW)}`);
+    const lastPnl = points[points.length - 1].total_pnl_usd;
+    console.log(`${colorText('Total PNL:', COLORS.GRAY)} ${colorText(sparkline(points.map(p => p.total_pnl_usd)), lastPnl >= 0 ? COLORS.BRIGHT_GREEN : COLORS.BRIGHT_RED)}`);
+  }
+  console.log('');
+}
+
+function listAllPositions(positions: Record<string, Position>, groupByTag: boolean = false): void {
+  const activePositions = Object.values(positions).filter(pos => !pos.is_closed);
+  
+  if (activePositions.length === 0) {
+    console.log(colorText('No active positions found.', COLORS.GRAY));
+    return;
+  }
+
+  console.log(`\n${colorText('Active Positions:', COLORS.BOLD + COLORS.WHITE)}`);
+  console.log(colorText('=================', COLORS.CYAN));
+  
+  const printPosition = (position: Position, indent: string) => {
+    const capitalAdditions = position.capital_additions_usd || 0;
     const withdrawn = position.withdrawn_usd || 0;
     const totalInvested = position.initial_value_usd + capitalAdditions;
     
-    let displayText = `${colorText(position.token.toUpperCase(), COLORS.BRIGHT_CYAN, true)}: `;
+    let displayText = `${colorText(positionName(position), COLORS.BRIGHT_CYAN, true)} ${colorText(`#${positionShortId(position)}`, COLORS.GRAY)}: `;
     
     if (capitalAdditions > 0 || withdrawn > 0) {
       displayText += `${formatUSDNeutral(totalInvested)} ${colorText('(initial:', COLORS.GRAY)} ${formatUSDNeutral(position.initial_value_usd)}`;
@@ -578,12 +1272,31 @@ function listAllPositions(positions: Record<string, Position>): void {
     
     displayText += ` ${colorText('(fees:', COLORS.GRAY)} ${formatUSDNeutral(position.fees_claimed_usd)}${colorText(')', COLORS.GRAY)}`;
     
-    console.log(displayText);
-  });
+    // Latest unrealized PNL from the most recent value snapshot
+    if (position.current_value_usd !== undefined && position.value_updated_at) {
+      const unrealizedPnlUSD = position.current_value_usd - (totalInvested - withdrawn);
+      displayText += ` ${colorText('(unrealized:', COLORS.GRAY)} ${formatUSDValue(unrealizedPnlUSD)}${colorText(`, ${formatAge(position.value_updated_at)})`, COLORS.GRAY)}`;
+    }
+    
+    console.log(indent + displayText);
+    const meta = formatPositionMeta(position);
+    if (meta) {
+      console.log(`${indent}  ${colorText(meta, COLORS.GRAY)}`);
+    }
+  };
+  
+  if (groupByTag) {
+    groupPositionsByTag(activePositions).forEach(([tag, tagPositions]) => {
+      console.log(`${colorText(tag ? `#${tag}` : '(untagged)', COLORS.BOLD + COLORS.WHITE)}:`);
+      tagPositions.forEach(position => printPosition(position, '  '));
+    });
+  } else {
+    activePositions.forEach(position => printPosition(position, ''));
+  }
   console.log('');
 }
 
-async function listClosedPositions(positions: Record<string, Position>): Promise<void> {
+async function listClosedPositions(positions: Record<string, Position>, groupByTag: boolean = false): Promise<void> {
   const closedPositions = Object.values(positions).filter(pos => pos.is_closed);
   
   if (closedPositions.length === 0) {
@@ -591,24 +1304,33 @@ async function listClosedPositions(positions: Record<string, Position>): Promise
     return;
   }
 
-  // Group by token for better organization
+  // Group by token for better organization (or by tag with --by tag)
   const closedByToken: Record<string, Position[]> = {};
-  closedPositions.forEach(pos => {
-    const token = pos.token.toLowerCase();
-    if (!closedByToken[token]) {
-      closedByToken[token] = [];
-    }
-    closedByToken[token].push(pos);
-  });
+  if (groupByTag) {
+    groupPositionsByTag(closedPositions).forEach(([tag, tagPositions]) => {
+      closedByToken[tag ? `#${tag}` : '(untagged)'] = tagPositions;
+    });
+  } else {
+    closedPositions.forEach(pos => {
+      const token = pos.token.toLowerCase();
+      if (!closedByToken[token]) {
+        closedByToken[token] = [];
+      }
+      closedByToken[token].push(pos);
+    });
+  }
 
   console.log(`\n${colorText('Closed Positions:', COLORS.BOLD + COLORS.WHITE)}`);
   console.log(colorText('=================', COLORS.CYAN));
   
-  // Get SOL price once for all calculations
+  // Get SOL price once for all calculations (only used for events without a recorded rate)
   const solPrice = await getSOLPriceUSD();
+  if (closedPositions.some(hasMissingSolPrice)) {
+    await warnIfPriceUnreliable();
+  }
   
   for (const [token, positions] of Object.entries(closedByToken)) {
-    console.log(`${colorText(token.toUpperCase(), COLORS.BRIGHT_CYAN, true)}:`);
+    console.log(`${colorText(groupByTag ? token : token.toUpperCase(), COLORS.BRIGHT_CYAN, true)}:`);
     
     // Sort by closure date (newest first)
     positions.sort((a, b) => new Date(b.closed_at!).getTime() - new Date(a.closed_at!).getTime());
@@ -616,102 +1338,25 @@ async function listClosedPositions(positions: Record<string, Position>): Promise
     positions.forEach((position, index) => {
       const daysOpen = Math.floor((new Date(position.closed_at!).getTime() - new Date(position.created_at).getTime()) / (1000 * 60 * 60 * 24));
       
-      // Convert USD values to SOL
-      const totalInvestedSOL = solPrice > 0 ? position.total_invested_usd! / solPrice : 0;
-      const exitValueSOL = solPrice > 0 ? position.exit_value_usd! / solPrice : 0;
-      const finalPnlSOL = solPrice > 0 ? position.final_pnl_usd! / solPrice : 0;
+      // Convert USD values to SOL at the rates recorded on each event
+      const flows = calculateSolFlows(position, solPrice);
+      const totalInvestedSOL = flows.total_invested_sol;
+      const exitValueSOL = flows.exit_value_sol || 0;
+      const finalPnlSOL = closedPnlSOL(position, solPrice);
+      const finalPnlPercentSOL = totalInvestedSOL > 0 ? (finalPnlSOL / totalInvestedSOL) * 100 : 0;
+      const timeline = returnTimeline(position);
       
-      console.log(`  ${index + 1}. ${formatUSDNeutral(position.total_invested_usd!)} ${colorText(`(${totalInvestedSOL.toFixed(4)} SOL)`, COLORS.GRAY)} → ${formatUSDNeutral(position.exit_value_usd!)} ${colorText(`(${exitValueSOL.toFixed(4)} SOL)`, COLORS.GRAY)} ${formatBigPercentage(position.final_pnl_percentage!)} ${colorText(`(${daysOpen} days)`, COLORS.GRAY)}`);
-      console.log(`     ${colorText('Final PNL:', COLORS.GRAY)} ${formatUSDValue(position.final_pnl_usd!)} ${colorText(`(${formatSOLValue(finalPnlSOL)})`, COLORS.GRAY)} ${colorText('Closed:', COLORS.GRAY)} ${colorText(position.closed_at!.substring(0, 19), COLORS.WHITE)}`);
+      console.log(`  ${index + 1}. ${formatUSDNeutral(position.total_invested_usd!)} ${colorText(`(${totalInvestedSOL.toFixed(4)} SOL)`, COLORS.GRAY)} → ${formatUSDNeutral(position.exit_value_usd!)} ${colorText(`(${exitValueSOL.toFixed(4)} SOL)`, COLORS.GRAY)} ${formatBigPercentage(position.final_pnl_percentage!)} ${colorText(`(${daysOpen} days)`, COLORS.GRAY)}${groupByTag ? ' ' + colorText(positionName(position), COLORS.BRIGHT_CYAN) : position.label ? ' ' + colorText(`[${position.label}]`, COLORS.BRIGHT_CYAN) : ''}`);
+      console.log(`     ${colorText('Final PNL:', COLORS.GRAY)} ${formatUSDValue(position.final_pnl_usd!)} ${colorText('|', COLORS.GRAY)} ${formatSOLValue(finalPnlSOL)} ${formatPercentage(finalPnlPercentSOL)} ${colorText('Closed:', COLORS.GRAY)} ${colorText(position.closed_at!.substring(0, 19), COLORS.WHITE)}`);
+      console.log(`     ${colorText('IRR:', COLORS.GRAY)} ${formatReturn(calculateIRR(timeline))} ${colorText('| TWR:', COLORS.GRAY)} ${formatReturn(calculateTWR(timeline))}`);
     });
   }
   console.log('');
 }
 
-function calculateSummaryStats(positions: Position[]): {
-  totalInvestedUSD: number;
-  totalPnlUSD: number;
-  winningPositions: number;
-  losingPositions: number;
-  totalWinPnlUSD: number;
-  totalLossPnlUSD: number;
-  winRate: number;
-  lossRate: number;
-  overallPnlPercentage: number;
-  biggestWinUSD: number;
-  biggestLossUSD: number;
-  biggestWinPercent: number;
-  biggestLossPercent: number;
-  expectedValueUSD: number;
-} {
-  let totalInvestedUSD = 0;
-  let totalPnlUSD = 0;
-  let winningPositions = 0;
-  let losingPositions = 0;
-  let totalWinPnlUSD = 0;
-  let totalLossPnlUSD = 0;
-  let biggestWinUSD = 0;
-  let biggestLossUSD = 0;
-  let biggestWinPercent = 0;
-  let biggestLossPercent = 0;
-  
-  positions.forEach(position => {
-    totalInvestedUSD += position.total_invested_usd || 0;
-    const pnlUSD = position.final_pnl_usd || 0;
-    const pnlPercent = position.final_pnl_percentage || 0;
-    
-    totalPnlUSD += pnlUSD;
-    
-    if (pnlUSD > 0) {
-      winningPositions++;
-      totalWinPnlUSD += pnlUSD;
-      if (pnlUSD > biggestWinUSD) {
-        biggestWinUSD = pnlUSD;
-      }
-      if (pnlPercent > biggestWinPercent) {
-        biggestWinPercent = pnlPercent;
-      }
-    } else if (pnlUSD < 0) {
-      losingPositions++;
-      totalLossPnlUSD += pnlUSD;
-      if (pnlUSD < biggestLossUSD) {
-        biggestLossUSD = pnlUSD;
-      }
-      if (pnlPercent < biggestLossPercent) {
-        biggestLossPercent = pnlPercent;
-      }
-    }
-  });
-  
-  const totalPositions = positions.length;
-  const winRate = totalPositions > 0 ? (winningPositions / totalPositions) * 100 : 0;
-  const lossRate = totalPositions > 0 ? (losingPositions / totalPositions) * 100 : 0;
-  const overallPnlPercentage = totalInvestedUSD > 0 ? (totalPnlUSD / totalInvestedUSD) * 100 : 0;
-  
-  // Calculate Expected Value (EV)
-  const avgWinUSD = winningPositions > 0 ? totalWinPnlUSD / winningPositions : 0;
-  const avgLossUSD = losingPositions > 0 ? totalLossPnlUSD / losingPositions : 0;
-  const winProbability = totalPositions > 0 ? winningPositions / totalPositions : 0;
-  const lossProbability = totalPositions > 0 ? losingPositions / totalPositions : 0;
-  const expectedValueUSD = (winProbability * avgWinUSD) + (lossProbability * avgLossUSD);
-  
-  return {
-    totalInvestedUSD,
-    totalPnlUSD,
-    winningPositions,
-    losingPositions,
-    totalWinPnlUSD,
-    totalLossPnlUSD,
-    winRate,
-    lossRate,
-    overallPnlPercentage,
-    biggestWinUSD,
-    biggestLossUSD,
-    biggestWinPercent,
-    biggestLossPercent,
-    expectedValueUSD
-  };
-}
+// ---------------------------------------------------------------------------
+// Summary reports
+// ---------------------------------------------------------------------------
 
 async function displaySummarySection(title: string, positions: Position[], solPrice: number): Promise<void> {
   if (positions.length === 0) {
@@ -721,7 +1366,7 @@ async function displaySummarySection(title: string, positions: Position[], solPr
     return;
   }
   
-  const stats = calculateSummaryStats(positions);
+  const stats = calculateSummaryStats(positions, solPrice);
   
   console.log(`${colorText(title, COLORS.BOLD + COLORS.WHITE)}`);
   console.log(colorText('='.repeat(title.length), COLORS.CYAN));
@@ -731,13 +1376,16 @@ async function displaySummarySection(title: string, positions: Position[], solPr
   console.log(`${colorText('Loss Rate:', COLORS.WHITE)} ${colorText(`${stats.lossRate.toFixed(1)}%`, stats.lossRate >= 50 ? COLORS.BRIGHT_RED : COLORS.BRIGHT_GREEN, true)} ${colorText(`(${stats.losingPositions} losses)`, COLORS.GRAY)}`);
   console.log(``);
   
-  // Convert to SOL for display
-  const totalInvestedSOL = solPrice > 0 ? stats.totalInvestedUSD / solPrice : 0;
-  const totalPnlSOL = solPrice > 0 ? stats.totalPnlUSD / solPrice : 0;
+  // SOL totals use the rate recorded on each event
+  const totalInvestedSOL = stats.totalInvestedSOL;
+  const totalPnlSOL = stats.totalPnlSOL;
+  const overallPnlPercentageSOL = totalInvestedSOL > 0 ? (totalPnlSOL / totalInvestedSOL) * 100 : 0;
   
   console.log(`${colorText('Total Invested:', COLORS.WHITE)} ${formatUSDNeutral(stats.totalInvestedUSD)} ${colorText(`(${totalInvestedSOL.toFixed(4)} SOL)`, COLORS.GRAY)}`);
   console.log(`${colorText('Total PNL:', COLORS.BOLD + COLORS.WHITE)} ${formatUSDValue(stats.totalPnlUSD)} ${colorText(`(${formatSOLValue(totalPnlSOL)})`, COLORS.GRAY)}`);
   console.log(`${colorText('Overall Return:', COLORS.BOLD + COLORS.WHITE)} ${formatBigPercentage(stats.overallPnlPercentage)}`);
+  console.log(`${colorText('Return in SOL terms:', COLORS.WHITE)} ${formatPercentage(overallPnlPercentageSOL)}`);
+  console.log(`${colorText('IRR (annualised):', COLORS.WHITE)} ${formatReturn(stats.irrPercentage)} ${colorText('|', COLORS.GRAY)} ${colorText('Time-weighted:', COLORS.WHITE)} ${formatReturn(stats.twrPercentage)}`);
   console.log(``);
   
   if (stats.winningPositions > 0) {
@@ -752,6 +1400,29 @@ async function displaySummarySection(title: string, positions: Position[], solPr
   console.log(`${colorText('Expected Value (EV):', COLORS.BOLD + COLORS.WHITE)} ${colorText(formatUSDValue(stats.expectedValueUSD).replace(/\x1b\[[0-9;]*m/g, ''), evColor, true)}`);
   console.log('');
   
+  // Risk statistics
+  console.log(`${colorText('⚖️  RISK:', COLORS.BOLD + COLORS.WHITE)}`);
+  const profitFactor = stats.profitFactor === null
+    ? colorText('n/a', COLORS.GRAY)
+    : colorText(stats.profitFactor.toFixed(2), stats.profitFactor >= 1 ? COLORS.BRIGHT_GREEN : COLORS.BRIGHT_RED, true);
+  console.log(`${colorText('Profit Factor:', COLORS.WHITE)} ${profitFactor} ${colorText('|', COLORS.GRAY)} ${colorText('Max Drawdown:', COLORS.WHITE)} ${stats.maxDrawdownUSD < 0 ? formatUSDValue(stats.maxDrawdownUSD) : colorText('$0.00', COLORS.GRAY)}`);
+  console.log(`${colorText('Longest Streaks:', COLORS.WHITE)} ${colorText(`${stats.longestWinStreak} wins`, COLORS.BRIGHT_GREEN)} ${colorText('|', COLORS.GRAY)} ${colorText(`${stats.longestLossStreak} losses`, COLORS.BRIGHT_RED)}`);
+  const ratio = (value: number | null) => value === null ? colorText('n/a', COLORS.GRAY) : colorText(value.toFixed(2), value >= 0 ? COLORS.BRIGHT_GREEN : COLORS.BRIGHT_RED);
+  console.log(`${colorText('Sharpe (per position):', COLORS.WHITE)} ${ratio(stats.sharpeRatio)} ${colorText('|', COLORS.GRAY)} ${colorText('Sortino:', COLORS.WHITE)} ${ratio(stats.sortinoRatio)}`);
+  if (stats.medianHoldingDays !== null) {
+    console.log(`${colorText('Median Holding Time:', COLORS.WHITE)} ${colorText(`${stats.medianHoldingDays.toFixed(1)} days`, COLORS.BRIGHT_CYAN)}`);
+  }
+  console.log('');
+  
+  // Expectancy per holding-time bucket
+  console.log(`${colorText('⏱️  EXPECTANCY BY HOLDING TIME:', COLORS.BOLD + COLORS.WHITE)}`);
+  HOLDING_BUCKETS.forEach(({ bucket, label }) => {
+    const bucketStats = stats.expectancyByHolding[bucket];
+    if (bucketStats.positions === 0) return;
+    console.log(`  ${colorText(label.padEnd(10), COLORS.WHITE)} ${colorText(`${bucketStats.positions} positions`, COLORS.GRAY)} ${colorText('| Win Rate:', COLORS.GRAY)} ${colorText(`${bucketStats.winRate.toFixed(1)}%`, bucketStats.winRate >= 50 ? COLORS.BRIGHT_GREEN : COLORS.BRIGHT_RED)} ${colorText('| EV:', COLORS.GRAY)} ${formatUSDValue(bucketStats.expectedValueUSD)}`);
+  });
+  console.log('');
+  
   // Show biggest wins and losses
   if (stats.biggestWinUSD > 0 || stats.biggestLossUSD < 0) {
     console.log(`${colorText('🎯 BEST & WORST TRADES:', COLORS.BOLD + COLORS.WHITE)}`);
@@ -774,12 +1445,15 @@ async function showSummary(positions: Record<string, Position>): Promise<void> {
     return;
   }
 
-  // Get SOL price once for all calculations
+  // Get SOL price once for all calculations (only used for events without a recorded rate)
   const solPrice = await getSOLPriceUSD();
   
   console.log(`\n${colorText('━'.repeat(60), COLORS.CYAN)}`);
   console.log(`${colorText('                    📊 TRADING SUMMARY 📊', COLORS.BOLD + COLORS.WHITE)}`);
   console.log(`${colorText('━'.repeat(60), COLORS.CYAN)}`);
+  if (closedPositions.some(hasMissingSolPrice)) {
+    await warnIfPriceUnreliable();
+  }
   console.log('');
   
   // Show daily summaries for last 7 days
@@ -809,9 +1483,8 @@ async function showSummary(positions: Record<string, Position>): Promise<void> {
     const dateStr = dayStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
     
     if (dayPositions.length > 0) {
-      const stats = calculateSummaryStats(dayPositions);
-      const totalInvestedSOL = solPrice > 0 ? stats.totalInvestedUSD / solPrice : 0;
-      const totalPnlSOL = solPrice > 0 ? stats.totalPnlUSD / solPrice : 0;
+      const stats = calculateSummaryStats(dayPositions, solPrice);
+      const totalInvestedSOL = stats.totalInvestedSOL;
       
       console.log(`${colorText(`${dayName} (${dateStr})`, COLORS.BRIGHT_CYAN, true)}`);
       console.log(`  ${colorText('Positions:', COLORS.WHITE)} ${colorText(dayPositions.length.toString(), COLORS.BRIGHT_YELLOW, true)} | ${colorText('Win Rate:', COLORS.WHITE)} ${colorText(`${stats.winRate.toFixed(1)}%`, stats.winRate >= 50 ? COLORS.BRIGHT_GREEN : COLORS.BRIGHT_RED, true)} | ${colorText('PNL:', COLORS.WHITE)} ${formatUSDValue(stats.totalPnlUSD)} ${formatBigPercentage(stats.overallPnlPercentage)}`);
@@ -833,336 +1506,2903 @@ async function showSummary(positions: Record<string, Position>): Promise<void> {
   console.log(`${colorText('━'.repeat(60), COLORS.CYAN)}`);
 }
 
-async function main(): Promise<void> {
-  const args = process.argv.slice(2);
-  
-  if (args.length < 1) {
-    console.log('Usage:');
-    console.log('  ./damm-pnl <token_name> <current_position_value_usd> [fees_claimed_usd]');
-    console.log('  ./damm-pnl claim-fee <token_name> <fees_claimed_usd>');
-    console.log('  ./damm-pnl add-capital <token_name> <additional_capital_usd>');
-    console.log('  ./damm-pnl withdraw <token_name> <amount_usd>');
-    console.log('  ./damm-pnl close <token_name> <exit_value_usd> [final_fees_usd]');
-    console.log('  ./damm-pnl remove <token_name>');
-    console.log('  ./damm-pnl reset <token_name> <new_initial_value_usd>');
-    console.log('  ./damm-pnl clean');
-    console.log('  ./damm-pnl list');
-    console.log('  ./damm-pnl closed');
-    console.log('  ./damm-pnl summary');
-    console.log('');
-    console.log('Examples:');
-    console.log('  ./damm-pnl aixbt 249.07    # Position value in USD');
-    console.log('  ./damm-pnl aixbt 275.50 12.30    # With fees claimed in USD');
-    console.log('  ./damm-pnl claim-fee aixbt 12.30    # Only claim fees (no position update)');
-    console.log('  ./damm-pnl add-capital aixbt 360.00    # Add $360 more capital');
-    console.log('  ./damm-pnl withdraw aixbt 100.00    # Withdraw $100 from position');
-    console.log('  ./damm-pnl close bb 730.00 5.00    # Close position at $730 with $5 final fees');
-    console.log('  ./damm-pnl remove aixbt');
-    console.log('  ./damm-pnl reset aixbt 200.00    # Reset to $200 USD');
-    console.log('  ./damm-pnl clean  # Remove positions with incorrect data');
-    console.log('  ./damm-pnl list    # Show active positions');
-    console.log('  ./damm-pnl closed  # Show closed positions');
-    console.log('  ./damm-pnl summary  # Show trading performance summary (last 7 days + all time)');
-    process.exit(1);
-  }
-
-  const command = args[0].toLowerCase();
-  const positions = loadPositions();
+// One line of stats for a period or leaderboard row
+function formatSummaryLine(positions: number, stats: SummaryStats): string {
+  return `${colorText('Positions:', COLORS.WHITE)} ${colorText(positions.toString(), COLORS.BRIGHT_YELLOW, true)} | ${colorText('Win Rate:', COLORS.WHITE)} ${colorText(`${stats.winRate.toFixed(1)}%`, stats.winRate >= 50 ? COLORS.BRIGHT_GREEN : COLORS.BRIGHT_RED, true)} | ${colorText('PNL:', COLORS.WHITE)} ${formatUSDValue(stats.totalPnlUSD)} ${formatBigPercentage(stats.overallPnlPercentage)}`;
+}
 
-  if (command === 'list') {
-    listAllPositions(positions);
-    return;
+// Summary with --period, --from/--to, --token, --tag or --by token|tag
+async function showFilteredSummary(positions: Record<string, Position>, options: SummaryOptions): Promise<void> {
+  const closedPositions = filterClosedPositions(Object.values(positions), options);
+  const groupName = (row: SummaryPeriod) => options.groupBy === 'tag' ? (row.tag ? `#${row.tag}` : '(untagged)') : row.token!.toUpperCase();
+  
+  const filters: string[] = [];
+  if (options.from) filters.push(`from ${localDateString(options.from)}`);
+  if (options.to) filters.push(`to ${localDateString(options.to)}`);
+  if (options.tokens) filters.push(`tokens ${options.tokens.map(token => token.toUpperCase()).join(', ')}`);
+  if (options.tags) filters.push(`tags ${options.tags.map(tag => `#${tag}`).join(', ')}`);
+  
+  console.log(`\n${colorText('━'.repeat(60), COLORS.CYAN)}`);
+  console.log(`${colorText('                    📊 TRADING SUMMARY 📊', COLORS.BOLD + COLORS.WHITE)}`);
+  console.log(`${colorText('━'.repeat(60), COLORS.CYAN)}`);
+  if (filters.length > 0) {
+    console.log(colorText(`Filters: ${filters.join(', ')}`, COLORS.GRAY));
   }
-
-  if (command === 'closed') {
-    await listClosedPositions(positions);
+  
+  if (closedPositions.length === 0) {
+    console.log(colorText('No closed positions match these filters.', COLORS.GRAY));
     return;
   }
-
-  if (command === 'summary') {
-    await showSummary(positions);
-    return;
+  
+  // Get SOL price once for all calculations (only used for events without a recorded rate)
+  const solPrice = await getSOLPriceUSD();
+  if (closedPositions.some(hasMissingSolPrice)) {
+    await warnIfPriceUnreliable();
   }
-
-  if (command === 'clean') {
-    // Clean up positions with unrealistic values (likely stored incorrectly)
-    const cleanedPositions: Record<string, Position> = {};
-    let cleanedCount = 0;
+  console.log('');
+  
+  const periods = buildGroupedSummary(closedPositions, options, solPrice);
+  
+  if (options.period) {
+    const title = `📅 ${options.period.toUpperCase()} BY ${options.period.toUpperCase()}`;
+    console.log(`${colorText(title, COLORS.BOLD + COLORS.WHITE)}`);
+    console.log(colorText('='.repeat(title.length), COLORS.CYAN));
+    console.log('');
     
-    for (const [key, position] of Object.entries(positions)) {
-      // Skip positions with unrealistic initial values 
-      const initialValue = position.initial_value_usd || (position as any).initial_value || 0;
-      if (initialValue > 10000) { // More than $10,000 is likely incorrect data
-        console.log(colorText(`🗑️  Removed ${key.toUpperCase()} with unrealistic value: $${initialValue.toFixed(2)}`, COLORS.YELLOW));
-        cleanedCount++;
+    let previousPnl: number | null = null;
+    for (const key of [...new Set(periods.map(period => period.period))]) {
+      const rows = periods.filter(period => period.period === key);
+      const bucketPositions = rows.reduce((sum, row) => sum + row.positions, 0);
+      const bucketPnl = rows.reduce((sum, row) => sum + row.stats.totalPnlUSD, 0);
+      
+      // Change in PNL against the previous period with closures
+      const change = previousPnl !== null
+        ? ` ${colorText('vs previous:', COLORS.GRAY)} ${formatUSDValue(bucketPnl - previousPnl)}`
+        : '';
+      previousPnl = bucketPnl;
+      
+      if (options.groupBy) {
+        console.log(`${colorText(key, COLORS.BRIGHT_CYAN, true)} ${colorText(`(${bucketPositions} positions)`, COLORS.GRAY)} ${colorText('PNL:', COLORS.WHITE)} ${formatUSDValue(bucketPnl)}${change}`);
+        rows.forEach((row, index) => {
+          console.log(`  ${String(index + 1).padStart(2)}. ${colorText(groupName(row).padEnd(10), COLORS.BRIGHT_CYAN, true)} ${formatSummaryLine(row.positions, row.stats)}`);
+        });
       } else {
-        cleanedPositions[key] = position;
+        console.log(`${colorText(key, COLORS.BRIGHT_CYAN, true)}${change}`);
+        console.log(`  ${formatSummaryLine(rows[0].positions, rows[0].stats)}`);
       }
+      console.log('');
     }
     
-    savePositions(cleanedPositions);
-    console.log(colorText(`✅ Cleaned ${cleanedCount} positions with incorrect data`, COLORS.BRIGHT_GREEN));
-    
-    if (Object.keys(cleanedPositions).length > 0) {
-      console.log('\nRemaining positions:');
-      listAllPositions(cleanedPositions);
+    console.log(`${colorText('━'.repeat(40), COLORS.GRAY)}`);
+    console.log('');
+  } else if (options.groupBy) {
+    const title = `🏆 ${options.groupBy.toUpperCase()} LEADERBOARD`;
+    console.log(`${colorText(title, COLORS.BOLD + COLORS.WHITE)}`);
+    console.log(colorText('='.repeat(title.length), COLORS.CYAN));
+    periods.forEach((row, index) => {
+      console.log(`  ${String(index + 1).padStart(2)}. ${colorText(groupName(row).padEnd(10), COLORS.BRIGHT_CYAN, true)} ${formatSummaryLine(row.positions, row.stats)}`);
+    });
+    console.log('');
+  }
+  
+  await displaySummarySection(options.from || options.to || options.tokens || options.tags ? '📈 SELECTED' : '📈 ALL TIME', closedPositions, solPrice);
+  
+  console.log(`${colorText('━'.repeat(60), COLORS.CYAN)}`);
+}
+
+// ---------------------------------------------------------------------------
+// Fee report
+// ---------------------------------------------------------------------------
+
+function formatFeeStats(stats: FeeStats): string {
+  let text = `${colorText('fees', COLORS.GRAY)} ${formatUSDNeutral(stats.fees_claimed_usd)}`;
+  text += ` ${colorText('|', COLORS.GRAY)} ${stats.fees_per_day_usd === null ? colorText('n/a per day', COLORS.GRAY) : `${formatUSDNeutral(stats.fees_per_day_usd)}${colorText('/day', COLORS.GRAY)}`}`;
+  text += ` ${colorText('| APR', COLORS.GRAY)} ${stats.fee_apr_percentage === null ? colorText('n/a', COLORS.GRAY) : colorText(`${stats.fee_apr_percentage.toFixed(1)}%`, COLORS.BRIGHT_YELLOW, true)}`;
+  text += ` ${colorText(`on ${formatUSDNeutral(stats.average_deployed_usd)} avg deployed`, COLORS.GRAY)}`;
+  return text;
+}
+
+function formatFeeDrift(stats: FeeStats): string {
+  if (stats.value_drift_usd === null) {
+    return colorText('no valuation yet - drift unknown', COLORS.GRAY);
+  }
+  
+  let text = `${colorText('drift', COLORS.GRAY)} ${formatUSDValue(stats.value_drift_usd)} ${colorText('| total', COLORS.GRAY)} ${formatUSDValue(stats.total_pnl_usd!)}`;
+  if (stats.fee_share_percentage !== null) {
+    text += ` ${colorText(`| fees ${stats.fee_share_percentage.toFixed(0)}% of PNL`, COLORS.GRAY)}`;
+  }
+  if (stats.value_drift_usd < 0) {
+    const coverage = (stats.fees_claimed_usd / -stats.value_drift_usd) * 100;
+    const coverageColor = coverage >= 100 ? COLORS.BRIGHT_GREEN : COLORS.BRIGHT_RED;
+    text += ` ${colorText('| fees cover', COLORS.GRAY)} ${colorText(`${coverage.toFixed(0)}%`, coverageColor, true)} ${colorText('of value lost', COLORS.GRAY)}`;
+  }
+  return text;
+}
+
+function showFeeReport(positions: Position[]): void {
+  if (positions.length === 0) {
+    console.log(colorText('No positions found for fee report.', COLORS.GRAY));
+    return;
+  }
+  
+  console.log(`\n${colorText('━'.repeat(60), COLORS.CYAN)}`);
+  console.log(`${colorText('                    💰 FEE REPORT 💰', COLORS.BOLD + COLORS.WHITE)}`);
+  console.log(`${colorText('━'.repeat(60), COLORS.CYAN)}`);
+  console.log('');
+  
+  const byId = new Map(positions.map(pos => [pos.id, pos]));
+  let previous: FeeReportRow | null = null;
+  for (const row of buildFeeReport(positions)) {
+    if (row.scope === 'token') {
+      if (row.positions > 1) {
+        console.log(`  ${colorText('Total', COLORS.BOLD + COLORS.WHITE)} ${colorText(`(${row.positions} positions)`, COLORS.GRAY)} ${formatFeeStats(row)}`);
+        console.log(`        ${formatFeeDrift(row)}`);
+      }
+      console.log('');
+    } else {
+      if (!previous || previous.scope === 'token') {
+        console.log(`${colorText(row.token.toUpperCase(), COLORS.BRIGHT_CYAN, true)}:`);
+      }
+      const status = row.status === 'closed' ? colorText('closed', COLORS.GRAY) : colorText('active', COLORS.BRIGHT_GREEN);
+      const labelText = row.label ? ' ' + colorText(`[${row.label}]`, COLORS.BRIGHT_CYAN) : '';
+      console.log(`  ${colorText(`#${positionShortId(byId.get(row.id!)!)}`, COLORS.GRAY)}${labelText} ${status} ${colorText(`${row.days_deployed.toFixed(1)} days`, COLORS.GRAY)}`);
+      console.log(`        ${formatFeeStats(row)}`);
+      console.log(`        ${formatFeeDrift(row)}`);
     }
+    previous = row;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tax report (rows and cost basis are built in position-book.ts)
+// ---------------------------------------------------------------------------
+
+function showTaxReport(rows: TaxReportRow[], year: number, method: CostBasisMethod): void {
+  const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`.padStart(12);
+  const gains = rows.filter(row => row.category === 'capital_gain');
+  const fees = rows.filter(row => row.category === 'fee_income');
+  const total = (list: TaxReportRow[], field: 'proceeds_usd' | 'cost_basis_usd' | 'gain_usd') => list.reduce((sum, row) => sum + row[field], 0);
+  const name = (row: TaxReportRow) => (row.token.toUpperCase() + (row.label ? ` [${row.label}]` : '')).padEnd(20);
+  
+  console.log(`\n${colorText(`REALIZED GAINS REPORT ${year}`, COLORS.BOLD + COLORS.WHITE)} ${colorText(`(cost basis: ${method}, amounts in USD)`, COLORS.GRAY)}`);
+  console.log(colorText('='.repeat(96), COLORS.CYAN));
+  
+  console.log(colorText('CAPITAL GAINS', COLORS.BOLD + COLORS.WHITE));
+  console.log(colorText(`${'Date'.padEnd(11)}${'Position'.padEnd(21)}${'Event'.padEnd(10)}${'Acquired'.padEnd(11)}${'Days'.padStart(6)}${'Proceeds'.padStart(13)}${'Cost basis'.padStart(13)}${'Gain'.padStart(13)}`, COLORS.GRAY));
+  if (gains.length === 0) {
+    console.log(colorText('No withdrawals or closes in this year.', COLORS.GRAY));
+  }
+  gains.forEach(row => {
+    const gainColor = row.gain_usd > 0 ? COLORS.BRIGHT_GREEN : row.gain_usd < 0 ? COLORS.BRIGHT_RED : COLORS.GRAY;
+    console.log(`${row.date.substring(0, 10).padEnd(11)}${name(row)} ${row.event.padEnd(10)}${(row.acquired ? row.acquired.substring(0, 10) : '-').padEnd(11)}${String(row.holding_days ?? '-').padStart(6)} ${money(row.proceeds_usd)} ${money(row.cost_basis_usd)} ${colorText(money(row.gain_usd), gainColor)}`);
+  });
+  console.log(colorText('-'.repeat(96), COLORS.GRAY));
+  console.log(`${'Total capital gains'.padEnd(59)} ${money(total(gains, 'proceeds_usd'))} ${money(total(gains, 'cost_basis_usd'))} ${colorText(money(total(gains, 'gain_usd')), COLORS.BOLD + COLORS.WHITE)}`);
+  console.log('');
+  
+  console.log(colorText('FEE INCOME', COLORS.BOLD + COLORS.WHITE));
+  console.log(colorText(`${'Date'.padEnd(11)}${'Position'.padEnd(21)}${'Amount'.padStart(66)}`, COLORS.GRAY));
+  if (fees.length === 0) {
+    console.log(colorText('No fee claims in this year.', COLORS.GRAY));
+  }
+  fees.forEach(row => {
+    console.log(`${row.date.substring(0, 10).padEnd(11)}${name(row)} ${' '.repeat(54)}${money(row.proceeds_usd)}`);
+  });
+  console.log(colorText('-'.repeat(96), COLORS.GRAY));
+  console.log(`${'Total fee income'.padEnd(59)} ${' '.repeat(26)}${colorText(money(total(fees, 'proceeds_usd')), COLORS.BOLD + COLORS.WHITE)}`);
+  console.log('');
+}
+
+// ---------------------------------------------------------------------------
+// Portfolio dashboard
+// ---------------------------------------------------------------------------
+
+const DASHBOARD_WIDTH = 124;
+
+// Dashboard cells are padded before coloring so the columns line up
+function signedUSDText(value: number): string {
+  return `${value > 0 ? '+' : value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+}
+
+function pnlCell(text: string, value: number, width: number): string {
+  return colorText(text.padStart(width), value > 0 ? COLORS.BRIGHT_GREEN : value < 0 ? COLORS.BRIGHT_RED : COLORS.GRAY);
+}
+
+function suggestionActionColor(action: Suggestion['action']): string {
+  return action === 'TOP_UP' ? COLORS.BRIGHT_GREEN :
+    action === 'REDUCE' || action === 'STOP_LOSS' ? COLORS.BRIGHT_RED :
+    action === 'TAKE_PROFIT' ? COLORS.BRIGHT_YELLOW : COLORS.WHITE;
+}
+
+function formatDashboardHeader(): string {
+  return colorText(`${'Position'.padEnd(22)}${'Value'.padStart(14)}${'Unrealized'.padStart(14)}${'Realized'.padStart(14)}${'Total PNL'.padStart(14)}${'PNL %'.padStart(10)}${'Weight'.padStart(8)}${'Days'.padStart(6)}  ${'Updated'.padEnd(10)}Action`, COLORS.GRAY);
+}
+
+function formatDashboardRow(row: DashboardRow, position: Position): string {
+  const name = positionName(position);
+  const age = row.value_updated_at ? formatAge(row.value_updated_at) : 'never';
+  return [
+    colorText((name.length > 21 ? name.substring(0, 20) + '…' : name).padEnd(22), COLORS.BRIGHT_CYAN, true),
+    colorText(`$${row.value_usd.toFixed(2)}`.padStart(14), COLORS.BRIGHT_YELLOW, true),
+    pnlCell(signedUSDText(row.unrealized_pnl_usd), row.unrealized_pnl_usd, 14),
+    pnlCell(signedUSDText(row.realized_pnl_usd), row.realized_pnl_usd, 14),
+    pnlCell(signedUSDText(row.total_pnl_usd), row.total_pnl_usd, 14),
+    pnlCell(`${row.pnl_percentage > 0 ? '+' : ''}${row.pnl_percentage.toFixed(2)}%`, row.pnl_percentage, 10),
+    `${row.weight_percentage.toFixed(1)}%`.padStart(8),
+    String(row.days_open).padStart(6),
+    '  ' + (row.stale ? colorText(`${age} !`.padEnd(10), COLORS.BRIGHT_YELLOW, true) : colorText(age.padEnd(10), COLORS.GRAY)),
+    colorText(row.action!, suggestionActionColor(row.action!), true)
+  ].join('');
+}
+
+// Portfolio total in USD, then in SOL
+function formatDashboardTotals(total: DashboardRow): string[] {
+  const signedSOL = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(4)} SOL`;
+  return [
+    [
+      colorText('Total'.padEnd(22), COLORS.BOLD + COLORS.WHITE),
+      colorText(`$${total.value_usd.toFixed(2)}`.padStart(14), COLORS.BRIGHT_YELLOW, true),
+      pnlCell(signedUSDText(total.unrealized_pnl_usd), total.unrealized_pnl_usd, 14),
+      pnlCell(signedUSDText(total.realized_pnl_usd), total.realized_pnl_usd, 14),
+      pnlCell(signedUSDText(total.total_pnl_usd), total.total_pnl_usd, 14),
+      pnlCell(`${total.pnl_percentage > 0 ? '+' : ''}${total.pnl_percentage.toFixed(2)}%`, total.pnl_percentage, 10)
+    ].join(''),
+    [
+      colorText('  in SOL'.padEnd(22), COLORS.GRAY),
+      colorText(`${total.value_sol.toFixed(4)} SOL`.padStart(14), COLORS.GRAY),
+      pnlCell(signedSOL(total.unrealized_pnl_sol), total.unrealized_pnl_sol, 14),
+      pnlCell(signedSOL(total.realized_pnl_sol), total.realized_pnl_sol, 14),
+      pnlCell(signedSOL(total.total_pnl_sol), total.total_pnl_sol, 14)
+    ].join('')
+  ];
+}
+
+async function showDashboard(rows: DashboardRow[], positions: Record<string, Position>, sortKey: string, staleAfterHours: number): Promise<void> {
+  const positionRows = rows.filter(row => row.scope === 'position');
+  if (positionRows.length === 0) {
+    console.log(colorText('No active positions found.', COLORS.GRAY));
     return;
   }
+  
+  const quote = await getSOLPriceQuote();
+  console.log(`\n${colorText('📊 PORTFOLIO DASHBOARD', COLORS.BOLD + COLORS.WHITE)} ${colorText(`'${activePortfolio}', ${positionRows.length} active, sorted by ${sortKey}${quote ? `, SOL $${quote.price.toFixed(2)} (${quote.source})` : ''}`, COLORS.GRAY)}`);
+  await warnIfPriceUnreliable();
+  console.log(colorText('='.repeat(DASHBOARD_WIDTH), COLORS.CYAN));
+  console.log(formatDashboardHeader());
+  positionRows.forEach(row => console.log(formatDashboardRow(row, positions[row.id!])));
+  console.log(colorText('-'.repeat(DASHBOARD_WIDTH), COLORS.GRAY));
+  formatDashboardTotals(rows[rows.length - 1]).forEach(line => console.log(line));
+  
+  const stale = positionRows.filter(row => row.stale);
+  if (stale.length > 0) {
+    console.log('');
+    console.log(colorText(`! ${stale.length} position value${stale.length !== 1 ? 's are' : ' is'} older than ${staleAfterHours}h; PNL uses the last snapshot. Update with ./damm-pnl <position> <value_usd>`, COLORS.BRIGHT_YELLOW));
+  }
+  console.log('');
+}
 
+// ---------------------------------------------------------------------------
+// Interactive terminal UI
+//
+// `tui` shows the dashboard full-screen and refreshes it every
+// TUI_REFRESH_SECONDS with the book reloaded from disk and a fresh SOL quote,
+// so changes made from other terminals show up too. Forms record the same
+// events as the CLI commands. Each submit takes the portfolio lock, reloads
+// the book, saves it and is journaled, so `undo` reverts TUI changes as well.
+// ---------------------------------------------------------------------------
 
-  if (command === 'remove') {
-    if (args.length < 2) {
-      console.error('Usage: ./damm-pnl remove <token_name>');
-      process.exit(1);
-    }
-    
-    const token = args[1].toLowerCase();
-    const position = findActivePosition(positions, token);
-    
-    if (!position) {
-      console.error(`No active position for ${token.toUpperCase()} found.`);
-      process.exit(1);
+const TUI_REFRESH_SECONDS = 30;
+
+type TuiAction = 'value' | 'fee' | 'add' | 'withdraw' | 'close';
+
+interface TuiFormField {
+  label: string;
+  optional: boolean;                   // Blank means 0
+}
+
+// Form per action, with the CLI command it stands for (journal entries)
+const TUI_FORMS: Record<TuiAction, { title: string; command: string | null; fields: TuiFormField[] }> = {
+  value: { title: 'UPDATE VALUE', command: null, fields: [{ label: 'Current position value (USD)', optional: false }, { label: 'Fees claimed (USD, optional)', optional: true }] },
+  fee: { title: 'CLAIM FEES', command: 'claim-fee', fields: [{ label: 'Fees claimed (USD)', optional: false }] },
+  add: { title: 'ADD CAPITAL', command: 'add-capital', fields: [{ label: 'Additional capital (USD)', optional: false }] },
+  withdraw: { title: 'WITHDRAW', command: 'withdraw', fields: [{ label: 'Amount (USD)', optional: false }] },
+  close: { title: 'CLOSE POSITION', command: 'close', fields: [{ label: 'Exit value (USD)', optional: false }, { label: 'Final fees (USD, optional)', optional: true }] }
+};
+
+const TUI_ACTION_KEYS: Record<string, TuiAction> = { v: 'value', f: 'fee', a: 'add', w: 'withdraw', c: 'close' };
+
+interface TuiForm {
+  action: TuiAction;
+  positionId: string;
+  values: string[];
+  field: number;                       // Field being edited
+  confirming: boolean;                 // Close waits for y/n after the last field
+  error: string | null;
+}
+
+interface TuiState {
+  positions: Record<string, Position>;
+  rows: DashboardRow[];                // Position rows then the total, as built by buildDashboard
+  selected: number;
+  sortKey: string;
+  view: 'list' | 'detail';
+  form: TuiForm | null;
+  message: { text: string; color: string } | null;
+  refreshedAt: Date;
+}
+
+// Amount of one form field (0 for a blank optional field), or the reason it's invalid
+function parseTuiField(field: TuiFormField, raw: string): { amount: number; error: string | null } {
+  if (raw.trim() === '' && field.optional) {
+    return { amount: 0, error: null };
+  }
+  return parseAmount(raw.trim(), field.label.replace(/ \(.*\)$/, ''));
+}
+
+// Record a submitted form on a freshly loaded book and save it. Returns the
+// status message; throws when the position is no longer active.
+async function applyTuiForm(form: TuiForm, priceOverride?: number): Promise<string> {
+  const spec = TUI_FORMS[form.action];
+  const [amount, extra] = spec.fields.map((field, index) => parseTuiField(field, form.values[index]).amount);
+  const amounts = [amount, ...(extra > 0 ? [extra] : [])].map(value => value.toFixed(2)).join(' ');
+  let warning: string | null = null;
+  const book = new PositionBook({
+    portfolio: activePortfolio,
+    solPriceUSD: priceOverride,
+    commandLine: `./damm-pnl ${spec.command ? `${spec.command} ` : ''}${form.positionId} ${amounts} (tui)`,
+    onWarning: message => { warning = message; }
+  });
+  
+  let result: string;
+  switch (form.action) {
+    case 'value': {
+      const position = await book.update(form.positionId, amount, extra);
+      result = `Updated ${positionName(position)} to $${amount.toFixed(2)}${extra > 0 ? ` with $${extra.toFixed(2)} in fees` : ''}`;
+      break;
     }
-    
-    delete positions[position.id];
-    savePositions(positions);
-    console.log(colorText(`✅ Active position for ${token.toUpperCase()} has been removed.`, COLORS.BRIGHT_GREEN));
-    
-    const closedPositions = findClosedPositions(positions, token);
-    if (closedPositions.length > 0) {
-      console.log(colorText(`💡 Note: You still have ${closedPositions.length} closed position(s) for ${token.toUpperCase()}.`, COLORS.GRAY));
+    case 'fee':
+      result = `Claimed $${amount.toFixed(2)} in fees for ${positionName(await book.claimFee(form.positionId, amount))}`;
+      break;
+    case 'add':
+      result = `Added $${amount.toFixed(2)} capital to ${positionName(await book.addCapital(form.positionId, amount))}`;
+      break;
+    case 'withdraw':
+      result = `Withdrew $${amount.toFixed(2)} from ${positionName(await book.withdraw(form.positionId, amount))}`;
+      break;
+    case 'close': {
+      const position = await book.close(form.positionId, amount, extra);
+      result = `Closed ${positionName(position)}: final PNL ${signedUSDText(position.final_pnl_usd!)} (${position.final_pnl_percentage!.toFixed(2)}%)`;
+      break;
     }
-    return;
   }
+  
+  return warning === null ? result : `${result} - no fresh SOL price, recorded without a SOL rate`;
+}
 
-  if (command === 'reset') {
-    if (args.length < 3) {
-      console.error('Usage: ./damm-pnl reset <token_name> <new_initial_value_usd>');
-      process.exit(1);
+async function refreshTui(state: TuiState, staleAfterHours: number): Promise<void> {
+  const selectedId = state.rows[state.selected]?.id;
+  refreshSOLPriceQuote();
+  state.positions = loadPositions(portfolioFile(activePortfolio));
+  state.rows = await buildDashboard(Object.values(state.positions), state.positions, state.sortKey, false, staleAfterHours, activePortfolio);
+  
+  // Keep the same position selected when it is still listed
+  const positionCount = state.rows.length - 1;
+  const index = state.rows.findIndex(row => row.id === selectedId);
+  state.selected = index >= 0 ? index : Math.max(0, Math.min(state.selected, positionCount - 1));
+  state.refreshedAt = new Date();
+}
+
+// Form, status message and key help shown under both views
+function tuiFooterLines(state: TuiState): string[] {
+  const lines: string[] = [''];
+  const form = state.form;
+  if (form) {
+    const spec = TUI_FORMS[form.action];
+    lines.push(`${colorText(spec.title, COLORS.BOLD + COLORS.WHITE)} ${colorText(positionName(state.positions[form.positionId]), COLORS.BRIGHT_CYAN, true)}`);
+    spec.fields.forEach((field, index) => {
+      const editing = index === form.field && !form.confirming;
+      const value = form.values[index] + (editing ? '█' : '');
+      lines.push(`  ${colorText(field.label.padEnd(30), editing ? COLORS.WHITE : COLORS.GRAY)} ${colorText(value, COLORS.BRIGHT_YELLOW, true)}`);
+    });
+    if (form.confirming) {
+      lines.push(colorText('  Close this position? (y/n)', COLORS.BRIGHT_MAGENTA, true));
     }
-    
-    const token = args[1].toLowerCase();
-    const newInitialValue = parseFloat(args[2]);
-    
-    if (isNaN(newInitialValue)) {
-      console.error(`Error: New initial value must be a number, got '${args[2]}'`);
-      process.exit(1);
+    if (form.error) {
+      lines.push(colorText(`  ${form.error}`, COLORS.BRIGHT_RED));
     }
+    lines.push(colorText('  Enter: next / save   Esc: cancel', COLORS.GRAY));
+    return lines;
+  }
+  
+  if (state.message) {
+    lines.push(colorText(state.message.text, state.message.color));
+  }
+  const keys = state.view === 'detail'
+    ? 'Esc back  ↑↓ previous/next  v value  f fee  a add capital  w withdraw  c close  q back'
+    : '↑↓ select  Enter details  v value  f fee  a add capital  w withdraw  c close  s sort  r refresh  q quit';
+  lines.push(colorText(keys, COLORS.GRAY));
+  return lines;
+}
+
+async function drawTui(state: TuiState): Promise<void> {
+  process.stdout.write('\x1b[H\x1b[2J');
+  const positionRows = state.rows.slice(0, -1);
+  
+  if (state.view === 'detail' && positionRows[state.selected]) {
+    const position = state.positions[positionRows[state.selected].id!];
+    await displayPositionInfo(positionName(position), position, position.current_value_usd ?? position.initial_value_usd, state.positions);
+    process.stdout.write(tuiFooterLines(state).join('\n'));
+    return;
+  }
+  
+  const quote = await getSOLPriceQuote();
+  const lines: string[] = [];
+  lines.push(`${colorText('📊 DAMM PNL', COLORS.BOLD + COLORS.WHITE)} ${colorText(`'${activePortfolio}' | ${quote ? `SOL $${quote.price.toFixed(2)} (${quote.source}${quote.stale ? ', stale' : ''})` : 'no SOL price'} | sorted by ${state.sortKey} | refreshed ${state.refreshedAt.toLocaleTimeString()}`, COLORS.GRAY)}`);
+  lines.push(colorText('='.repeat(DASHBOARD_WIDTH + 2), COLORS.CYAN));
+  
+  if (positionRows.length === 0) {
+    lines.push(colorText('No active positions. Open one with ./damm-pnl open <token> <value_usd>.', COLORS.GRAY));
+  } else {
+    lines.push(`  ${formatDashboardHeader()}`);
     
-    const oldPosition = findActivePosition(positions, token);
-    if (!oldPosition) {
-      console.error(`No active position for ${token.toUpperCase()} found.`);
-      process.exit(1);
+    // Scroll the rows so the selection stays on screen
+    const footer = tuiFooterLines(state);
+    const visible = Math.max(3, (process.stdout.rows || 30) - footer.length - 7);
+    const first = Math.min(Math.max(0, state.selected - visible + 1), Math.max(0, positionRows.length - visible));
+    positionRows.slice(first, first + visible).forEach((row, offset) => {
+      const marker = first + offset === state.selected ? colorText('▶ ', COLORS.BRIGHT_CYAN, true) : '  ';
+      lines.push(marker + formatDashboardRow(row, state.positions[row.id!]));
+    });
+    if (positionRows.length > visible) {
+      lines.push(colorText(`  ${first + 1}-${Math.min(first + visible, positionRows.length)} of ${positionRows.length}`, COLORS.GRAY));
     }
-    
-    // Remove old position and create new one
-    delete positions[oldPosition.id];
-    const newPosition = await initializePosition(token, newInitialValue);
-    positions[newPosition.id] = newPosition;
-    
-    savePositions(positions);
-    console.log(colorText(`✅ Active position for ${token.toUpperCase()} has been reset.`, COLORS.BRIGHT_GREEN));
-    const oldValue = oldPosition.initial_value_usd || 0;
-    console.log(`${colorText('Old initial value:', COLORS.GRAY)} ${formatUSDNeutral(oldValue)} ${colorText('->', COLORS.GRAY)} ${formatUSDNeutral(newInitialValue)}`);
-    return;
+    lines.push(colorText('-'.repeat(DASHBOARD_WIDTH + 2), COLORS.GRAY));
+    formatDashboardTotals(state.rows[state.rows.length - 1]).forEach(line => lines.push(`  ${line}`));
   }
+  
+  lines.push(...tuiFooterLines(state));
+  process.stdout.write(lines.join('\n'));
+}
 
-  if (command === 'claim-fee') {
-    if (args.length < 3) {
-      console.error('Usage: ./damm-pnl claim-fee <token_name> <fees_claimed_usd>');
+async function runTui(sortKey: string, staleAfterHours: number, priceOverride?: number): Promise<void> {
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    console.error('Error: tui needs an interactive terminal');
+    process.exit(1);
+  }
+  
+  const state: TuiState = {
+    positions: {},
+    rows: [],
+    selected: 0,
+    sortKey,
+    view: 'list',
+    form: null,
+    message: null,
+    refreshedAt: new Date()
+  };
+  await refreshTui(state, staleAfterHours);
+  
+  // Alternate screen without cursor; restored on quit and on any exit
+  const restoreTerminal = () => {
+    process.stdout.write('\x1b[?25h\x1b[?1049l');
+    if (process.stdin.isTTY) process.stdin.setRawMode(false);
+  };
+  readline.emitKeypressEvents(process.stdin);
+  process.stdin.setRawMode(true);
+  process.stdout.write('\x1b[?1049h\x1b[?25l');
+  process.on('exit', restoreTerminal);
+  
+  // Draws run one at a time, in order
+  let drawing = Promise.resolve();
+  const draw = () => {
+    drawing = drawing.then(() => drawTui(state)).catch(error => {
+      state.message = { text: `Error: ${error instanceof Error ? error.message : error}`, color: COLORS.BRIGHT_RED };
+    });
+  };
+  const refresh = () => {
+    drawing = drawing.then(() => refreshTui(state, staleAfterHours)).catch(error => {
+      state.message = { text: `Refresh failed: ${error instanceof Error ? error.message : error}`, color: COLORS.BRIGHT_RED };
+    });
+    draw();
+  };
+  
+  const timer = setInterval(refresh, TUI_REFRESH_SECONDS * 1000);
+  process.stdout.on('resize', draw);
+  draw();
+  
+  return new Promise<void>(resolve => {
+    const quit = () => {
+      clearInterval(timer);
+      process.stdout.removeListener('resize', draw);
+      process.stdin.removeListener('keypress', onKey);
+      process.stdin.pause();
+      restoreTerminal();
+      process.removeListener('exit', restoreTerminal);
+      resolve();
+    };
+    
+    const submit = (form: TuiForm) => {
+      drawing = drawing
+        .then(async () => {
+          const text = await applyTuiForm(form, priceOverride);
+          state.message = { text: `✅ ${text}`, color: COLORS.BRIGHT_GREEN };
+          if (form.action === 'close') state.view = 'list';
+          await refreshTui(state, staleAfterHours);
+        })
+        .catch(error => {
+          state.message = { text: `Error: ${error instanceof Error ? error.message : error}`, color: COLORS.BRIGHT_RED };
+        });
+      state.form = null;
+      draw();
+    };
+    
+    const onKey = (text: string | undefined, key: readline.Key) => {
+      if (key && key.ctrl && key.name === 'c') {
+        quit();
+        return;
+      }
+      
+      const form = state.form;
+      if (form) {
+        const field = TUI_FORMS[form.action].fields[form.field];
+        if (key && key.name === 'escape') {
+          state.form = null;
+        } else if (form.confirming) {
+          if (text === 'y') submit(form);
+          if (text === 'n') state.form = null;
+        } else if (key && key.name === 'return') {
+          const { error } = parseTuiField(field, form.values[form.field]);
+          form.error = error;
+          if (!error && form.field < form.values.length - 1) {
+            form.field++;
+          } else if (!error && form.action === 'close') {
+            form.confirming = true;
+          } else if (!error) {
+            submit(form);
+          }
+        } else if (key && key.name === 'backspace') {
+          form.values[form.field] = form.values[form.field].slice(0, -1);
+        } else if (text && /^[0-9.]+$/.test(text)) {
+          form.values[form.field] += text;
+        }
+        draw();
+        return;
+      }
+      
+      const positionCount = state.rows.length - 1;
+      const name = key ? key.name : text;
+      if (name === 'up' || name === 'k') {
+        state.selected = Math.max(0, state.selected - 1);
+      } else if (name === 'down' || name === 'j') {
+        state.selected = Math.min(Math.max(0, positionCount - 1), state.selected + 1);
+      } else if (name === 'return' && positionCount > 0) {
+        state.view = 'detail';
+      } else if (name === 'escape' || (name === 'backspace' && state.view === 'detail')) {
+        state.view = 'list';
+      } else if (name === 'q') {
+        if (state.view === 'detail') {
+          state.view = 'list';
+        } else {
+          quit();
+          return;
+        }
+      } else if (name === 's' && state.view === 'list') {
+        const keys = Object.keys(DASHBOARD_SORT_KEYS);
+        state.sortKey = keys[(keys.indexOf(state.sortKey) + 1) % keys.length];
+        refresh();
+        return;
+      } else if (name === 'r') {
+        state.message = null;
+        refresh();
+        return;
+      } else if (name && TUI_ACTION_KEYS[name] && positionCount > 0) {
+        const action = TUI_ACTION_KEYS[name];
+        state.form = {
+          action,
+          positionId: state.rows[state.selected].id!,
+          values: TUI_FORMS[action].fields.map(() => ''),
+          field: 0,
+          confirming: false,
+          error: null
+        };
+      } else {
+        return;
+      }
+      state.message = state.form ? null : state.message;
+      draw();
+    };
+    
+    process.stdin.on('keypress', onKey);
+    process.stdin.resume();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Local HTTP API and web dashboard
+//
+// `serve` listens on 127.0.0.1 unless --host says otherwise. GET endpoints
+// return the same envelopes as --format json; POST endpoints make the same
+// changes as the CLI commands through PositionBook, so they are locked,
+// journaled and undoable. With an API token (DAMM_PNL_API_TOKEN or api_token
+// in config.json) every /api request needs "Authorization: Bearer <token>".
+// Without one, the Host, Origin and Content-Type checks keep other web pages
+// the user visits from reading or changing the book through the browser.
+// ---------------------------------------------------------------------------
+
+const DEFAULT_SERVE_PORT = 8787;
+const MAX_REQUEST_BODY = 1024 * 1024;
+
+interface HttpError extends Error {
+  status: number;
+}
+
+function httpError(status: number, message: string): HttpError {
+  return Object.assign(new Error(message), { status });
+}
+
+const BOOK_ERROR_STATUS: Record<PositionBookErrorCode, number> = {
+  invalid_input: 400,
+  not_found: 404,
+  ambiguous: 409,
+  locked: 503,
+  storage: 500,
+  config: 500
+};
+
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+// Whether a Host header names the address the server is bound to. A page on
+// another site that rebinds its own DNS name to this address sends that name,
+// so only the bound address, loopback names for a loopback bind, and IP
+// literals or this machine's name for a wildcard bind are accepted.
+function isServedHost(hostHeader: string | undefined, bindHost: string, port: number): boolean {
+  if (!hostHeader) return false;
+  let url: URL;
+  try {
+    url = new URL(`http://${hostHeader}`);
+  } catch {
+    return false;
+  }
+  const name = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if ((url.port || '80') !== String(port)) return false;
+  if (name === bindHost.toLowerCase()) return true;
+  if (isLoopbackHost(bindHost)) return isLoopbackHost(name);
+  if (bindHost === '0.0.0.0' || bindHost === '::') {
+    return net.isIP(name) !== 0 || name === 'localhost' || name === os.hostname().toLowerCase();
+  }
+  return false;
+}
+
+// Refuse requests a browser could send on behalf of another site: an unknown
+// Host (DNS rebinding), an Origin other than the server's own, and POST bodies
+// not declared as JSON (those need a CORS preflight, which is never granted)
+function checkRequestSource(req: http.IncomingMessage, bindHost: string, port: number): HttpError | null {
+  if (!isServedHost(req.headers.host, bindHost, port)) {
+    return httpError(403, `Host '${req.headers.host || ''}' is not served here`);
+  }
+  const origin = req.headers.origin;
+  if (origin !== undefined && origin !== `http://${req.headers.host}`) {
+    return httpError(403, `Cross-origin requests are not allowed (Origin: ${origin})`);
+  }
+  const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  if (req.method === 'POST' && contentType !== 'application/json') {
+    return httpError(415, 'POST bodies must be sent as Content-Type: application/json');
+  }
+  return null;
+}
+
+// Resolve a selector like the CLI does: one active position, or (for
+// read-only endpoints) the most recently closed match
+function apiPosition(positions: Record<string, Position>, selector: string, includeClosed: boolean): Position {
+  const position = includeClosed ? selectAnyPosition(positions, selector) : selectActivePosition(positions, selector);
+  if (!position) {
+    throw httpError(404, `No ${includeClosed ? '' : 'active '}position for ${selector.toUpperCase()} found`);
+  }
+  return position;
+}
+
+// Positive USD amount from a request body field (0 when optional and absent)
+function bodyAmount(body: Record<string, unknown>, field: string, optional: boolean = false): number {
+  const value = body[field];
+  if (value === undefined || value === null || value === '') {
+    if (optional) return 0;
+    throw httpError(400, `${field} is required`);
+  }
+  const { amount, error } = parseAmount(String(value), field);
+  if (error) throw httpError(400, error);
+  return amount;
+}
+
+function summaryOptionsFromQuery(query: URLSearchParams): SummaryOptions {
+  const period = query.get('period');
+  if (period && !['day', 'week', 'month', 'year'].includes(period)) {
+    throw httpError(400, `period must be one of day, week, month, year, got '${period}'`);
+  }
+  const by = query.get('by');
+  if (by && by !== 'token' && by !== 'tag') {
+    throw httpError(400, `by must be token or tag, got '${by}'`);
+  }
+  const date = (name: string) => {
+    const value = query.get(name);
+    if (!value) return undefined;
+    const parsed = localDateFromString(value);
+    if (!parsed) throw httpError(400, `${name} must be a date like 2026-10-01, got '${value}'`);
+    return parsed;
+  };
+  const list = (name: string) => query.get(name) ? query.get(name)!.toLowerCase().split(',').map(item => item.trim().replace(/^#/, '')).filter(Boolean) : undefined;
+  
+  const to = date('to');
+  return {
+    period: period ? period as SummaryPeriodSize : undefined,
+    from: date('from'),
+    to: to ? new Date(to.getTime() + DAY_MS - 1) : undefined,
+    tokens: list('token'),
+    tags: list('tag'),
+    groupBy: by ? by as 'token' | 'tag' : undefined
+  };
+}
+
+async function handleApiGet(resource: string | undefined, selector: string | undefined, view: string | undefined, query: URLSearchParams): Promise<object> {
+  const positions = loadPositions(portfolioFile(activePortfolio));
+  const tags = query.get('tag') ? query.get('tag')!.toLowerCase().split(',').map(tag => tag.trim().replace(/^#/, '')).filter(Boolean) : undefined;
+  const book = Object.values(positions).filter(pos => hasAnyTag(pos, tags));
+  
+  if (resource === 'status') {
+    const quote = await getSOLPriceQuote();
+    return reportEnvelope('status', {
+      portfolio: activePortfolio,
+      active_positions: Object.values(positions).filter(pos => !pos.is_closed).length,
+      closed_positions: Object.values(positions).filter(pos => pos.is_closed).length,
+      sol_price_usd: quote ? quote.price : null,
+      sol_price_source: quote ? quote.source : null,
+      sol_price_stale: quote ? quote.stale : null
+    });
+  }
+  
+  if (resource === 'positions' && !selector) {
+    if (query.get('status') === 'closed') {
+      const solPrice = await getSOLPriceUSD();
+      const closed = book.filter(pos => pos.is_closed).sort((a, b) => new Date(b.closed_at!).getTime() - new Date(a.closed_at!).getTime());
+      return reportEnvelope('closed_positions', closed.map(pos => toClosedPositionRow(pos, solPrice)));
+    }
+    return reportEnvelope('positions', book.filter(pos => !pos.is_closed).map(toActivePositionRow));
+  }
+  
+  if (resource === 'positions' && selector) {
+    const position = apiPosition(positions, selector, view === 'events' || view === 'history');
+    const currentValueUSD = position.current_value_usd ?? position.initial_value_usd;
+    switch (view) {
+      case undefined:
+        return reportEnvelope('position', await buildPositionReport(position, currentValueUSD, positions, activePortfolio));
+      case 'pnl':
+        return reportEnvelope('pnl', await calculatePnl(position, currentValueUSD));
+      case 'events':
+        return reportEnvelope('events', sortedEvents(position));
+      case 'history':
+        return reportEnvelope('history', buildValueHistory(position));
+    }
+  }
+  
+  if (resource === 'dashboard') {
+    const sort = query.get('sort') || 'weight';
+    if (!(sort in DASHBOARD_SORT_KEYS)) {
+      throw httpError(400, `sort must be one of ${Object.keys(DASHBOARD_SORT_KEYS).join(', ')}, got '${sort}'`);
+    }
+    const staleAfter = query.get('stale_after') ? parseFloat(query.get('stale_after')!) : DEFAULT_STALE_AFTER_HOURS;
+    if (isNaN(staleAfter) || staleAfter <= 0) {
+      throw httpError(400, 'stale_after must be a positive number of hours');
+    }
+    return reportEnvelope('dashboard', await buildDashboard(book, positions, sort, query.get('reverse') === '1', staleAfter, activePortfolio));
+  }
+  
+  if (resource === 'suggestions') {
+    return reportEnvelope('suggestions', await buildSuggestionReport(book.filter(pos => !pos.is_closed), positions, query.get('explain') === '1', activePortfolio));
+  }
+  
+  if (resource === 'summary') {
+    const options = summaryOptionsFromQuery(query);
+    const solPrice = await getSOLPriceUSD();
+    if (hasSummaryOptions(options)) {
+      return reportEnvelope('summary', buildGroupedSummary(filterClosedPositions(Object.values(positions), options), options, solPrice));
+    }
+    return reportEnvelope('summary', buildSummaryPeriods(Object.values(positions).filter(pos => pos.is_closed), solPrice));
+  }
+  
+  if (resource === 'fees') {
+    return reportEnvelope('fees', buildFeeReport(book));
+  }
+  
+  throw httpError(404, 'No such endpoint');
+}
+
+// The position after a change, as its list or closed row
+async function changedPositionRow(position: Position): Promise<ActivePositionRow | ClosedPositionRow> {
+  return position.is_closed ? toClosedPositionRow(position, await getSOLPriceUSD()) : toActivePositionRow(position);
+}
+
+// POST /api/positions (value update, or open with `new`) and /api/positions/<selector>/<action>
+async function handleApiChange(selector: string | undefined, action: string | undefined, body: Record<string, unknown>): Promise<object> {
+  const book = new PositionBook({
+    portfolio: activePortfolio,
+    solPriceUSD: body.sol_price_usd !== undefined ? bodyAmount(body, 'sol_price_usd') : undefined,
+    source: 'api'
+  });
+  const changed = async (message: string, position: Position) =>
+    reportEnvelope('change', { message, position: await changedPositionRow(position) });
+  
+  if (!selector) {
+    // Same as `./damm-pnl update`, or `open` when `new` is set. A typo in the
+    // position must not open a new one, so nothing matching is a 404.
+    const target = String(body.position ?? body.token ?? '').trim();
+    if (!target) throw httpError(400, 'position (or token) is required');
+    const valueUSD = bodyAmount(body, 'value_usd');
+    const feesUSD = bodyAmount(body, 'fees_usd', true);
+    const label = body.label !== undefined && body.label !== null ? String(body.label) : undefined;
+    
+    if (body.new === true) {
+      const position = await book.open(target, valueUSD, label);
+      return changed(`New position created for ${positionName(position)}`, position);
+    }
+    if (!book.find(target)) {
+      throw httpError(404, `No active position for ${target.toUpperCase()} found; send "new": true to open one`);
+    }
+    const position = await book.update(target, valueUSD, feesUSD, label);
+    return changed(`Updated ${positionName(position)} to $${valueUSD.toFixed(2)}`, position);
+  }
+  
+  switch (action) {
+    case 'claim-fee':
+    case 'add-capital':
+    case 'withdraw': {
+      const amount = bodyAmount(body, 'amount_usd');
+      const type: PositionEventType = action === 'claim-fee' ? 'fee_claim' : action === 'add-capital' ? 'add_capital' : 'withdraw';
+      const position = await (type === 'fee_claim' ? book.claimFee(selector, amount) : type === 'add_capital' ? book.addCapital(selector, amount) : book.withdraw(selector, amount));
+      return changed(`${EVENT_LABELS[type]} $${amount.toFixed(2)} on ${positionName(position)}`, position);
+    }
+    
+    case 'close': {
+      const position = await book.close(selector, bodyAmount(body, 'exit_value_usd'), bodyAmount(body, 'final_fees_usd', true));
+      return changed(`Closed ${positionName(position)} with final PNL ${signedUSDText(position.final_pnl_usd!)}`, position);
+    }
+    
+    case 'reset': {
+      const initialValueUSD = bodyAmount(body, 'initial_value_usd');
+      const position = await book.reset(selector, initialValueUSD);
+      return changed(`Reset ${positionName(position)} to $${initialValueUSD.toFixed(2)}`, position);
+    }
+    
+    case 'remove': {
+      const position = await book.remove(selector);
+      return changed(`Removed ${positionName(position)}`, position);
+    }
+    
+    case 'meta': {
+      // null removes a field; tags replace the current list
+      const text = (field: string) => body[field] === null ? null : body[field] !== undefined ? String(body[field]) : undefined;
+      if (body.tags !== undefined && body.tags !== null && !Array.isArray(body.tags)) {
+        throw httpError(400, 'tags must be an array of strings');
+      }
+      const position = await book.setMeta(selector, {
+        pool_address: text('pool_address'),
+        pair: text('pair'),
+        fee_tier_percentage: body.fee_tier_percentage === null ? null : body.fee_tier_percentage !== undefined ? Number(body.fee_tier_percentage) : undefined,
+        tags: Array.isArray(body.tags) ? body.tags.map(String) : body.tags === null ? null : undefined,
+        notes: text('notes')
+      });
+      return changed(`Updated ${positionName(position)}`, position);
+    }
+  }
+  
+  throw httpError(404, 'No such endpoint');
+}
+
+function readRequestBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_REQUEST_BODY) {
+        reject(httpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text.trim()) {
+        resolve({});
+        return;
+      }
+      try {
+        const body = JSON.parse(text);
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          reject(httpError(400, 'Request body must be a JSON object'));
+          return;
+        }
+        resolve(body);
+      } catch {
+        reject(httpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function hasValidApiToken(req: http.IncomingMessage, apiToken: string): boolean {
+  const header = req.headers.authorization || '';
+  const given = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+  const expected = Buffer.from(apiToken);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+async function handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse, apiToken: string | undefined, bindHost: string, port: number): Promise<number> {
+  const send = (status: number, contentType: string, content: string) => {
+    res.writeHead(status, { 'Content-Type': contentType, 'Cache-Control': 'no-store' });
+    res.end(content);
+    return status;
+  };
+  const url = new URL(req.url || '/', 'http://localhost');
+  
+  const refused = checkRequestSource(req, bindHost, port);
+  if (refused) {
+    return send(refused.status, 'application/json', JSON.stringify({ error: refused.message }));
+  }
+  if (req.method === 'GET' && (url.pathname === '/' || url.pathname === '/index.html')) {
+    return send(200, 'text/html; charset=utf-8', DASHBOARD_HTML);
+  }
+  if (!url.pathname.startsWith('/api/')) {
+    return send(404, 'application/json', JSON.stringify({ error: 'Not found' }));
+  }
+  if (apiToken && !hasValidApiToken(req, apiToken)) {
+    return send(401, 'application/json', JSON.stringify({ error: 'Missing or wrong API token' }));
+  }
+  
+  try {
+    // Every request prices with a fresh quote (quotes are otherwise memoized per process)
+    refreshSOLPriceQuote();
+    const [resource, selector, view] = url.pathname.split('/').slice(2).filter(Boolean).map(decodeURIComponent);
+    let result: object;
+    if (req.method === 'GET') {
+      result = await handleApiGet(resource, selector, view, url.searchParams);
+    } else if (req.method === 'POST' && resource === 'positions') {
+      result = await handleApiChange(selector, view, await readRequestBody(req));
+    } else {
+      throw httpError(405, `${req.method} is not supported here`);
+    }
+    return send(200, 'application/json', JSON.stringify(result, null, 2));
+  } catch (error) {
+    if (error instanceof PositionBookError) {
+      const candidates = error.candidates.length > 0 ? { candidates: error.candidates.map(pos => pos.id) } : {};
+      return send(BOOK_ERROR_STATUS[error.code], 'application/json', JSON.stringify({ error: error.message, ...candidates }));
+    }
+    const status = (error as HttpError).status || 500;
+    return send(status, 'application/json', JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+  }
+}
+
+async function servePositions(host: string, port: number): Promise<void> {
+  const apiToken = process.env.DAMM_PNL_API_TOKEN || loadConfig().api_token;
+  if (!apiToken && !isLoopbackHost(host)) {
+    console.error(colorText(`⚠️  Listening on ${host} without an API token: anyone on the network can read and change the book. Set DAMM_PNL_API_TOKEN.`, COLORS.BRIGHT_YELLOW));
+  }
+  
+  const server = http.createServer((req, res) => {
+    handleHttpRequest(req, res, apiToken, host, port).then(status => {
+      console.log(colorText(`${new Date().toISOString().substring(11, 19)} ${req.method} ${req.url} ${status}`, status >= 400 ? COLORS.BRIGHT_RED : COLORS.GRAY));
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, resolve);
+  });
+  
+  // Exit through process.exit so a held portfolio lock is released
+  process.on('SIGINT', () => process.exit(0));
+  process.on('SIGTERM', () => process.exit(0));
+  
+  const address = host.includes(':') ? `[${host}]` : host;
+  console.log(colorText(`🌐 Serving portfolio '${activePortfolio}' at http://${address}:${port}/`, COLORS.BRIGHT_GREEN));
+  console.log(colorText(apiToken ? 'API token required (Authorization: Bearer <token>)' : 'No API token set', COLORS.GRAY));
+  console.log(colorText('Press Ctrl+C to stop.', COLORS.GRAY));
+}
+
+// Single-page web dashboard served at /. Plain DOM and SVG, no dependencies;
+// the API token is asked for once and kept in the browser's localStorage.
+const DASHBOARD_HTML = `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>DAMM PNL</title>
+<style>
+  body { font-family: ui-monospace, Menlo, Consolas, monospace; background: #111; color: #ddd; margin: 24px; }
+  h1 { font-size: 18px; color: #fff; }
+  h2 { font-size: 14px; color: #fff; margin: 28px 0 8px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { padding: 4px 10px; text-align: right; white-space: nowrap; }
+  th { color: #888; font-weight: normal; border-bottom: 1px solid #333; }
+  th:first-child, td:first-child { text-align: left; }
+  tbody tr { cursor: pointer; }
+  tbody tr:hover, tr.selected { background: #1e293b; }
+  tfoot td { border-top: 1px solid #333; font-weight: bold; }
+  .cards { display: flex; flex-wrap: wrap; gap: 12px; margin: 16px 0; }
+  .card { background: #1a1a1a; border-radius: 6px; padding: 10px 14px; min-width: 150px; color: #888; }
+  .card b { display: block; font-size: 17px; margin-top: 4px; color: #fff; }
+  .pos { color: #4ade80 !important; } .neg { color: #f87171 !important; } .muted { color: #888; }
+  .cyan { color: #22d3ee; } .warn { color: #facc15; }
+  svg text { fill: #888; font-size: 11px; }
+</style>
+</head>
+<body>
+<h1>📊 DAMM PNL <span id="meta" class="muted"></span></h1>
+<div id="error" class="neg"></div>
+<div id="cards" class="cards"></div>
+<table>
+  <thead><tr><th>Position</th><th>Value</th><th>Unrealized</th><th>Realized</th><th>Total PNL</th><th>PNL %</th><th>Weight</th><th>Days</th><th>Updated</th><th>Action</th></tr></thead>
+  <tbody id="rows"></tbody>
+  <tfoot id="total"></tfoot>
+</table>
+<h2>Allocation</h2>
+<svg id="allocation" width="100%" height="24"></svg>
+<h2 id="history-title">Value history</h2>
+<svg id="history" width="100%" height="220"></svg>
+<h2>Closed positions, last 7 days</h2>
+<svg id="daily" width="100%" height="150"></svg>
+<div id="summary" class="cards"></div>
+<script>
+var token = localStorage.getItem('damm-pnl-token') || '';
+var selectedId = null;
+var PALETTE = ['#22d3ee', '#4ade80', '#facc15', '#f472b6', '#a78bfa', '#fb923c', '#60a5fa', '#f87171'];
+
+function api(path) {
+  return fetch(path, { headers: token ? { Authorization: 'Bearer ' + token } : {} }).then(function (res) {
+    if (res.status === 401) {
+      token = prompt('API token') || '';
+      localStorage.setItem('damm-pnl-token', token);
+      if (token) return api(path);
+    }
+    return res.json().then(function (body) {
+      if (!res.ok) throw new Error(body.error || res.statusText);
+      return body.data;
+    });
+  });
+}
+
+function usd(value, signed) {
+  return (value < 0 ? '-' : signed && value > 0 ? '+' : '') + '$' + Math.abs(value).toFixed(2);
+}
+function tone(value) { return value > 0 ? 'pos' : value < 0 ? 'neg' : 'muted'; }
+function age(timestamp) {
+  if (!timestamp) return 'never';
+  var minutes = Math.max(0, Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000));
+  return minutes < 60 ? minutes + 'm ago' : minutes < 1440 ? Math.floor(minutes / 60) + 'h ago' : Math.floor(minutes / 1440) + 'd ago';
+}
+function clear(el) { while (el.firstChild) el.removeChild(el.firstChild); return el; }
+function cell(row, text, className) {
+  var td = document.createElement('td');
+  td.textContent = text;
+  if (className) td.className = className;
+  row.appendChild(td);
+}
+function card(parent, label, value, className) {
+  var div = document.createElement('div');
+  var b = document.createElement('b');
+  div.className = 'card';
+  div.textContent = label;
+  b.textContent = value;
+  if (className) b.className = className;
+  div.appendChild(b);
+  parent.appendChild(div);
+}
+function svg(name, attrs, text) {
+  var el = document.createElementNS('http://www.w3.org/2000/svg', name);
+  Object.keys(attrs).forEach(function (key) { el.setAttribute(key, attrs[key]); });
+  if (text !== undefined) el.textContent = text;
+  return el;
+}
+function name(row) { return row.token.toUpperCase() + (row.label ? ' [' + row.label + ']' : ''); }
+
+function renderDashboard(rows) {
+  var positions = rows.filter(function (row) { return row.scope === 'position'; });
+  var total = rows[rows.length - 1];
+  var body = clear(document.getElementById('rows'));
+  positions.forEach(function (row) {
+    var tr = document.createElement('tr');
+    if (row.id === selectedId) tr.className = 'selected';
+    cell(tr, name(row), 'cyan');
+    cell(tr, usd(row.value_usd));
+    cell(tr, usd(row.unrealized_pnl_usd, true), tone(row.unrealized_pnl_usd));
+    cell(tr, usd(row.realized_pnl_usd, true), tone(row.realized_pnl_usd));
+    cell(tr, usd(row.total_pnl_usd, true), tone(row.total_pnl_usd));
+    cell(tr, row.pnl_percentage.toFixed(2) + '%', tone(row.pnl_percentage));
+    cell(tr, row.weight_percentage.toFixed(1) + '%');
+    cell(tr, String(row.days_open));
+    cell(tr, age(row.value_updated_at) + (row.stale ? ' !' : ''), row.stale ? 'warn' : 'muted');
+    cell(tr, row.action);
+    tr.onclick = function () { selectedId = row.id; renderDashboard(rows); loadHistory(row); };
+    body.appendChild(tr);
+  });
+  var foot = clear(document.getElementById('total'));
+  var tr = document.createElement('tr');
+  cell(tr, 'Total (' + positions.length + ')');
+  cell(tr, usd(total.value_usd));
+  cell(tr, usd(total.unrealized_pnl_usd, true), tone(total.unrealized_pnl_usd));
+  cell(tr, usd(total.realized_pnl_usd, true), tone(total.realized_pnl_usd));
+  cell(tr, usd(total.total_pnl_usd, true), tone(total.total_pnl_usd));
+  cell(tr, total.pnl_percentage.toFixed(2) + '%', tone(total.pnl_percentage));
+  foot.appendChild(tr);
+
+  var cards = clear(document.getElementById('cards'));
+  card(cards, 'Value', usd(total.value_usd) + ' / ' + total.value_sol.toFixed(4) + ' SOL');
+  card(cards, 'Unrealized PNL', usd(total.unrealized_pnl_usd, true), tone(total.unrealized_pnl_usd));
+  card(cards, 'Realized PNL', usd(total.realized_pnl_usd, true), tone(total.realized_pnl_usd));
+  card(cards, 'Total PNL', usd(total.total_pnl_usd, true) + ' / ' + total.total_pnl_sol.toFixed(4) + ' SOL', tone(total.total_pnl_usd));
+
+  // Allocation: one stacked bar, a segment per position
+  var allocation = clear(document.getElementById('allocation'));
+  var width = allocation.clientWidth || 800;
+  var x = 0;
+  positions.forEach(function (row, index) {
+    var w = width * row.weight_percentage / 100;
+    var rect = svg('rect', { x: x, y: 0, width: Math.max(0, w - 1), height: 24, fill: PALETTE[index % PALETTE.length] });
+    rect.appendChild(svg('title', {}, name(row) + ' ' + row.weight_percentage.toFixed(1) + '%'));
+    allocation.appendChild(rect);
+    if (w > 60) allocation.appendChild(svg('text', { x: x + 4, y: 16, style: 'fill:#111' }, name(row)));
+    x += w;
+  });
+
+  if (!selectedId && positions.length > 0) {
+    selectedId = positions[0].id;
+    renderDashboard(rows);
+    loadHistory(positions[0]);
+  }
+}
+
+// Line chart of value and total PNL per snapshot
+function loadHistory(row) {
+  document.getElementById('history-title').textContent = 'Value history: ' + name(row);
+  api('/api/positions/' + encodeURIComponent(row.id) + '/history').then(function (points) {
+    var chart = clear(document.getElementById('history'));
+    var width = chart.clientWidth || 800, height = 220, pad = 50;
+    if (points.length < 2) {
+      chart.appendChild(svg('text', { x: pad, y: 30 }, 'Not enough value snapshots yet'));
+      return;
+    }
+    var values = points.map(function (p) { return p.value_usd; }).concat(points.map(function (p) { return p.total_pnl_usd; }), [0]);
+    var min = Math.min.apply(null, values), max = Math.max.apply(null, values);
+    if (max === min) max = min + 1;
+    var sx = function (i) { return pad + i * (width - pad - 10) / (points.length - 1); };
+    var sy = function (v) { return 10 + (height - 30) * (1 - (v - min) / (max - min)); };
+    chart.appendChild(svg('line', { x1: pad, x2: width - 10, y1: sy(0), y2: sy(0), stroke: '#333' }));
+    chart.appendChild(svg('text', { x: 4, y: sy(max) + 4 }, usd(max)));
+    chart.appendChild(svg('text', { x: 4, y: sy(min) + 4 }, usd(min)));
+    chart.appendChild(svg('text', { x: pad, y: height - 4 }, points[0].timestamp.substring(0, 10)));
+    chart.appendChild(svg('text', { x: width - 90, y: height - 4 }, points[points.length - 1].timestamp.substring(0, 10)));
+    [['value_usd', '#22d3ee', 'value'], ['total_pnl_usd', '#4ade80', 'total PNL']].forEach(function (series, index) {
+      var path = points.map(function (p, i) { return (i ? 'L' : 'M') + sx(i) + ' ' + sy(p[series[0]]); }).join(' ');
+      chart.appendChild(svg('path', { d: path, fill: 'none', stroke: series[1], 'stroke-width': 2 }));
+      chart.appendChild(svg('text', { x: pad + 10 + index * 90, y: 12, style: 'fill:' + series[1] }, series[2]));
+    });
+  }).catch(showError);
+}
+
+// Bars of closed PNL per day, oldest first, plus all-time stats
+function renderSummary(periods) {
+  var days = periods.filter(function (p) { return p.period !== 'all_time'; }).reverse();
+  var allTime = periods[periods.length - 1].stats;
+  var chart = clear(document.getElementById('daily'));
+  var width = chart.clientWidth || 800, height = 150;
+  var peak = Math.max.apply(null, days.map(function (d) { return Math.abs(d.stats.totalPnlUSD); }).concat([1]));
+  var slot = width / days.length, mid = (height - 20) / 2;
+  days.forEach(function (day, i) {
+    var pnl = day.stats.totalPnlUSD, h = Math.abs(pnl) / peak * (mid - 5);
+    var rect = svg('rect', { x: i * slot + 8, y: pnl >= 0 ? mid - h : mid, width: slot - 16, height: Math.max(1, h), fill: pnl >= 0 ? '#4ade80' : '#f87171' });
+    rect.appendChild(svg('title', {}, day.period + ': ' + usd(pnl, true) + ' (' + day.positions + ' closed)'));
+    chart.appendChild(rect);
+    chart.appendChild(svg('text', { x: i * slot + 8, y: height - 4 }, day.period.substring(5)));
+  });
+  var summary = clear(document.getElementById('summary'));
+  card(summary, 'Closed positions', String(allTime.winningPositions + allTime.losingPositions));
+  card(summary, 'Win rate', allTime.winRate.toFixed(1) + '%', allTime.winRate >= 50 ? 'pos' : 'neg');
+  card(summary, 'All-time PNL', usd(allTime.totalPnlUSD, true), tone(allTime.totalPnlUSD));
+  card(summary, 'Profit factor', allTime.profitFactor === null ? 'n/a' : allTime.profitFactor.toFixed(2));
+  card(summary, 'Max drawdown', usd(allTime.maxDrawdownUSD), tone(allTime.maxDrawdownUSD));
+}
+
+function showError(error) { document.getElementById('error').textContent = error.message; }
+
+function load() {
+  Promise.all([api('/api/status'), api('/api/dashboard'), api('/api/summary')]).then(function (data) {
+    var status = data[0];
+    document.getElementById('error').textContent = '';
+    document.getElementById('meta').textContent = "'" + status.portfolio + "' | " +
+      (status.sol_price_usd === null ? 'no SOL price' : 'SOL $' + status.sol_price_usd.toFixed(2) + ' (' + status.sol_price_source + (status.sol_price_stale ? ', stale' : '') + ')') +
+      ' | updated ' + new Date().toLocaleTimeString();
+    renderDashboard(data[1]);
+    renderSummary(data[2]);
+  }).catch(showError);
+}
+
+load();
+setInterval(load, 30000);
+</script>
+</body>
+</html>
+`;
+
+// ---------------------------------------------------------------------------
+// Machine-readable output (--format json|csv). The rows are built in
+// position-book.ts; their field names are part of the public interface: add
+// fields freely, but never rename or remove them without bumping
+// OUTPUT_FORMAT_VERSION.
+// ---------------------------------------------------------------------------
+
+type OutputFormat = 'table' | 'json' | 'csv';
+
+const OUTPUT_FORMAT_VERSION = 1;
+
+// Flatten nested objects into dotted keys, e.g. { stats: { winRate } } -> "stats.winRate"
+function flattenRecord(record: object, prefix: string = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(flat, flattenRecord(value, name));
+    } else {
+      flat[name] = value;
+    }
+  }
+  return flat;
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function printCSV(records: object[]): void {
+  const rows = records.map(record => flattenRecord(record));
+  const columns: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!columns.includes(key)) columns.push(key);
+  }));
+  console.log(columns.join(','));
+  rows.forEach(row => console.log(columns.map(column => csvField(row[column])).join(',')));
+}
+
+// Emit a JSON document wrapped in a small versioned envelope, or CSV rows
+// JSON envelope shared by --format json and the HTTP API
+function reportEnvelope(kind: string, data: object | object[]): object {
+  return {
+    format_version: OUTPUT_FORMAT_VERSION,
+    kind,
+    generated_at: new Date().toISOString(),
+    data
+  };
+}
+
+function printReport(format: OutputFormat, kind: string, data: object | object[]): void {
+  if (format === 'csv') {
+    printCSV(Array.isArray(data) ? data : [data]);
+    return;
+  }
+  console.log(JSON.stringify(reportEnvelope(kind, data), null, 2));
+}
+
+// ---------------------------------------------------------------------------
+// Command line
+//
+// Every command is declared in COMMANDS with its arguments and flags, and
+// every flag once in FLAGS. parseCommandLine() checks argv against them
+// before anything runs; the same tables generate `--help` and the bash, zsh
+// and fish completion scripts. A first argument that isn't a command is the
+// update shorthand, `./damm-pnl <position> <value_usd>`, which only updates
+// an existing position: new ones are opened with `open`.
+// ---------------------------------------------------------------------------
+
+// Where completion finds values: stored positions (active or any), portfolio
+// names, tags, command names, files, or a fixed list
+type CompletionSource = 'position' | 'any-position' | 'portfolio' | 'tag' | 'command' | 'file' | string[];
+
+interface FlagSpec {
+  value?: string;                  // Name of the flag's value; switches have none
+  description: string;
+  complete?: CompletionSource;
+}
+
+interface ArgSpec {
+  name: string;
+  optional?: boolean;
+  variadic?: boolean;              // Takes the remaining arguments
+  complete?: CompletionSource;
+}
+
+interface CommandSpec {
+  summary: string;
+  args: ArgSpec[];
+  flags: string[];                 // Besides GLOBAL_FLAGS
+  examples: string[];              // "<command line>    # What it does"
+  hidden?: boolean;                // Left out of help and completion
+}
+
+const GLOBAL_FLAGS = ['--portfolio', '--help'];
+
+const FLAGS: Record<string, FlagSpec> = {
+  '--portfolio': { value: 'name', description: 'Use this portfolio instead of the current one', complete: 'portfolio' },
+  '--help': { description: 'Show help for the command' },
+  '--price': { value: 'sol_usd', description: 'Record events at this SOL/USD rate instead of the live price' },
+  '--fees': { value: 'usd', description: 'Fees claimed with this event (close: final fees)' },
+  '--date': { value: 'when', description: 'When it happened: YYYY-MM-DD (noon local time), ISO time or epoch; default now' },
+  '--note': { value: 'text', description: 'Free text kept with the event, shown by events' },
+  '--label': { value: 'label', description: 'Label the position (pool address, fee tier, note)' },
+  '--format': { value: 'format', description: 'Output format: table (default), json or csv', complete: ['table', 'json', 'csv'] },
+  '--tag': { value: 'tags', description: 'Only positions with any of these tags', complete: 'tag' },
+  '--by': { value: 'group', description: 'Group by tag (list, closed) or by token or tag (summary)', complete: ['token', 'tag'] },
+  '--period': { value: 'period', description: 'PNL per day, week, month or year', complete: ['day', 'week', 'month', 'year'] },
+  '--from': { value: 'date', description: 'Closed on or after this date (YYYY-MM-DD)' },
+  '--to': { value: 'date', description: 'Closed on or before this date (YYYY-MM-DD)' },
+  '--token': { value: 'tokens', description: 'Only these tokens, comma-separated' },
+  '--all-portfolios': { description: 'Aggregate every portfolio' },
+  '--sort': { value: 'column', description: `Order by ${Object.keys(DASHBOARD_SORT_KEYS).join(', ')} (default: weight)`, complete: Object.keys(DASHBOARD_SORT_KEYS) },
+  '--reverse': { description: 'Reverse the sort order' },
+  '--stale-after': { value: 'hours', description: `Highlight values older than this (default: ${DEFAULT_STALE_AFTER_HOURS})` },
+  '--explain': { description: 'Show which rule fired for each position, and why' },
+  '--year': { value: 'year', description: 'Calendar year (default: current year)' },
+  '--method': { value: 'method', description: 'Cost basis: pro-rata (default) or fifo', complete: ['pro-rata', 'fifo'] },
+  '--interval': { value: 'seconds', description: `Seconds between checks (default: ${DEFAULT_WATCH_INTERVAL})` },
+  '--sol-move': { value: 'percent', description: `Alert when SOL moves this much (default: ${DEFAULT_SOL_MOVE}%)` },
+  '--once': { description: 'Check once and exit' },
+  '--host': { value: 'address', description: 'Address to listen on (default: 127.0.0.1)' },
+  '--port': { value: 'port', description: `Port to listen on (default: ${DEFAULT_SERVE_PORT})` },
+  '--pool': { value: 'address', description: 'DAMM pool address' },
+  '--pair': { value: 'BASE/QUOTE', description: 'Pool pair, e.g. AIXBT/SOL' },
+  '--fee-tier': { value: 'percent', description: 'Pool fee tier, e.g. 0.25 or 1%' },
+  '--unset': { value: 'fields', description: `Remove ${META_FIELDS.join(', ')} (comma-separated)`, complete: META_FIELDS },
+  '--remove': { description: 'Take the tags off instead of adding them' },
+  '--append': { description: 'Add a line to the note instead of replacing it' },
+  '--clear': { description: 'Remove the note' },
+  '--columns': { value: 'field=column,...', description: 'Map file columns to fields' },
+  '--token-price': { value: 'usd', description: 'USD price of the non-SOL, non-stable token' },
+  '--dry-run': { description: 'Show what would change without writing anything' },
+  '--force': { description: 'Even if the book changed outside the journal since' }
+};
+
+const POSITION_ARG: ArgSpec = { name: 'position', complete: 'position' };
+const ANY_POSITION_ARG: ArgSpec = { name: 'position', complete: 'any-position' };
+const EVENT_FLAGS = ['--date', '--note', '--price'];
+
+// In help order
+const COMMANDS: Record<string, CommandSpec> = {
+  'open': {
+    summary: 'Open a new position',
+    args: [{ name: 'token' }, { name: 'value_usd' }],
+    flags: ['--label', ...EVENT_FLAGS, '--format'],
+    examples: [
+      './damm-pnl open aixbt 200.00    # Track a new $200 position',
+      './damm-pnl open aixbt 500.00 --label usdc-1%    # Second AIXBT pool',
+      './damm-pnl open pengu 300 --date 2026-10-01 --note "Listing pump"    # Entered earlier'
+    ]
+  },
+  'update': {
+    summary: 'Record the current value of a position (shorthand: ./damm-pnl <position> <value_usd>)',
+    args: [POSITION_ARG, { name: 'value_usd' }, { name: 'fees_usd', optional: true }],
+    flags: ['--fees', '--label', ...EVENT_FLAGS, '--format'],
+    examples: [
+      './damm-pnl aixbt 249.07    # Position value in USD',
+      './damm-pnl aixbt 275.50 12.30    # With fees claimed in USD',
+      './damm-pnl update aixbt 275.50 --fees 12.30 --note "After rebalance"',
+      './damm-pnl update usdc-1% 480 --date 2026-10-14    # Value seen on the 14th'
+    ]
+  },
+  'claim-fee': {
+    summary: 'Record fees claimed, without a value update',
+    args: [POSITION_ARG, { name: 'fees_usd' }],
+    flags: EVENT_FLAGS,
+    examples: ['./damm-pnl claim-fee aixbt 12.30', './damm-pnl claim-fee usdc-1% 4.20    # Select a position by label']
+  },
+  'add-capital': {
+    summary: 'Record capital added to a position',
+    args: [POSITION_ARG, { name: 'amount_usd' }],
+    flags: EVENT_FLAGS,
+    examples: ['./damm-pnl add-capital aixbt 360.00']
+  },
+  'withdraw': {
+    summary: 'Record a withdrawal from a position',
+    args: [POSITION_ARG, { name: 'amount_usd' }],
+    flags: EVENT_FLAGS,
+    examples: [
+      './damm-pnl withdraw aixbt 100.00',
+      './damm-pnl withdraw aixbt 100.00 --price 172.40    # Backfill a withdrawal at SOL $172.40'
+    ]
+  },
+  'close': {
+    summary: 'Close a position at its exit value',
+    args: [POSITION_ARG, { name: 'exit_value_usd' }, { name: 'final_fees_usd', optional: true }],
+    flags: ['--fees', ...EVENT_FLAGS],
+    examples: ['./damm-pnl close bb 730.00 5.00    # Close at $730 with $5 final fees', './damm-pnl close bb 730.00 --date 2026-10-17T21:30']
+  },
+  'reset': {
+    summary: 'Start a position over at a new initial value',
+    args: [POSITION_ARG, { name: 'initial_value_usd' }],
+    flags: ['--price'],
+    examples: ['./damm-pnl reset aixbt 200.00']
+  },
+  'remove': {
+    summary: 'Delete an active position',
+    args: [POSITION_ARG],
+    flags: [],
+    examples: ['./damm-pnl remove aixbt']
+  },
+  'meta': {
+    summary: 'Set the pool address, pair and fee tier of a position',
+    args: [ANY_POSITION_ARG],
+    flags: ['--pool', '--pair', '--fee-tier', '--unset'],
+    examples: ['./damm-pnl meta usdc-1% --pool <address> --pair AIXBT/USDC --fee-tier 1%', './damm-pnl meta usdc-1% --unset pool,pair']
+  },
+  'tag': {
+    summary: 'Add or remove strategy tags',
+    args: [ANY_POSITION_ARG, { name: 'tag', optional: true, variadic: true, complete: 'tag' }],
+    flags: ['--remove'],
+    examples: ['./damm-pnl tag aixbt scalp narrative', './damm-pnl tag aixbt scalp --remove']
+  },
+  'note': {
+    summary: 'Set, extend or clear the notes of a position',
+    args: [ANY_POSITION_ARG, { name: 'text', optional: true, variadic: true }],
+    flags: ['--append', '--clear'],
+    examples: ['./damm-pnl note aixbt "Entered on the listing pump"', './damm-pnl note aixbt --append "Unlock on the 25th"']
+  },
+  'list': {
+    summary: 'Show active positions',
+    args: [],
+    flags: ['--tag', '--by', '--format'],
+    examples: ['./damm-pnl list', './damm-pnl list --format csv', './damm-pnl list --by tag']
+  },
+  'closed': {
+    summary: 'Show closed positions',
+    args: [],
+    flags: ['--tag', '--by', '--format'],
+    examples: ['./damm-pnl closed']
+  },
+  'dashboard': {
+    summary: 'Whole book with PNL, weights and suggestions',
+    args: [],
+    flags: ['--sort', '--reverse', '--stale-after', '--tag', '--format'],
+    examples: ['./damm-pnl dashboard --sort total    # Best total PNL first']
+  },
+  'show': {
+    summary: 'Position, PNL and suggestion at the latest recorded value',
+    args: [POSITION_ARG],
+    flags: ['--format'],
+    examples: ['./damm-pnl show aixbt --format json']
+  },
+  'events': {
+    summary: 'Timestamped event ledger of a position',
+    args: [ANY_POSITION_ARG],
+    flags: [],
+    examples: ['./damm-pnl events aixbt']
+  },
+  'history': {
+    summary: 'Value, fees and PNL of a position over time',
+    args: [ANY_POSITION_ARG],
+    flags: [],
+    examples: ['./damm-pnl history aixbt']
+  },
+  'fees': {
+    summary: 'Fee APR, fees per day and fees vs value drift',
+    args: [{ name: 'position', optional: true, complete: 'any-position' }],
+    flags: ['--format'],
+    examples: ['./damm-pnl fees', './damm-pnl fees aixbt']
+  },
+  'summary': {
+    summary: 'Trading performance of closed positions',
+    args: [],
+    flags: ['--period', '--from', '--to', '--token', '--tag', '--by', '--all-portfolios', '--format'],
+    examples: [
+      './damm-pnl summary    # Last 7 days and all time',
+      './damm-pnl summary --period month    # Month-over-month PNL',
+      './damm-pnl summary --by token --from 2026-10-01    # Token leaderboard since October 1st',
+      './damm-pnl summary --by tag    # Which strategies work'
+    ]
+  },
+  'suggest': {
+    summary: 'Suggested action for each active position',
+    args: [{ name: 'position', optional: true, complete: 'position' }],
+    flags: ['--explain', '--format'],
+    examples: ['./damm-pnl suggest --explain    # Which suggestion rule fired for each position, and why']
+  },
+  'tax-report': {
+    summary: 'Realized gains per closed position for a year',
+    args: [],
+    flags: ['--year', '--method', '--format'],
+    examples: ['./damm-pnl tax-report --year 2026 --method fifo --format csv > gains-2026.csv']
+  },
+  'watch': {
+    summary: 'Alert on stop-loss/take-profit rules and SOL moves',
+    args: [],
+    flags: ['--interval', '--sol-move', '--once'],
+    examples: ['./damm-pnl watch --interval 60 --sol-move 3']
+  },
+  'tui': {
+    summary: 'Full-screen dashboard with keyboard forms',
+    args: [],
+    flags: ['--sort', '--stale-after', '--price'],
+    examples: ['./damm-pnl tui']
+  },
+  'serve': {
+    summary: 'Web dashboard and JSON API',
+    args: [],
+    flags: ['--host', '--port'],
+    examples: [
+      `./damm-pnl serve    # http://127.0.0.1:${DEFAULT_SERVE_PORT}/`,
+      'DAMM_PNL_API_TOKEN=secret ./damm-pnl serve --host 0.0.0.0    # Share on the LAN behind a token'
+    ]
+  },
+  'price': {
+    summary: 'SOL quote from every price provider',
+    args: [],
+    flags: [],
+    examples: ['./damm-pnl price']
+  },
+  'set-price': {
+    summary: 'Set a manual SOL price for offline use',
+    args: [{ name: 'asset', complete: ['SOL'] }, { name: 'price_usd' }],
+    flags: [],
+    examples: ['./damm-pnl set-price SOL 172.40']
+  },
+  'import': {
+    summary: 'Import events from a CSV or JSON export',
+    args: [{ name: 'file', complete: 'file' }],
+    flags: ['--columns', '--dry-run', '--price'],
+    examples: ['./damm-pnl import export.csv --columns date=Time,amount=USD --dry-run    # Preview an import']
+  },
+  'ingest-tx': {
+    summary: 'Record events from saved Meteora DAMM transactions',
+    args: [{ name: 'file', complete: 'file' }, POSITION_ARG],
+    flags: ['--token-price', '--dry-run', '--price'],
+    examples: ['./damm-pnl ingest-tx txs.json aixbt --dry-run']
+  },
+  'portfolio': {
+    summary: 'List, create or switch portfolios',
+    args: [{ name: 'list|create|switch', optional: true, complete: ['list', 'create', 'switch'] }, { name: 'name', optional: true, complete: 'portfolio' }],
+    flags: [],
+    examples: ['./damm-pnl portfolio create team-wallet    # Separate book for another wallet', './damm-pnl list --portfolio team-wallet    # Use a portfolio for one command']
+  },
+  'backups': {
+    summary: 'List backups of the portfolio',
+    args: [],
+    flags: [],
+    examples: ['./damm-pnl backups']
+  },
+  'restore': {
+    summary: 'Roll the portfolio back to a backup',
+    args: [{ name: 'latest|backup_number|backup_file', complete: ['latest'] }],
+    flags: [],
+    examples: ['./damm-pnl restore latest']
+  },
+  'migrate': {
+    summary: 'Upgrade the data file to the current schema',
+    args: [],
+    flags: ['--dry-run'],
+    examples: ['./damm-pnl migrate --dry-run    # Show what a schema upgrade would change']
+  },
+  'clean': {
+    summary: 'Remove positions with incorrect data',
+    args: [],
+    flags: [],
+    examples: ['./damm-pnl clean']
+  },
+  'journal': {
+    summary: 'Recent changes and what each one did',
+    args: [],
+    flags: [],
+    examples: ['./damm-pnl journal']
+  },
+  'undo': {
+    summary: 'Revert the last change',
+    args: [],
+    flags: ['--force'],
+    examples: ['./damm-pnl undo']
+  },
+  'redo': {
+    summary: 'Apply the last undone change again',
+    args: [],
+    flags: ['--force'],
+    examples: ['./damm-pnl redo']
+  },
+  'help': {
+    summary: 'Show help for all commands or one',
+    args: [{ name: 'command', optional: true, complete: 'command' }],
+    flags: [],
+    examples: ['./damm-pnl help close']
+  },
+  'completion': {
+    summary: 'Print the shell completion script',
+    args: [{ name: 'bash|zsh|fish', complete: ['bash', 'zsh', 'fish'] }],
+    flags: [],
+    examples: ['./damm-pnl completion bash > ~/.damm-pnl-completion.bash    # Then source it from ~/.bashrc']
+  },
+  // Values for the completion scripts
+  '__complete': {
+    summary: 'Completion values',
+    args: [{ name: 'source' }],
+    flags: [],
+    examples: [],
+    hidden: true
+  }
+};
+
+interface ParsedCommandLine {
+  args: string[];                  // Command first, then its arguments, then flags
+  shorthand: boolean;              // `<position> <value_usd>` without `update`
+}
+
+// Edits (insertions, deletions, substitutions) between two words
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Names a mistyped one was probably meant to be: a few edits away, or
+// starting with it, closest first
+function suggestNames(input: string, names: string[]): string[] {
+  const typed = input.toLowerCase();
+  return [...new Set(names)]
+    .map(name => ({ name, distance: typed.length >= 3 && name.toLowerCase().startsWith(typed) ? 0 : editDistance(typed, name.toLowerCase()) }))
+    .filter(({ distance }) => distance <= (typed.length <= 4 ? 1 : 2))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ name }) => name);
+}
+
+function printSuggestions(names: string[]): void {
+  if (names.length > 0) {
+    console.error(`Did you mean: ${names.join(', ')}?`);
+  }
+}
+
+function visibleCommands(): string[] {
+  return Object.keys(COMMANDS).filter(name => !COMMANDS[name].hidden);
+}
+
+function commandUsage(name: string): string {
+  const spec = COMMANDS[name];
+  const args = spec.args.map(arg => {
+    const text = `${arg.name}${arg.variadic ? '...' : ''}`;
+    return arg.optional ? `[${text}]` : `<${text}>`;
+  });
+  return ['./damm-pnl', name, ...args, ...(spec.flags.length > 0 ? ['[options]'] : [])].join(' ');
+}
+
+function printFlagTable(flags: string[]): void {
+  const names = flags.map(flag => FLAGS[flag].value ? `${flag} <${FLAGS[flag].value}>` : flag);
+  const width = Math.max(...names.map(name => name.length)) + 2;
+  flags.forEach((flag, index) => console.log(`  ${names[index].padEnd(width)}${FLAGS[flag].description}`));
+}
+
+function printHelp(): void {
+  console.log('Usage: ./damm-pnl <command> [arguments] [options]');
+  console.log('       ./damm-pnl <position> <value_usd> [fees_usd]    Same as update');
+  console.log('');
+  console.log('Commands:');
+  const width = Math.max(...visibleCommands().map(name => name.length)) + 2;
+  visibleCommands().forEach(name => console.log(`  ${name.padEnd(width)}${COMMANDS[name].summary}`));
+  console.log('');
+  console.log('Options for every command:');
+  printFlagTable(GLOBAL_FLAGS);
+  console.log('');
+  console.log('<position> is a token name when it has a single active position, otherwise a');
+  console.log('position ID (or its #suffix shown by list) or label prefix.');
+  console.log('');
+  console.log('Run ./damm-pnl <command> --help for its arguments, options and examples.');
+  console.log('Shell completion: ./damm-pnl completion bash|zsh|fish');
+}
+
+function printCommandHelp(name: string): void {
+  const spec = COMMANDS[name];
+  console.log(`Usage: ${commandUsage(name)}`);
+  console.log('');
+  console.log(spec.summary);
+  console.log('');
+  console.log('Options:');
+  printFlagTable([...spec.flags, ...GLOBAL_FLAGS]);
+  if (spec.examples.length > 0) {
+    console.log('');
+    console.log('Examples:');
+    spec.examples.forEach(example => console.log(`  ${example}`));
+  }
+}
+
+// Check argv against COMMANDS and FLAGS. `--flag=value` is split in two and
+// the command moved first (`update` for the shorthand), then its arguments,
+// then the flags. Help and mistakes are printed here and end the process.
+function parseCommandLine(argv: string[]): ParsedCommandLine {
+  const positionals: string[] = [];
+  const flags: string[] = [];
+  const flagArgs: string[] = [];      // Flags with their values
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] === '-h' ? '--help' : argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const equals = arg.indexOf('=');
+    const flag = equals === -1 ? arg : arg.slice(0, equals);
+    flags.push(flag);
+    flagArgs.push(flag);
+    if (equals !== -1) {
+      if (FLAGS[flag] && !FLAGS[flag].value) {
+        console.error(`Error: ${flag} takes no value`);
+        process.exit(1);
+      }
+      flagArgs.push(arg.slice(equals + 1));
+    } else if (FLAGS[flag]?.value) {
+      if (i + 1 >= argv.length || argv[i + 1].startsWith('--')) {
+        console.error(`Error: ${flag} requires a value (${flag} <${FLAGS[flag].value}>)`);
+        process.exit(1);
+      }
+      flagArgs.push(argv[++i]);
+    }
+  }
+  const help = flags.includes('--help');
+  
+  if (positionals.length === 0) {
+    printHelp();
+    process.exit(help ? 0 : 1);
+  }
+  
+  let name = positionals[0].toLowerCase();
+  let shorthand = false;
+  if (!COMMANDS[name]) {
+    // `<position> <value_usd>` needs a number next; anything else is a
+    // mistyped command, not a token to create
+    if (positionals.length < 2 || isNaN(parseFloat(positionals[1]))) {
+      console.error(`Error: Unknown command '${positionals[0]}'.`);
+      printSuggestions(suggestNames(name, visibleCommands()));
+      console.error('Run ./damm-pnl help for the list of commands; ./damm-pnl <position> <value_usd> updates a position.');
+      process.exit(1);
+    }
+    positionals.unshift('update');
+    name = 'update';
+    shorthand = true;
+  }
+  positionals[0] = name;
+  
+  if (name === 'help') {
+    const topic = positionals[1]?.toLowerCase();
+    if (topic && (!COMMANDS[topic] || COMMANDS[topic].hidden)) {
+      console.error(`Error: Unknown command '${positionals[1]}'.`);
+      printSuggestions(suggestNames(topic, visibleCommands()));
+      process.exit(1);
+    }
+    if (topic) printCommandHelp(topic);
+    else printHelp();
+    process.exit(0);
+  }
+  if (help) {
+    printCommandHelp(name);
+    process.exit(0);
+  }
+  
+  const spec = COMMANDS[name];
+  const allowed = [...spec.flags, ...GLOBAL_FLAGS];
+  for (const flag of flags) {
+    if (allowed.includes(flag)) continue;
+    console.error(`Error: Unknown option ${flag} for ${name}.`);
+    if (FLAGS[flag]) {
+      const users = visibleCommands().filter(command => COMMANDS[command].flags.includes(flag));
+      console.error(`${flag} is an option of ${users.join(', ')}.`);
+    } else {
+      printSuggestions(suggestNames(flag, allowed));
+    }
+    console.error(`Run ./damm-pnl ${name} --help for its options.`);
+    process.exit(1);
+  }
+  
+  const count = positionals.length - 1;
+  const required = spec.args.filter(arg => !arg.optional).length;
+  const variadic = spec.args.some(arg => arg.variadic);
+  if (count < required || (!variadic && count > spec.args.length)) {
+    console.error(`Usage: ${shorthand ? './damm-pnl <position> <value_usd> [fees_usd] [options]' : commandUsage(name)}`);
+    console.error(`Run ./damm-pnl ${name} --help for details.`);
+    process.exit(1);
+  }
+  
+  return { args: [...positionals, ...flagArgs], shorthand };
+}
+
+// Values the completion scripts offer for a CompletionSource read from disk:
+// tokens and labels (short IDs for unlabeled positions sharing a token),
+// portfolio names or tags
+function completionValues(source: string, positions: Position[]): string[] {
+  const active = positions.filter(pos => !pos.is_closed);
+  if (source === 'position' || source === 'any-position') {
+    return [...new Set((source === 'position' ? active : positions).flatMap(pos => {
+      const shared = active.filter(other => other.token === pos.token).length > 1;
+      return [pos.token.toLowerCase(), ...(pos.label ? [pos.label] : shared ? [positionShortId(pos)] : [])];
+    }))];
+  }
+  if (source === 'portfolio') {
+    return [...new Set([DEFAULT_PORTFOLIO, ...listPortfolios()])];
+  }
+  if (source === 'tag') {
+    return [...new Set(positions.flatMap(pos => pos.tags || []))].sort();
+  }
+  return [];
+}
+
+const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'];
+
+// Shell code offering the values of a source; the scripts call back into
+// `damm-pnl __complete` for anything read from disk
+function shellCompletion(shell: 'bash' | 'zsh', source: CompletionSource): string {
+  const values = Array.isArray(source) ? source : source === 'command' ? visibleCommands() : null;
+  if (values) {
+    return shell === 'bash' ? `COMPREPLY=($(compgen -W "${values.join(' ')}" -- "$cur"))` : `compadd -- ${values.join(' ')}`;
+  }
+  if (source === 'file') {
+    return shell === 'bash' ? 'COMPREPLY=($(compgen -f -- "$cur"))' : '_files';
+  }
+  return shell === 'bash'
+    ? `COMPREPLY=($(compgen -W "$("\${COMP_WORDS[0]}" __complete ${source} 2>/dev/null)" -- "$cur"))`
+    : `compadd -- \${(f)"$("\${words[1]}" __complete ${source} 2>/dev/null)"}`;
+}
+
+// bash and zsh share the structure: find the command and the index of the
+// argument being completed, then offer flag values, flags, commands and
+// positions, or the argument's values
+function posixCompletionScript(shell: 'bash' | 'zsh'): string {
+  const bash = shell === 'bash';
+  const valueFlags = Object.keys(FLAGS).filter(flag => FLAGS[flag].value);
+  const lines = [
+    `# ${shell} completion for damm-pnl. Save it and source it from ~/.${shell}rc:`,
+    `#   ./damm-pnl completion ${shell} > ~/.damm-pnl-completion.${shell}`,
+    `#   echo 'source ~/.damm-pnl-completion.${shell}' >> ~/.${shell}rc`,
+    '_damm_pnl() {',
+    bash
+      ? '  local cur="${COMP_WORDS[COMP_CWORD]}" prev="${COMP_WORDS[COMP_CWORD-1]}"'
+      : '  local cur="${words[CURRENT]}" prev="${words[CURRENT-1]}"',
+    '  local cmd="" n=0 i word flags',
+    bash ? '  for ((i = 1; i < COMP_CWORD; i++)); do' : '  for ((i = 2; i < CURRENT; i++)); do',
+    bash ? '    word="${COMP_WORDS[i]}"' : '    word="${words[i]}"',
+    '    case "$word" in',
+    `      ${valueFlags.join('|')}) ((i++)) ;;`,
+    '      -*) ;;',
+    '      *) if [ -z "$cmd" ]; then cmd="$word"; else ((n++)); fi ;;',
+    '    esac',
+    '  done',
+    '  case "$prev" in'
+  ];
+  valueFlags.filter(flag => FLAGS[flag].complete).forEach(flag => {
+    lines.push(`    ${flag}) ${shellCompletion(shell, FLAGS[flag].complete!)}; return ;;`);
+  });
+  lines.push(
+    `    ${valueFlags.filter(flag => !FLAGS[flag].complete).join('|')}) return ;;`,
+    '  esac',
+    '  if [[ "$cur" == -* ]]; then',
+    '    case "$cmd" in'
+  );
+  visibleCommands().forEach(name => lines.push(`      ${name}) flags="${COMMANDS[name].flags.join(' ')}" ;;`));
+  lines.push(
+    '      "") flags="" ;;',
+    `      *) flags="${COMMANDS.update.flags.join(' ')}" ;;`,
+    '    esac',
+    bash
+      ? `    COMPREPLY=($(compgen -W "$flags ${GLOBAL_FLAGS.join(' ')}" -- "$cur"))`
+      : `    compadd -- \${=flags} ${GLOBAL_FLAGS.join(' ')}`,
+    '    return',
+    '  fi',
+    '  if [ -z "$cmd" ]; then',
+    bash
+      ? `    COMPREPLY=($(compgen -W "${visibleCommands().join(' ')} $("\${COMP_WORDS[0]}" __complete position 2>/dev/null)" -- "$cur"))`
+      : `    compadd -- ${visibleCommands().join(' ')} \${(f)"$("\${words[1]}" __complete position 2>/dev/null)"}`,
+    '    return',
+    '  fi',
+    '  case "$cmd:$n" in'
+  );
+  // Fixed positions first: a case pattern for a variadic argument matches
+  // every index
+  const patterns: { pattern: string; source: CompletionSource }[] = [];
+  visibleCommands().forEach(name => COMMANDS[name].args.forEach((arg, index) => {
+    if (arg.complete && !arg.variadic) patterns.push({ pattern: `${name}:${index}`, source: arg.complete });
+  }));
+  visibleCommands().forEach(name => COMMANDS[name].args.forEach(arg => {
+    if (arg.complete && arg.variadic) patterns.push({ pattern: `${name}:*`, source: arg.complete });
+  }));
+  patterns.forEach(({ pattern, source }) => lines.push(`    ${pattern}) ${shellCompletion(shell, source)} ;;`));
+  lines.push(
+    '  esac',
+    '}',
+    bash ? 'complete -F _damm_pnl damm-pnl' : 'compdef _damm_pnl damm-pnl'
+  );
+  return lines.join('\n');
+}
+
+function fishQuote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function fishValues(source: CompletionSource): string {
+  if (source === 'file') return '-F';
+  const values = Array.isArray(source) ? source.join(' ') : source === 'command' ? visibleCommands().join(' ') : `(__damm_pnl_complete ${source})`;
+  return `-a ${fishQuote(values)}`;
+}
+
+// fish has no argument indexes to go by: each argument source is offered
+// after the commands that take it
+function fishCompletionScript(): string {
+  const lines = [
+    '# fish completion for damm-pnl. Install it with:',
+    '#   ./damm-pnl completion fish > ~/.config/fish/completions/damm-pnl.fish',
+    'function __damm_pnl_complete',
+    '    set -l cmd (commandline -opc)[1]',
+    '    $cmd __complete $argv 2>/dev/null',
+    'end',
+    'complete -c damm-pnl -f'
+  ];
+  visibleCommands().forEach(name => {
+    lines.push(`complete -c damm-pnl -n __fish_use_subcommand -a ${name} -d ${fishQuote(COMMANDS[name].summary)}`);
+  });
+  lines.push(`complete -c damm-pnl -n __fish_use_subcommand ${fishValues('position')} -d ${fishQuote('Update a position')}`);
+  
+  const bySource = new Map<string, string[]>();
+  visibleCommands().forEach(name => COMMANDS[name].args.forEach(arg => {
+    if (!arg.complete) return;
+    const key = JSON.stringify(arg.complete);
+    bySource.set(key, [...(bySource.get(key) || []), name]);
+  }));
+  bySource.forEach((names, key) => {
+    lines.push(`complete -c damm-pnl -n ${fishQuote(`__fish_seen_subcommand_from ${[...new Set(names)].join(' ')}`)} ${fishValues(JSON.parse(key))}`);
+  });
+  
+  Object.keys(FLAGS).forEach(flag => {
+    const spec = FLAGS[flag];
+    const users = visibleCommands().filter(name => COMMANDS[name].flags.includes(flag));
+    const condition = GLOBAL_FLAGS.includes(flag) ? '' : ` -n ${fishQuote(`__fish_seen_subcommand_from ${users.join(' ')}`)}`;
+    const value = spec.value ? ` -r${spec.complete ? ` ${fishValues(spec.complete)}` : ''}` : '';
+    lines.push(`complete -c damm-pnl${condition} -l ${flag.slice(2)}${value} -d ${fishQuote(spec.description)}`);
+  });
+  return lines.join('\n');
+}
+
+function completionScript(shell: string): string {
+  return shell === 'fish' ? fishCompletionScript() : posixCompletionScript(shell as 'bash' | 'zsh');
+}
+
+// Commands that never write the active position book
+const UNLOCKED_COMMANDS = new Set(['list', 'closed', 'summary', 'show', 'events', 'history', 'price', 'set-price', 'portfolio', 'backups', 'journal', 'fees', 'suggest', 'watch', 'tax-report', 'dashboard', 'tui', 'serve', 'completion', '__complete']);
+
+// Take the portfolio lock for the whole command, or exit when another
+// process holds it
+function acquireLock(dataFile: string): void {
+  const owner = tryAcquireLock(dataFile);
+  if (owner !== null) {
+    console.error(`Error: ${dataFile} is locked by another damm-pnl process (pid ${owner}). Try again when it has finished.`);
+    process.exit(1);
+  }
+}
+
+// Parse a YYYY-MM-DD argument as local midnight
+function parseLocalDate(value: string, flag: string): Date {
+  const date = localDateFromString(value);
+  if (!date) {
+    console.error(`Error: ${flag} must be a date like 2026-10-01, got '${value}'`);
+    process.exit(1);
+  }
+  return date;
+}
+
+// --date for a new event as an ISO timestamp: a YYYY-MM-DD day at local noon
+// (today before noon: now), otherwise an ISO time or epoch
+function parseEventDate(value: string): string {
+  const day = localDateFromString(value);
+  const time = day ? Math.min(day.getTime() + 12 * 60 * 60 * 1000, Math.max(day.getTime(), Date.now())) : parsePriceTimestamp(value);
+  if (isNaN(time)) {
+    console.error(`Error: --date must be a date like 2026-10-01 or an ISO time like 2026-10-01T14:30, got '${value}'`);
+    process.exit(1);
+  }
+  return new Date(time).toISOString();
+}
+
+// Remove `--name <value>` from args and return the value
+function takeFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  if (index + 1 >= args.length) {
+    console.error(`Error: ${name} requires a value`);
+    process.exit(1);
+  }
+  return args.splice(index, 2)[1];
+}
+
+// Parse a positive USD amount; `error` explains why it was rejected
+function parseAmount(raw: string, what: string): { amount: number; error: string | null } {
+  const amount = parseFloat(raw);
+  if (isNaN(amount)) {
+    return { amount, error: `${what} must be a number, got '${raw}'` };
+  }
+  if (amount <= 0) {
+    return { amount, error: `${what} must be positive, got '${amount}'` };
+  }
+  return { amount, error: null };
+}
+
+// Remove a boolean `--name` switch from args and return whether it was present
+function takeSwitch(args: string[], name: string): boolean {
+  const index = args.indexOf(name);
+  if (index === -1) return false;
+  args.splice(index, 1);
+  return true;
+}
+
+async function main(): Promise<void> {
+  const { args, shorthand } = parseCommandLine(process.argv.slice(2));
+  
+  // Optional --price <usd> override for the SOL/USD rate recorded on new events
+  // (used to backfill the historical rate of events entered after the fact)
+  let priceOverride: number | undefined;
+  const priceFlag = takeFlag(args, '--price');
+  if (priceFlag !== undefined) {
+    priceOverride = parseFloat(priceFlag);
+    if (isNaN(priceOverride) || priceOverride <= 0) {
+      console.error(`Error: --price must be a positive number, got '${priceFlag}'`);
+      process.exit(1);
+    }
+  }
+  const formatFlag = (takeFlag(args, '--format') || 'table').toLowerCase();
+  if (formatFlag !== 'table' && formatFlag !== 'json' && formatFlag !== 'csv') {
+    console.error(`Error: --format must be one of table, json, csv, got '${formatFlag}'`);
+    process.exit(1);
+  }
+  const format = formatFlag as OutputFormat;
+  // Status messages go to stderr in json/csv mode so stdout stays parseable
+  const notify = format === 'table' ? console.log : console.error;
+  const label = takeFlag(args, '--label');
+  const feesFlag = takeFlag(args, '--fees');
+  const dateFlag = takeFlag(args, '--date');
+  const event: EventOptions = {
+    timestamp: dateFlag !== undefined ? parseEventDate(dateFlag) : undefined,
+    note: takeFlag(args, '--note')
+  };
+  const allPortfolios = takeSwitch(args, '--all-portfolios');
+  const dryRun = takeSwitch(args, '--dry-run');
+  const force = takeSwitch(args, '--force');
+  const explain = takeSwitch(args, '--explain');
+  const once = takeSwitch(args, '--once');
+  
+  // watch timing and SOL move threshold
+  const intervalFlag = takeFlag(args, '--interval');
+  const watchInterval = intervalFlag !== undefined ? parseFloat(intervalFlag) : DEFAULT_WATCH_INTERVAL;
+  if (isNaN(watchInterval) || watchInterval <= 0) {
+    console.error(`Error: --interval must be a positive number of seconds, got '${intervalFlag}'`);
+    process.exit(1);
+  }
+  // tax-report year and cost basis method
+  const yearFlag = takeFlag(args, '--year');
+  const taxYear = yearFlag !== undefined ? Number(yearFlag) : new Date().getFullYear();
+  if (!Number.isInteger(taxYear) || taxYear < 2000 || taxYear > 9999) {
+    console.error(`Error: --year must be a year like 2026, got '${yearFlag}'`);
+    process.exit(1);
+  }
+  const methodFlag = (takeFlag(args, '--method') || 'pro-rata').toLowerCase();
+  if (methodFlag !== 'pro-rata' && methodFlag !== 'fifo') {
+    console.error(`Error: --method must be pro-rata or fifo, got '${methodFlag}'`);
+    process.exit(1);
+  }
+  const costBasisMethod = methodFlag as CostBasisMethod;
+  const columnsFlag = takeFlag(args, '--columns');
+  const tokenPriceFlag = takeFlag(args, '--token-price');
+  const tokenPrice = tokenPriceFlag !== undefined ? parseFloat(tokenPriceFlag) : undefined;
+  if (tokenPrice !== undefined && (isNaN(tokenPrice) || tokenPrice <= 0)) {
+    console.error(`Error: --token-price must be a positive number, got '${tokenPriceFlag}'`);
+    process.exit(1);
+  }
+  const solMoveFlag = takeFlag(args, '--sol-move');
+  const solMove = solMoveFlag !== undefined ? parseFloat(solMoveFlag) : DEFAULT_SOL_MOVE;
+  if (isNaN(solMove) || solMove <= 0) {
+    console.error(`Error: --sol-move must be a positive percentage, got '${solMoveFlag}'`);
+    process.exit(1);
+  }
+  
+  // summary filters and grouping
+  const periodFlag = takeFlag(args, '--period');
+  if (periodFlag !== undefined && !['day', 'week', 'month', 'year'].includes(periodFlag.toLowerCase())) {
+    console.error(`Error: --period must be one of day, week, month, year, got '${periodFlag}'`);
+    process.exit(1);
+  }
+  const byFlag = takeFlag(args, '--by');
+  if (byFlag !== undefined && !['token', 'tag'].includes(byFlag.toLowerCase())) {
+    console.error(`Error: --by must be token or tag, got '${byFlag}'`);
+    process.exit(1);
+  }
+  const tagFlag = takeFlag(args, '--tag');
+  const tagFilter = tagFlag !== undefined ? normalizeTags([tagFlag]) : undefined;
+  const fromFlag = takeFlag(args, '--from');
+  const toFlag = takeFlag(args, '--to');
+  const tokenFlag = takeFlag(args, '--token');
+  const summaryOptions: SummaryOptions = {
+    period: periodFlag ? periodFlag.toLowerCase() as SummaryPeriodSize : undefined,
+    from: fromFlag ? parseLocalDate(fromFlag, '--from') : undefined,
+    to: toFlag ? new Date(parseLocalDate(toFlag, '--to').getTime() + 24 * 60 * 60 * 1000 - 1) : undefined,
+    tokens: tokenFlag ? tokenFlag.toLowerCase().split(',').map(token => token.trim()).filter(Boolean) : undefined,
+    tags: tagFilter,
+    groupBy: byFlag ? byFlag.toLowerCase() as 'token' | 'tag' : undefined
+  };
+  const groupByTag = summaryOptions.groupBy === 'tag';
+  
+  // dashboard sorting and staleness
+  const sortFlag = (takeFlag(args, '--sort') || 'weight').toLowerCase();
+  if (!(sortFlag in DASHBOARD_SORT_KEYS)) {
+    console.error(`Error: --sort must be one of ${Object.keys(DASHBOARD_SORT_KEYS).join(', ')}, got '${sortFlag}'`);
+    process.exit(1);
+  }
+  const reverseSort = takeSwitch(args, '--reverse');
+  const staleAfterFlag = takeFlag(args, '--stale-after');
+  const staleAfterHours = staleAfterFlag !== undefined ? parseFloat(staleAfterFlag) : DEFAULT_STALE_AFTER_HOURS;
+  if (isNaN(staleAfterHours) || staleAfterHours <= 0) {
+    console.error(`Error: --stale-after must be a positive number of hours, got '${staleAfterFlag}'`);
+    process.exit(1);
+  }
+  
+  // serve
+  const hostFlag = takeFlag(args, '--host') ?? '127.0.0.1';
+  const portFlag = takeFlag(args, '--port');
+  const port = portFlag !== undefined ? Number(portFlag) : DEFAULT_SERVE_PORT;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    console.error(`Error: --port must be a port number between 1 and 65535, got '${portFlag}'`);
+    process.exit(1);
+  }
+  
+  // meta, tag and note
+  const poolFlag = takeFlag(args, '--pool');
+  const pairFlag = takeFlag(args, '--pair');
+  const feeTierFlag = takeFlag(args, '--fee-tier');
+  const unsetFlag = takeFlag(args, '--unset');
+  const removeTags = takeSwitch(args, '--remove');
+  const appendNote = takeSwitch(args, '--append');
+  const clearNote = takeSwitch(args, '--clear');
+  
+  if (ensureHomeDir()) {
+    console.error(colorText(`📦 Imported ./${LEGACY_DATA_FILE} as portfolio '${DEFAULT_PORTFOLIO}' (${portfolioFile(DEFAULT_PORTFOLIO)})`, COLORS.BRIGHT_YELLOW));
+  }
+  
+  // Portfolio: --portfolio flag, then DAMM_PNL_PORTFOLIO, then config.json
+  const commandLine = ['./damm-pnl', ...process.argv.slice(2)].join(' ');
+  const book = new PositionBook({
+    portfolio: takeFlag(args, '--portfolio'),
+    solPriceUSD: priceOverride,
+    commandLine,
+    onWarning: message => console.error(colorText(`⚠️  ${message}. Use --price <usd> to record one.`, COLORS.BRIGHT_YELLOW))
+  });
+  activePortfolio = book.portfolio;
+  
+  const command = args[0].toLowerCase();
+  const dataFile = book.dataFile;
+  
+  // Hold the portfolio lock from load to save for anything that may write the
+  // book. Readers don't need it: saves replace the file with an atomic rename.
+  if (!UNLOCKED_COMMANDS.has(command)) {
+    acquireLock(dataFile);
+  }
+
+  if (command === 'completion') {
+    const shell = args[1].toLowerCase();
+    if (!COMPLETION_SHELLS.includes(shell)) {
+      console.error(`Error: Completion is available for ${COMPLETION_SHELLS.join(', ')}, got '${args[1]}'`);
+      process.exit(1);
+    }
+    console.log(completionScript(shell));
+    return;
+  }
+
+  if (command === '__complete') {
+    completionValues(args[1], Object.values(book.load())).forEach(value => console.log(value));
+    return;
+  }
+
+  if (command === 'backups') {
+    const backups = listBackups(dataFile);
+    if (backups.length === 0) {
+      console.log(colorText(`No backups for portfolio '${activePortfolio}'.`, COLORS.GRAY));
+      return;
+    }
+    console.log(`\n${colorText(`Backups of '${activePortfolio}':`, COLORS.BOLD + COLORS.WHITE)} ${colorText(`(newest first, ${homePath('backups')})`, COLORS.GRAY)}`);
+    backups.forEach((file, index) => {
+      const size = fs.statSync(file).size;
+      console.log(`  ${colorText(String(index + 1).padStart(2), COLORS.BRIGHT_CYAN, true)}. ${path.basename(file)} ${colorText(`(${size} bytes)`, COLORS.GRAY)}`);
+    });
+    console.log('');
+    return;
+  }
+
+  if (command === 'restore') {
+    const backups = listBackups(dataFile);
+    const index = args[1] === 'latest' ? 0 : parseInt(args[1], 10) - 1;
+    const backupFile = /^\d+$/.test(args[1]) || args[1] === 'latest'
+      ? backups[index]
+      : backups.find(file => path.basename(file) === path.basename(args[1]));
+    if (!backupFile) {
+      console.error(`Error: Backup '${args[1]}' not found. See ./damm-pnl backups`);
+      process.exit(1);
+    }
+    
+    const content = fs.readFileSync(backupFile, 'utf8');
+    try {
+      JSON.parse(content);
+    } catch (error) {
+      console.error(`Error: Backup ${path.basename(backupFile)} is not valid JSON either: ${error}`);
       process.exit(1);
     }
     
-    const token = args[1].toLowerCase();
-    const feesToClaimUSD = parseFloat(args[2]);
+    // Keep the current file: as a regular backup if readable, otherwise aside as .corrupt
+    if (fs.existsSync(dataFile)) {
+      try {
+        JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+        backupDataFile(dataFile);
+      } catch {
+        const corruptFile = `${dataFile}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+        fs.renameSync(dataFile, corruptFile);
+        console.log(colorText(`Moved unreadable file to ${corruptFile}`, COLORS.GRAY));
+      }
+    }
+    writeFileAtomic(dataFile, content);
+    console.log(colorText(`✅ Restored portfolio '${activePortfolio}' from ${path.basename(backupFile)}`, COLORS.BRIGHT_GREEN));
+    return;
+  }
+
+  if (command === 'migrate') {
+    if (!fs.existsSync(dataFile)) {
+      console.log(colorText(`Portfolio '${activePortfolio}' has no data file yet; nothing to migrate.`, COLORS.GRAY));
+      return;
+    }
     
-    if (isNaN(feesToClaimUSD)) {
-      console.error(`Error: Fees claimed must be a number, got '${args[2]}'`);
-      process.exit(1);
+    const file = readDataFile(dataFile);
+    const steps = migrationsAfter(file.version);
+    if (steps.length === 0) {
+      console.log(colorText(`Portfolio '${activePortfolio}' is at schema version ${file.version}; nothing to migrate.`, COLORS.BRIGHT_GREEN));
+      return;
+    }
+    
+    console.log(`\n${colorText(`Schema migration for '${activePortfolio}':`, COLORS.BOLD + COLORS.WHITE)} ${colorText(`v${file.version} -> v${SCHEMA_VERSION}`, COLORS.BRIGHT_CYAN, true)}`);
+    console.log(colorText('='.repeat(60), COLORS.CYAN));
+    
+    // Run each step on a copy and show what it changes, position by position
+    let current: Record<string, RawPosition> = JSON.parse(JSON.stringify(file.positions));
+    for (const step of steps) {
+      const before: RawPosition[] = Object.values(JSON.parse(JSON.stringify(current)));
+      current = step.migrate(current);
+      const after = Object.values(current);
+      
+      console.log(`${colorText(`v${step.version}`, COLORS.BRIGHT_CYAN, true)} ${colorText(step.description, COLORS.WHITE)}`);
+      let changed = 0;
+      after.forEach((pos, index) => {
+        const changes = diffPosition(before[index], pos);
+        if (changes.length === 0) return;
+        changed++;
+        console.log(`  ${colorText(pos.id || String(index), COLORS.BRIGHT_YELLOW)}`);
+        changes.forEach(change => console.log(`    ${colorText(change, COLORS.GRAY)}`));
+      });
+      if (changed === 0) {
+        console.log(`  ${colorText('no changes', COLORS.GRAY)}`);
+      }
+    }
+    console.log('');
+    
+    if (dryRun) {
+      console.log(colorText('Dry run - nothing was written. Run without --dry-run to apply.', COLORS.BRIGHT_YELLOW));
+      return;
     }
     
-    if (feesToClaimUSD <= 0) {
-      console.error(`Error: Fees claimed must be positive, got '${feesToClaimUSD}'`);
+    savePositions(loadPositions(dataFile), dataFile);
+    console.log(colorText(`✅ Migrated '${activePortfolio}' to schema version ${SCHEMA_VERSION} (previous version kept in backups)`, COLORS.BRIGHT_GREEN));
+    return;
+  }
+
+  // Journal every save made by a mutating command so it can be undone
+  if (!UNLOCKED_COMMANDS.has(command) && command !== 'undo' && command !== 'redo') {
+    journalCommands.set(dataFile, commandLine);
+  }
+  const positions = loadPositions(dataFile);
+  
+  const pendingSteps = pendingMigrations.get(dataFile);
+  if (pendingSteps) {
+    console.error(colorText(`ℹ️  Portfolio '${activePortfolio}' uses an older schema; upgraded in memory to v${SCHEMA_VERSION} (${pendingSteps.length} migration step(s)). Review with ./damm-pnl migrate --dry-run`, COLORS.GRAY));
+  }
+
+  if (command === 'journal') {
+    const journal = loadJournal(dataFile);
+    if (journal.entries.length === 0) {
+      console.log(colorText(`No journaled changes for portfolio '${activePortfolio}'.`, COLORS.GRAY));
+      return;
+    }
+    console.log(`\n${colorText(`Journal of '${activePortfolio}':`, COLORS.BOLD + COLORS.WHITE)} ${colorText(`(newest first, last ${JOURNAL_LIMIT} kept)`, COLORS.GRAY)}`);
+    console.log(colorText('='.repeat(60), COLORS.CYAN));
+    [...journal.entries].reverse().forEach(entry => {
+      const date = new Date(entry.timestamp).toLocaleString();
+      const status = entry.undone ? colorText(' [undone]', COLORS.BRIGHT_YELLOW) : '';
+      console.log(`${colorText(`#${entry.id}`, COLORS.BRIGHT_CYAN, true)} ${colorText(date, COLORS.GRAY)} ${colorText(entry.command, COLORS.WHITE)}${status}`);
+      const changes = summarizeBookChanges(journalSide(entry, 'before'), journalSide(entry, 'after'));
+      if (changes.length === 0) {
+        console.log(`    ${colorText('no changes', COLORS.GRAY)}`);
+      }
+      changes.forEach(change => console.log(`    ${colorText(change, COLORS.GRAY)}`));
+    });
+    console.log('');
+    return;
+  }
+
+  if (command === 'undo' || command === 'redo') {
+    const journal = loadJournal(dataFile);
+    const entry = command === 'undo'
+      ? [...journal.entries].reverse().find(e => !e.undone)
+      : journal.entries.find(e => e.undone);
+    if (!entry) {
+      console.error(`Error: Nothing to ${command} in portfolio '${activePortfolio}'.`);
       process.exit(1);
     }
     
-    const position = findActivePosition(positions, token);
-    if (!position) {
-      console.error(`No active position for ${token.toUpperCase()} found. Create a position first.`);
+    // Refuse to overwrite changes made outside the journal (restore, hand
+    // edits) to the positions the entry touched
+    const expected = journalSide(entry, command === 'undo' ? 'after' : 'before');
+    const current: Record<string, Position> = {};
+    Object.keys(entry.changes).forEach(id => {
+      if (positions[id]) current[id] = positions[id];
+    });
+    const target = applyJournalSide(positions, entry, command === 'undo' ? 'before' : 'after');
+    const drift = summarizeBookChanges(expected, current);
+    if (drift.length > 0 && !force) {
+      console.error(`Error: Portfolio '${activePortfolio}' has changed since #${entry.id} (${entry.command}):`);
+      drift.forEach(change => console.error(`  ${change}`));
+      console.error(`Run ./damm-pnl ${command} --force to ${command} anyway.`);
       process.exit(1);
     }
     
-    // Add the fees to the position
-    position.fees_claimed_usd += feesToClaimUSD;
-    position.last_updated = new Date().toISOString();
+    savePositions(target, dataFile);
+    entry.undone = command === 'undo';
+    saveJournal(dataFile, journal);
     
-    savePositions(positions);
-    console.log(colorText(`💰 Claimed $${feesToClaimUSD.toFixed(2)} in fees for ${token.toUpperCase()}`, COLORS.BRIGHT_GREEN));
-    console.log(`${colorText('Total fees claimed:', COLORS.GRAY)} ${formatUSDNeutral(position.fees_claimed_usd)}`);
+    const verb = command === 'undo' ? 'Undid' : 'Redid';
+    console.log(colorText(`✅ ${verb} #${entry.id}: ${entry.command}`, COLORS.BRIGHT_GREEN));
+    summarizeBookChanges(positions, target).forEach(change => console.log(`  ${colorText(change, COLORS.GRAY)}`));
     return;
   }
 
-  if (command === 'add-capital') {
-    if (args.length < 3) {
-      console.error('Usage: ./damm-pnl add-capital <token_name> <additional_capital_usd>');
+  if (command === 'portfolio') {
+    const subcommand = (args[1] || 'list').toLowerCase();
+    const config = loadConfig();
+    
+    if (subcommand === 'list') {
+      const names = listPortfolios();
+      if (!names.includes(DEFAULT_PORTFOLIO)) {
+        names.unshift(DEFAULT_PORTFOLIO);
+      }
+      console.log(`\n${colorText('Portfolios:', COLORS.BOLD + COLORS.WHITE)} ${colorText(`(${getHomeDir()})`, COLORS.GRAY)}`);
+      console.log(colorText('===========', COLORS.CYAN));
+      names.forEach(name => {
+        const book = loadPositions(portfolioFile(name));
+        const active = Object.values(book).filter(pos => !pos.is_closed).length;
+        const closed = Object.values(book).length - active;
+        const marker = name === activePortfolio ? colorText('*', COLORS.BRIGHT_GREEN, true) : ' ';
+        console.log(`${marker} ${colorText(name, COLORS.BRIGHT_CYAN, true)} ${colorText(`(${active} active, ${closed} closed)`, COLORS.GRAY)}`);
+      });
+      console.log('');
+      return;
+    }
+    
+    const name = args[2];
+    if (!name || (subcommand !== 'create' && subcommand !== 'switch')) {
+      console.error('Usage: ./damm-pnl portfolio list|create <name>|switch <name>');
+      process.exit(1);
+    }
+    if (!PORTFOLIO_NAME_PATTERN.test(name)) {
+      console.error(`Error: Invalid portfolio name '${name}' (use letters, digits, '-' and '_')`);
       process.exit(1);
     }
     
-    const token = args[1].toLowerCase();
-    const additionalCapital = parseFloat(args[2]);
+    if (subcommand === 'create') {
+      if (fs.existsSync(portfolioFile(name))) {
+        console.error(`Error: Portfolio '${name}' already exists.`);
+        process.exit(1);
+      }
+      savePositions({}, portfolioFile(name));
+      console.log(colorText(`✅ Created portfolio '${name}'`, COLORS.BRIGHT_GREEN));
+      console.log(colorText(`💡 Switch to it with: ./damm-pnl portfolio switch ${name}`, COLORS.GRAY));
+      return;
+    }
     
-    if (isNaN(additionalCapital)) {
-      console.error(`Error: Additional capital must be a number, got '${args[2]}'`);
+    if (name !== DEFAULT_PORTFOLIO && !fs.existsSync(portfolioFile(name))) {
+      console.error(`Error: Portfolio '${name}' does not exist. Create it with: ./damm-pnl portfolio create ${name}`);
       process.exit(1);
     }
-    
-    if (additionalCapital <= 0) {
-      console.error(`Error: Additional capital must be positive, got '${additionalCapital}'`);
+    config.portfolio = name;
+    saveConfig(config);
+    console.log(colorText(`✅ Switched to portfolio '${name}'`, COLORS.BRIGHT_GREEN));
+    return;
+  }
+
+  if (command === 'list') {
+    const book = Object.fromEntries(Object.entries(positions).filter(([, pos]) => hasAnyTag(pos, tagFilter)));
+    if (format !== 'table') {
+      const activePositions = Object.values(book).filter(pos => !pos.is_closed);
+      printReport(format, 'positions', activePositions.map(toActivePositionRow));
+      return;
+    }
+    listAllPositions(book, groupByTag);
+    return;
+  }
+
+  if (command === 'closed') {
+    const book = Object.fromEntries(Object.entries(positions).filter(([, pos]) => hasAnyTag(pos, tagFilter)));
+    if (format !== 'table') {
+      const solPrice = await getSOLPriceUSD();
+      const closedPositions = Object.values(book).filter(pos => pos.is_closed)
+        .sort((a, b) => new Date(b.closed_at!).getTime() - new Date(a.closed_at!).getTime());
+      printReport(format, 'closed_positions', closedPositions.map(pos => toClosedPositionRow(pos, solPrice)));
+      return;
+    }
+    await listClosedPositions(book, groupByTag);
+    return;
+  }
+
+  if (command === 'fees') {
+    // Optional token/position selector; covers active and closed positions
+    const selector = args[1];
+    const book = selector ? matchPositions(Object.values(positions), selector) : Object.values(positions);
+    if (selector && book.length === 0) {
+      console.error(`No position for ${selector.toUpperCase()} found.`);
       process.exit(1);
     }
+    if (format !== 'table') {
+      printReport(format, 'fees', buildFeeReport(book));
+      return;
+    }
+    showFeeReport(book);
+    return;
+  }
+
+  if (command === 'serve') {
+    await servePositions(hostFlag, port);
+    return;
+  }
+
+  if (command === 'tui') {
+    await runTui(sortFlag, staleAfterHours, priceOverride);
+    return;
+  }
+
+  if (command === 'dashboard') {
+    const book = Object.values(positions).filter(pos => hasAnyTag(pos, tagFilter));
+    const rows = await buildDashboard(book, positions, sortFlag, reverseSort, staleAfterHours, activePortfolio);
+    if (format !== 'table') {
+      printReport(format, 'dashboard', rows);
+      return;
+    }
+    await showDashboard(rows, positions, sortFlag, staleAfterHours);
+    return;
+  }
+
+  if (command === 'tax-report') {
+    const rows = buildTaxReport(Object.values(positions), taxYear, costBasisMethod);
+    if (format !== 'table') {
+      printReport(format, 'tax_report', rows);
+      return;
+    }
+    showTaxReport(rows, taxYear, costBasisMethod);
+    return;
+  }
+
+  if (command === 'summary') {
+    // --all-portfolios aggregates the closed positions of every portfolio
+    let book = positions;
+    if (allPortfolios) {
+      book = {};
+      for (const name of listPortfolios()) {
+        Object.assign(book, loadPositions(portfolioFile(name)));
+      }
+    }
     
-    const position = findActivePosition(positions, token);
-    if (!position) {
-      console.error(`No active position for ${token.toUpperCase()} found. Create a position first.`);
+    if (format !== 'table') {
+      const solPrice = await getSOLPriceUSD();
+      if (hasSummaryOptions(summaryOptions)) {
+        const closedPositions = filterClosedPositions(Object.values(book), summaryOptions);
+        printReport(format, 'summary', buildGroupedSummary(closedPositions, summaryOptions, solPrice));
+        return;
+      }
+      const closedPositions = Object.values(book).filter(pos => pos.is_closed);
+      printReport(format, 'summary', buildSummaryPeriods(closedPositions, solPrice));
+      return;
+    }
+    if (allPortfolios) {
+      console.log(colorText(`Portfolios: ${listPortfolios().join(', ')}`, COLORS.GRAY));
+    }
+    if (hasSummaryOptions(summaryOptions)) {
+      await showFilteredSummary(book, summaryOptions);
+    } else {
+      await showSummary(book);
+    }
+    return;
+  }
+
+  if (command === 'watch') {
+    await watchPositions(watchInterval, solMove, once);
+    return;
+  }
+
+  if (command === 'suggest') {
+    // Optional token/position selector over the active positions
+    const selector = args[1];
+    const active = Object.values(positions).filter(pos => !pos.is_closed);
+    const book = selector ? matchPositions(active, selector) : active;
+    if (selector && book.length === 0) {
+      console.error(`No active position for ${selector.toUpperCase()} found.`);
       process.exit(1);
     }
-    
-    // Initialize fields if they don't exist (backward compatibility)
-    if (position.capital_additions_usd === undefined) {
-      position.capital_additions_usd = 0;
+    if (format !== 'table') {
+      // The rule trace is nested, so CSV gets the flat columns only
+      printReport(format, 'suggestions', await buildSuggestionReport(book, positions, explain && format === 'json', activePortfolio));
+      return;
     }
-    if (position.withdrawn_usd === undefined) {
-      position.withdrawn_usd = 0;
+    await showSuggestions(book, positions, explain);
+    return;
+  }
+
+  if (command === 'show') {
+    // Read-only position view at the latest recorded value
+    const selector = args[1];
+    const position = selectActivePosition(positions, selector);
+    if (!position) {
+      console.error(`No active position for ${selector.toUpperCase()} found.`);
+      process.exit(1);
     }
     
-    // Add the capital
-    position.capital_additions_usd += additionalCapital;
-    // Update total invested: initial + additions (withdrawals don't change this)
-    position.total_invested_usd = position.initial_value_usd + position.capital_additions_usd;
-    position.last_updated = new Date().toISOString();
-    
-    savePositions(positions);
-    console.log(colorText(`💰 Added $${additionalCapital.toFixed(2)} capital to ${token.toUpperCase()}`, COLORS.BRIGHT_GREEN));
-    console.log(`${colorText('Total invested:', COLORS.GRAY)} ${formatUSDNeutral(position.total_invested_usd)} ${colorText('(initial:', COLORS.GRAY)} ${formatUSDNeutral(position.initial_value_usd)} ${colorText('+ additions:', COLORS.GRAY)} ${formatUSDNeutral(position.capital_additions_usd)}${colorText(')', COLORS.GRAY)}`);
+    const currentValueUSD = position.current_value_usd ?? position.initial_value_usd;
+    if (format !== 'table') {
+      printReport(format, 'position', await buildPositionReport(position, currentValueUSD, positions, activePortfolio));
+      return;
+    }
+    await displayPositionInfo(positionName(position), position, currentValueUSD, positions);
     return;
   }
 
-  if (command === 'withdraw') {
-    if (args.length < 3) {
-      console.error('Usage: ./damm-pnl withdraw <token_name> <amount_usd>');
+  if (command === 'set-price') {
+    if (args[1].toUpperCase() !== 'SOL') {
+      console.error(`Error: Only SOL prices are supported, got '${args[1]}'`);
       process.exit(1);
     }
     
-    const token = args[1].toLowerCase();
-    const amountToTake = parseFloat(args[2]);
-    
-    if (isNaN(amountToTake)) {
-      console.error(`Error: Amount must be a number, got '${args[2]}'`);
+    const price = parseFloat(args[2]);
+    if (isNaN(price) || price <= 0) {
+      console.error(`Error: Price must be a positive number, got '${args[2]}'`);
       process.exit(1);
     }
     
-    if (amountToTake <= 0) {
-      console.error(`Error: Amount must be positive, got '${amountToTake}'`);
-      process.exit(1);
+    saveManualPrice(price);
+    console.log(colorText(`✅ Manual SOL price set to $${price.toFixed(2)}`, COLORS.BRIGHT_GREEN));
+    return;
+  }
+
+  if (command === 'price') {
+    // Show what every configured provider reports, and which quote is used
+    for (const provider of getPriceProviders()) {
+      const quote = await provider.getQuote();
+      if (quote) {
+        const age = formatAge(new Date(quote.timestamp).toISOString());
+        console.log(`${colorText(provider.name.padEnd(10), COLORS.BRIGHT_CYAN, true)} ${colorText(`$${quote.price.toFixed(2)}`, COLORS.BRIGHT_YELLOW, true)} ${colorText(`(${quote.source}, ${age})`, COLORS.GRAY)}${quote.stale ? ' ' + colorText('STALE', COLORS.BRIGHT_RED, true) : ''}`);
+      } else {
+        console.log(`${colorText(provider.name.padEnd(10), COLORS.BRIGHT_CYAN, true)} ${colorText('no price', COLORS.GRAY)}`);
+      }
     }
     
-    const position = findActivePosition(positions, token);
-    if (!position) {
-      console.error(`No active position for ${token.toUpperCase()} found.`);
+    const quote = await getSOLPriceQuote();
+    console.log('');
+    if (quote) {
+      console.log(`${colorText('Using:', COLORS.WHITE)} ${colorText(`$${quote.price.toFixed(2)}`, COLORS.BRIGHT_CYAN, true)} ${colorText(`from ${quote.source}`, COLORS.GRAY)}`);
+    }
+    await warnIfPriceUnreliable();
+    return;
+  }
+
+  if (command === 'events' || command === 'history') {
+    const selector = args[1];
+    const position = selectActivePosition(positions, selector);
+    const closedPositions = matchPositions(Object.values(positions).filter(pos => pos.is_closed), selector)
+      .sort((a, b) => new Date(b.closed_at!).getTime() - new Date(a.closed_at!).getTime());
+    
+    // Show the active position, or the most recently closed one
+    const target = position || closedPositions[0];
+    if (!target) {
+      console.error(`No position for ${selector.toUpperCase()} found.`);
       process.exit(1);
     }
     
-    // Initialize fields if they don't exist (backward compatibility)
-    if (position.capital_additions_usd === undefined) {
-      position.capital_additions_usd = 0;
+    if (command === 'history') {
+      showValueHistory(target);
+    } else {
+      showEventLedger(target);
     }
-    if (position.withdrawn_usd === undefined) {
-      position.withdrawn_usd = 0;
+    return;
+  }
+
+  if (command === 'clean') {
+    // Clean up positions with unrealistic values (likely stored incorrectly)
+    const cleanedPositions: Record<string, Position> = {};
+    let cleanedCount = 0;
+    
+    for (const [key, position] of Object.entries(positions)) {
+      // Skip positions with unrealistic initial values 
+      const initialValue = position.initial_value_usd || (position as any).initial_value || 0;
+      if (initialValue > 10000) { // More than $10,000 is likely incorrect data
+        console.log(colorText(`🗑️  Removed ${key.toUpperCase()} with unrealistic value: $${initialValue.toFixed(2)}`, COLORS.YELLOW));
+        cleanedCount++;
+      } else {
+        cleanedPositions[key] = position;
+      }
     }
     
-    // Total invested stays constant: initial + additions
-    const totalInvested = position.initial_value_usd + position.capital_additions_usd;
+    savePositions(cleanedPositions, dataFile);
+    console.log(colorText(`✅ Cleaned ${cleanedCount} positions with incorrect data`, COLORS.BRIGHT_GREEN));
+    
+    if (Object.keys(cleanedPositions).length > 0) {
+      console.log('\nRemaining positions:');
+      listAllPositions(cleanedPositions);
+    }
+    return;
+  }
+
+
+  if (command === 'meta' || command === 'tag' || command === 'note') {
+    // Metadata can be edited on closed positions too
+    const position = book.get(args[1], true);
+    const change: PositionMetaChange = {};
     
-    // Update the position - simple withdrawal
-    position.withdrawn_usd += amountToTake;
-    position.total_invested_usd = totalInvested;
-    position.last_updated = new Date().toISOString();
+    if (command === 'meta') {
+      if (poolFlag !== undefined) {
+        change.pool_address = poolFlag;
+      }
+      if (pairFlag !== undefined) {
+        change.pair = pairFlag;
+      }
+      if (feeTierFlag !== undefined) {
+        const feeTier = parseFloat(feeTierFlag.replace(/%$/, ''));
+        if (isNaN(feeTier)) {
+          console.error(`Error: --fee-tier must be a percentage like 0.25 or 1%, got '${feeTierFlag}'`);
+          process.exit(1);
+        }
+        change.fee_tier_percentage = feeTier;
+      }
+      for (const field of (unsetFlag || '').split(',').map(field => field.trim().toLowerCase()).filter(Boolean)) {
+        if (!META_FIELDS.includes(field)) {
+          console.error(`Error: --unset takes ${META_FIELDS.join(', ')}, got '${field}'`);
+          process.exit(1);
+        }
+        if (field === 'pool') change.pool_address = null;
+        if (field === 'pair') change.pair = null;
+        if (field === 'fee-tier') change.fee_tier_percentage = null;
+      }
+    } else if (command === 'tag') {
+      const tags = normalizeTags(args.slice(2));
+      const current = position.tags || [];
+      if (tags.length > 0) {
+        change.tags = removeTags ? current.filter(tag => !tags.includes(tag)) : [...new Set([...current, ...tags])];
+      }
+    } else {
+      const text = args.slice(2).join(' ').trim();
+      if (clearNote) {
+        change.notes = null;
+      } else if (text) {
+        change.notes = appendNote && position.notes ? `${position.notes}\n${text}` : text;
+      }
+    }
     
-    savePositions(positions);
+    const updated = Object.keys(change).length > 0 ? await book.setMeta(position.id, change) : position;
+    if (JSON.stringify(updated) !== JSON.stringify(position)) {
+      console.log(colorText(`✅ Updated ${positionName(updated)} #${positionShortId(updated)}`, COLORS.BRIGHT_GREEN));
+    } else {
+      console.log(`${colorText(positionName(updated), COLORS.BRIGHT_CYAN, true)} ${colorText(`#${positionShortId(updated)}${updated.is_closed ? ' (closed)' : ''}`, COLORS.GRAY)}`);
+    }
+    if (formatPositionMeta(updated) || updated.notes) {
+      showPositionMeta(updated);
+    } else {
+      console.log(colorText('No metadata set. Add it with meta, tag and note.', COLORS.GRAY));
+    }
+    return;
+  }
+
+  if (command === 'remove') {
+    const position = await book.remove(args[1]);
+    console.log(colorText(`✅ Active position for ${positionName(position)} has been removed.`, COLORS.BRIGHT_GREEN));
+    console.log(colorText('💡 Changed your mind? ./damm-pnl undo restores it.', COLORS.GRAY));
     
-    console.log(colorText(`💰 Withdrew $${amountToTake.toFixed(2)} from ${token.toUpperCase()}`, COLORS.BRIGHT_GREEN));
-    console.log(`${colorText('Total invested (unchanged):', COLORS.GRAY)} ${formatUSDNeutral(totalInvested)}`);
-    console.log(`${colorText('Total withdrawn:', COLORS.GRAY)} ${formatUSDValue(position.withdrawn_usd)}`);
+    const closedPositions = findClosedPositions(book.load(), position.token);
+    if (closedPositions.length > 0) {
+      console.log(colorText(`💡 Note: You still have ${closedPositions.length} closed position(s) for ${position.token.toUpperCase()}.`, COLORS.GRAY));
+    }
     return;
   }
 
-  if (command === 'close') {
-    if (args.length < 3) {
-      console.error('Usage: ./damm-pnl close <token_name> <exit_value_usd> [final_fees_usd]');
+  if (command === 'reset') {
+    const newInitialValue = parseFloat(args[2]);
+    if (isNaN(newInitialValue)) {
+      console.error(`Error: New initial value must be a number, got '${args[2]}'`);
       process.exit(1);
     }
     
-    const token = args[1].toLowerCase();
-    const exitValueUSD = parseFloat(args[2]);
-    let finalFeesUSD = 0;
+    const position = book.get(args[1]);
+    await book.reset(position.id, newInitialValue);
+    console.log(colorText(`✅ Active position for ${positionName(position)} has been reset.`, COLORS.BRIGHT_GREEN));
+    const oldValue = position.initial_value_usd || 0;
+    console.log(`${colorText('Old initial value:', COLORS.GRAY)} ${formatUSDNeutral(oldValue)} ${colorText('->', COLORS.GRAY)} ${formatUSDNeutral(newInitialValue)}`);
+    console.log(colorText('💡 Changed your mind? ./damm-pnl undo restores the old position.', COLORS.GRAY));
+    return;
+  }
+
+  if (command === 'import') {
+    const rows = readImportFile(args[1], parseImportColumns(columnsFlag ?? loadConfig().import_columns));
+    if (rows.length === 0) {
+      console.log(colorText(`No rows found in ${args[1]}.`, COLORS.GRAY));
+      return;
+    }
+    
+    const results = await applyImport(positions, rows, priceOverride);
+    showImportResults(results);
+    
+    const count = (status: ImportResult['status']) => results.filter(result => result.status === status).length;
+    const errors = count('error');
+    if (errors > 0) {
+      console.error(`Error: ${errors} row(s) cannot be imported; nothing was written. Fix them (or --columns) and run again.`);
+      process.exit(1);
+    }
+    if (dryRun) {
+      console.log(colorText(`Dry run - ${count('imported')} row(s) would be imported, ${count('duplicate')} already imported. Run without --dry-run to apply.`, COLORS.BRIGHT_YELLOW));
+      return;
+    }
     
-    if (args.length >= 4) {
-      finalFeesUSD = parseFloat(args[3]);
-      if (isNaN(finalFeesUSD)) {
-        console.error(`Error: Final fees must be a number, got '${args[3]}'`);
+    savePositions(positions, dataFile);
+    console.log(colorText(`✅ Imported ${count('imported')} row(s) into portfolio '${activePortfolio}' (${count('duplicate')} already imported, skipped)`, COLORS.BRIGHT_GREEN));
+    const unrated = results.filter(result => result.status === 'imported' && !result.row.values.sol_price).length;
+    if (unrated > 0 && priceOverride === undefined) {
+      console.log(colorText(`💡 ${unrated} row(s) had no SOL price and were recorded without a SOL rate.`, COLORS.GRAY));
+    }
+    return;
+  }
+
+  if (command === 'ingest-tx') {
+    const actions: DammAction[] = [];
+    for (const tx of readTransactionFile(args[1])) {
+      const signature = tx.transaction.signatures?.[0] || '?';
+      if (tx.meta.err) {
+        console.error(colorText(`⚠️  Skipping failed transaction ${signature}`, COLORS.BRIGHT_YELLOW));
+        continue;
+      }
+      try {
+        actions.push(...decodeDammTransaction(tx));
+      } catch (error) {
+        console.error(`Error: Cannot decode transaction ${signature}: ${error instanceof Error ? error.message : error}`);
         process.exit(1);
       }
     }
+    if (actions.length === 0) {
+      console.log(colorText(`No Meteora DAMM instructions found in ${args[1]}.`, COLORS.GRAY));
+      return;
+    }
+    
+    const results = await applyDammActions(positions, actions, args[2], priceOverride, tokenPrice);
+    showIngestResults(results);
     
-    if (isNaN(exitValueUSD)) {
-      console.error(`Error: Exit value must be a number, got '${args[2]}'`);
+    const count = (status: IngestResult['status']) => results.filter(result => result.status === status).length;
+    const errors = count('error');
+    if (errors > 0) {
+      console.error(`Error: ${errors} instruction(s) cannot be ingested; nothing was written.`);
       process.exit(1);
     }
+    const estimated = results.filter(result => result.status === 'imported' && result.estimated).length;
+    if (estimated > 0) {
+      console.error(colorText(`⚠️  ${estimated} event(s) (est.) count the unpriced token at the value of the priced one. Use --token-price <usd> to value it.`, COLORS.BRIGHT_YELLOW));
+    }
+    if (dryRun) {
+      console.log(colorText(`Dry run - ${count('imported')} event(s) would be recorded, ${count('duplicate')} already imported. Run without --dry-run to apply.`, COLORS.BRIGHT_YELLOW));
+      return;
+    }
+    if (count('imported') === 0) {
+      console.log(colorText('Nothing new to record.', COLORS.GRAY));
+      return;
+    }
     
-    if (exitValueUSD <= 0) {
-      console.error(`Error: Exit value must be positive, got '${exitValueUSD}'`);
+    savePositions(positions, dataFile);
+    console.log(colorText(`✅ Recorded ${count('imported')} event(s) in portfolio '${activePortfolio}' (${count('duplicate')} already imported, skipped)`, COLORS.BRIGHT_GREEN));
+    const unrated = results.filter(result => result.status === 'imported' && result.sol_price_usd === null).length;
+    if (unrated > 0) {
+      console.error(colorText(`⚠️  ${unrated} event(s) had no SOL price at block time and were recorded without a SOL rate. Use --price <usd> to record one.`, COLORS.BRIGHT_YELLOW));
+    }
+    return;
+  }
+
+  // Fees as the optional argument after the amount or as --fees, not both
+  const feesArgument = (index: number, what: string): number => {
+    if (args[index] !== undefined && feesFlag !== undefined) {
+      console.error(`Error: Give ${what.toLowerCase()} as an argument or with --fees, not both`);
       process.exit(1);
     }
-    
-    const position = findActivePosition(positions, token);
-    if (!position) {
-      console.error(`No active position for ${token.toUpperCase()} found.`);
+    const raw = args[index] ?? feesFlag;
+    if (raw === undefined) return 0;
+    const fees = parseFloat(raw);
+    if (isNaN(fees) || fees < 0) {
+      console.error(`Error: ${what} must be zero or more, got '${raw}'`);
       process.exit(1);
     }
-    
-    // Initialize fields if they don't exist (backward compatibility)
-    if (position.capital_additions_usd === undefined) {
-      position.capital_additions_usd = 0;
+    return fees;
+  };
+
+  if (command === 'claim-fee') {
+    const { amount: feesToClaimUSD, error } = parseAmount(args[2], 'Fees claimed');
+    if (error) {
+      console.error(`Error: ${error}`);
+      process.exit(1);
     }
-    if (position.withdrawn_usd === undefined) {
-      position.withdrawn_usd = 0;
+    
+    const position = await book.claimFee(args[1], feesToClaimUSD, event);
+    console.log(colorText(`💰 Claimed $${feesToClaimUSD.toFixed(2)} in fees for ${positionName(position)}`, COLORS.BRIGHT_GREEN));
+    console.log(`${colorText('Total fees claimed:', COLORS.GRAY)} ${formatUSDNeutral(position.fees_claimed_usd)}`);
+    return;
+  }
+
+  if (command === 'add-capital') {
+    const { amount: additionalCapital, error } = parseAmount(args[2], 'Additional capital');
+    if (error) {
+      console.error(`Error: ${error}`);
+      process.exit(1);
     }
     
-    // Add final fees to total fees claimed
-    position.fees_claimed_usd += finalFeesUSD;
+    // Total invested becomes initial + additions
+    const position = await book.addCapital(args[1], additionalCapital, event);
+    console.log(colorText(`💰 Added $${additionalCapital.toFixed(2)} capital to ${positionName(position)}`, COLORS.BRIGHT_GREEN));
+    console.log(`${colorText('Total invested:', COLORS.GRAY)} ${formatUSDNeutral(position.total_invested_usd!)} ${colorText('(initial:', COLORS.GRAY)} ${formatUSDNeutral(position.initial_value_usd)} ${colorText('+ additions:', COLORS.GRAY)} ${formatUSDNeutral(position.capital_additions_usd!)}${colorText(')', COLORS.GRAY)}`);
+    return;
+  }
+
+  if (command === 'withdraw') {
+    const { amount: amountToTake, error } = parseAmount(args[2], 'Amount');
+    if (error) {
+      console.error(`Error: ${error}`);
+      process.exit(1);
+    }
     
-    // Calculate final PNL using simplified logic
-    const totalInvested = position.initial_value_usd + position.capital_additions_usd; // Total capital invested
-    const withdrawn = position.withdrawn_usd || 0; // Total withdrawn
-    const totalValueUSD = exitValueUSD + withdrawn + position.fees_claimed_usd; // Total value received
-    const finalTotalPnlUSD = totalValueUSD - totalInvested; // Total return minus total invested
-    const finalPnlPercentage = totalInvested > 0 ? (finalTotalPnlUSD / totalInvested) * 100 : 0;
+    // Total invested stays constant: initial + additions
+    const position = await book.withdraw(args[1], amountToTake, event);
     
-    // Mark position as closed
-    const now = new Date().toISOString();
-    position.closed_at = now;
-    position.exit_value_usd = exitValueUSD;
-    position.final_pnl_usd = finalTotalPnlUSD;
-    position.final_pnl_percentage = finalPnlPercentage;
-    position.total_invested_usd = totalInvested; // Store total invested amount
-    position.is_closed = true;
-    position.last_updated = now;
+    console.log(colorText(`💰 Withdrew $${amountToTake.toFixed(2)} from ${positionName(position)}`, COLORS.BRIGHT_GREEN));
+    console.log(`${colorText('Total invested (unchanged):', COLORS.GRAY)} ${formatUSDNeutral(position.total_invested_usd!)}`);
+    console.log(`${colorText('Total withdrawn:', COLORS.GRAY)} ${formatUSDValue(position.withdrawn_usd!)}`);
+    return;
+  }
+
+  if (command === 'close') {
+    const { amount: exitValueUSD, error } = parseAmount(args[2], 'Exit value');
+    if (error) {
+      console.error(`Error: ${error}`);
+      process.exit(1);
+    }
+    const finalFeesUSD = feesArgument(3, 'Final fees');
     
-    savePositions(positions);
+    const position = await book.close(args[1], exitValueUSD, finalFeesUSD, event);
+    const now = position.closed_at!;
+    const totalInvested = position.total_invested_usd!;
+    const finalTotalPnlUSD = position.final_pnl_usd!;
+    const finalPnlPercentage = position.final_pnl_percentage!;
     
     // Display final position summary
-    console.log(colorText(`🏁 Position ${token.toUpperCase()} CLOSED`, COLORS.BRIGHT_MAGENTA, true));
+    console.log(colorText(`🏁 Position ${positionName(position)} CLOSED`, COLORS.BRIGHT_MAGENTA, true));
     console.log(`${colorText('Exit Value:', COLORS.WHITE)} ${formatUSDNeutral(exitValueUSD)}`);
     if (finalFeesUSD > 0) {
       console.log(`${colorText('Final Fees:', COLORS.WHITE)} ${formatUSDNeutral(finalFeesUSD)}`);
@@ -1177,56 +4417,80 @@ async function main(): Promise<void> {
     return;
   }
 
-  const token = command;
-  if (args.length < 2) {
-    console.error('Usage: ./damm-pnl <token_name> <current_position_value_usd> [fees_claimed_usd]');
-    process.exit(1);
-  }
-
-  const currentValueUSD = parseFloat(args[1]);
-  
-  if (isNaN(currentValueUSD)) {
-    console.error(`Error: Current position value must be a number, got '${args[1]}'`);
-    process.exit(1);
-  }
-
-  let feesToAddUSD = 0;
-  if (args.length >= 3) {
-    feesToAddUSD = parseFloat(args[2]);
-    if (isNaN(feesToAddUSD)) {
-      console.error(`Error: Fees claimed must be a number, got '${args[2]}'`);
+  let position: Position;
+  let currentValueUSD: number;
+  if (command === 'open') {
+    const token = args[1].toLowerCase();
+    const { amount, error } = parseAmount(args[2], 'Position value');
+    if (error) {
+      console.error(`Error: ${error}`);
       process.exit(1);
     }
-  }
-
-  let position = findActivePosition(positions, token);
-  
-  if (!position) {
+    currentValueUSD = amount;
+    
     // Check if user is trying to re-enter a token they previously had
     const closedPositions = findClosedPositions(positions, token);
     if (closedPositions.length > 0) {
-      console.log(colorText(`💡 Note: You have ${closedPositions.length} closed position(s) for ${token.toUpperCase()}. Creating new position.`, COLORS.BRIGHT_YELLOW));
+      notify(colorText(`💡 Note: You have ${closedPositions.length} closed position(s) for ${token.toUpperCase()}. Creating new position.`, COLORS.BRIGHT_YELLOW));
     }
     
-    position = await initializePosition(token, currentValueUSD);
-    positions[position.id] = position;
-    console.log(colorText(`🚀 New position created for ${token.toUpperCase()}`, COLORS.BRIGHT_GREEN));
+    const activeForToken = findActivePositions(positions, token).filter(pos => pos.token.toLowerCase() === token);
+    
+    position = await book.open(token, currentValueUSD, label, event);
+    notify(colorText(`🚀 New position created for ${positionName(position)} ${colorText(`#${positionShortId(position)}`, COLORS.GRAY)}`, COLORS.BRIGHT_GREEN));
+    if (activeForToken.length > 0) {
+      notify(colorText(`💡 ${activeForToken.length + 1} active ${token.toUpperCase()} positions - select them by ID or label from now on.`, COLORS.BRIGHT_YELLOW));
+    }
   } else {
-    position.fees_claimed_usd += feesToAddUSD;
-    position.last_updated = new Date().toISOString();
+    // update, or the `<position> <value_usd>` shorthand
+    const selector = args[1];
+    currentValueUSD = parseFloat(args[2]);
+    if (isNaN(currentValueUSD)) {
+      console.error(`Error: Current position value must be a number, got '${args[2]}'`);
+      process.exit(1);
+    }
+    const feesToAddUSD = feesArgument(3, 'Fees claimed');
+    
+    // Positions are only created by open, so a typo can't start one
+    if (!book.find(selector)) {
+      console.error(`Error: No active position for ${selector.toUpperCase()} found.`);
+      const names = completionValues('position', Object.values(positions));
+      printSuggestions(suggestNames(selector, shorthand ? [...visibleCommands(), ...names] : names));
+      console.error(`To open a new position: ./damm-pnl open ${selector.toLowerCase()} ${args[2]}`);
+      process.exit(1);
+    }
     
+    position = await book.update(selector, currentValueUSD, feesToAddUSD, label, event);
     if (feesToAddUSD > 0) {
-      console.log(colorText(`💰 Added $${feesToAddUSD.toFixed(2)} in fees to ${token.toUpperCase()}`, COLORS.BRIGHT_GREEN));
+      notify(colorText(`💰 Added $${feesToAddUSD.toFixed(2)} in fees to ${positionName(position)}`, COLORS.BRIGHT_GREEN));
     }
   }
 
-  savePositions(positions);
-  await displayPositionInfo(token, position, currentValueUSD);
+  const updatedPositions = book.load();
+  if (format !== 'table') {
+    printReport(format, 'position', await buildPositionReport(position, currentValueUSD, updatedPositions, activePortfolio));
+    return;
+  }
+  await displayPositionInfo(positionName(position), position, currentValueUSD, updatedPositions);
+}
+
+// Errors from PositionBook with the candidates or recovery steps they carry
+function reportBookError(error: PositionBookError): void {
+  console.error(colorText(`Error: ${error.message}`, COLORS.BRIGHT_RED));
+  printPositionCandidates(error.candidates);
+  error.hints.forEach(hint => console.error(hint));
 }
 
+// Transaction import and ingest, for the tests. Importing the module does not run the CLI.
+export { applyDammActions, applyImport, decodeDammTransaction, valueDammAction };
+
 if (require.main === module) {
   main().catch(error => {
+    if (error instanceof PositionBookError) {
+      reportBookError(error);
+      process.exit(1);
+    }
     console.error(colorText(`❌ Error: ${error}`, COLORS.BRIGHT_RED));
     process.exit(1);
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,3162 @@
+// The position book: data model, storage, SOL prices, PNL and return
+// calculations, suggestion rules and the PositionBook class. It prints
+// nothing and never exits; the damm-pnl CLI, tui and serve are layers over it.
+//
+// Library users import PositionBook, PositionBookError, calculatePnl,
+// generateSuggestion, calculateSummaryStats and the data types. Everything
+// else is exported for the CLI and may change without notice.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export type PositionEventType = 'open' | 'value_snapshot' | 'fee_claim' | 'add_capital' | 'withdraw' | 'close';
+
+export interface PositionEvent {
+  type: PositionEventType;
+  timestamp: string;
+  amount_usd: number;              // Position value for open/value_snapshot/close, cash amount otherwise
+  sol_price_usd?: number;          // SOL/USD rate at the time of the event
+  synthetic?: boolean;             // Reconstructed from aggregate-only data during migration
+  import_id?: string;              // Imported row fingerprint, or "<signature>#<instruction>" for ingested transactions
+  note?: string;                   // Free text from --note
+}
+
+export interface Position {
+  id: string;                      // Unique position ID
+  token: string;
+  initial_value_usd: number;  // Store in USD now
+  fees_claimed_usd: number;   // Store fees in USD too
+  created_at: string;
+  last_updated: string;
+  capital_additions_usd?: number;  // Additional capital added after initial investment
+  withdrawn_usd?: number;          // Total amount withdrawn from position
+  total_invested_usd?: number;     // Total capital invested (initial + additions - reductions)
+  // Closure data
+  closed_at?: string;              // When position was closed
+  exit_value_usd?: number;         // Final exit value in USD
+  final_pnl_usd?: number;          // Final total PNL at closure
+  final_pnl_percentage?: number;   // Final PNL percentage at closure
+  is_closed?: boolean;             // Whether position is closed
+  label?: string;                  // Optional user label (pool address, fee tier, note)
+  // Metadata, set with the meta, tag and note commands
+  pool_address?: string;           // DAMM pool account
+  pair?: string;                   // Base/quote, e.g. "AIXBT/SOL"
+  fee_tier_percentage?: number;    // Pool fee, e.g. 0.25 for 0.25%
+  tags?: string[];                 // Strategy tags, lowercase
+  notes?: string;                  // Free text, one line per --append
+  // Latest valuation (from the most recent open/value_snapshot/close event)
+  current_value_usd?: number;      // Last known position value in USD
+  value_updated_at?: string;       // When that value was recorded
+  // Append-only ledger; the aggregate fields above are derived from it by replayEvents()
+  events?: PositionEvent[];
+}
+
+export interface PnlData {
+  // Primary USD values
+  unrealized_pnl_usd: number;
+  realized_pnl_usd: number;
+  total_pnl_usd: number;
+  pnl_percentage: number;
+  initial_value_usd: number;
+  current_value_usd: number;
+  total_invested_usd: number;  // Total capital invested
+  // SOL values (each flow converted at the rate recorded on its event)
+  unrealized_pnl_sol: number;
+  realized_pnl_sol: number;
+  total_pnl_sol: number;
+  initial_value_sol: number;
+  current_value_sol: number;
+  total_invested_sol: number;  // Total capital invested in SOL
+  capital_additions_sol: number;
+  withdrawn_sol: number;
+  fees_claimed_sol: number;
+  pnl_percentage_sol: number;  // Return measured in SOL terms
+  sol_price_usd: number;       // Rate used to value the current position
+  // Returns that account for when money went in and out
+  irr_percentage: number | null;   // Annualised money-weighted return (null when undefined)
+  twr_percentage: number | null;   // Time-weighted return since opening
+}
+
+// Cash flows of a position converted to SOL at the rate recorded on each event
+export interface SolFlows {
+  initial_value_sol: number;
+  capital_additions_sol: number;
+  total_invested_sol: number;
+  withdrawn_sol: number;
+  fees_claimed_sol: number;
+  exit_value_sol?: number;     // Closed positions only
+}
+
+export interface ValuePoint {
+  timestamp: string;
+  value_usd: number;               // Position value at this point
+  fees_claimed_usd: number;        // Cumulative fees claimed up to this point
+  total_invested_usd: number;      // Cumulative capital invested up to this point
+  withdrawn_usd: number;           // Cumulative withdrawals up to this point
+  total_pnl_usd: number;           // value + withdrawn + fees - invested
+}
+
+export type SummaryPeriodSize = 'day' | 'week' | 'month' | 'year';
+
+// Filters and grouping for `summary`; all of them bucket by closed_at in local time
+export interface SummaryOptions {
+  period?: SummaryPeriodSize;
+  from?: Date;                         // Start of the first day included
+  to?: Date;                           // End of the last day included
+  tokens?: string[];                   // Lowercase token names
+  tags?: string[];                     // Positions with any of these tags
+  groupBy?: 'token' | 'tag';
+}
+
+// Fee yield of a position (or of several positions taken together)
+export interface FeeStats {
+  days_deployed: number;
+  fees_claimed_usd: number;
+  fees_per_day_usd: number | null;     // null when deployed for less than a day
+  capital_days_usd: number;            // Deployed capital integrated over time (USD x days)
+  average_deployed_usd: number;        // Time-weighted average capital in the position
+  fee_apr_percentage: number | null;   // Fees per year on the average deployed capital; null as fees per day
+  value_drift_usd: number | null;      // Value change excluding fees (IL-style drift); null without a valuation
+  total_pnl_usd: number | null;        // Drift + fees
+  fee_share_percentage: number | null; // Fees as a share of total PNL, when it is positive
+}
+
+// One step of a return timeline: a valuation of a position, or a cash flow
+// into (+) or out of (-) the book. Fees are income, not external flows.
+export interface ReturnEntry {
+  timestamp: string;
+  kind: 'value' | 'flow' | 'income';
+  position_id: string;
+  amount_usd: number;
+}
+
+export interface SummaryStats {
+  totalInvestedUSD: number;
+  totalPnlUSD: number;
+  totalInvestedSOL: number;
+  totalPnlSOL: number;
+  winningPositions: number;
+  losingPositions: number;
+  totalWinPnlUSD: number;
+  totalLossPnlUSD: number;
+  winRate: number;
+  lossRate: number;
+  overallPnlPercentage: number;
+  biggestWinUSD: number;
+  biggestLossUSD: number;
+  biggestWinPercent: number;
+  biggestLossPercent: number;
+  expectedValueUSD: number;
+  irrPercentage: number | null;     // Annualised money-weighted return of all flows
+  twrPercentage: number | null;     // Time-weighted return over the whole period
+  profitFactor: number | null;      // Gross wins / gross losses; null without losses
+  maxDrawdownUSD: number;           // Deepest fall of cumulative closed PNL from its peak (<= 0)
+  longestWinStreak: number;         // In closing order
+  longestLossStreak: number;
+  sharpeRatio: number | null;       // Mean / std dev of per-position returns (not annualised)
+  sortinoRatio: number | null;      // Mean / downside deviation of per-position returns
+  medianHoldingDays: number | null;
+  expectancyByHolding: Record<HoldingBucket, HoldingBucketStats>;
+}
+
+export type HoldingBucket = 'under_1d' | '1d_to_7d' | '7d_to_30d' | 'over_30d';
+
+export interface HoldingBucketStats {
+  positions: number;
+  winRate: number;
+  expectedValueUSD: number;         // Average PNL per position in the bucket
+}
+
+// ---------------------------------------------------------------------------
+// Machine-readable output (--format json|csv). Field names are part of the
+// public interface: add fields freely, but never rename or remove them
+// without bumping OUTPUT_FORMAT_VERSION in damm-pnl.ts.
+// ---------------------------------------------------------------------------
+
+export interface ActivePositionRow {
+  id: string;
+  token: string;
+  label: string | null;
+  created_at: string;
+  initial_value_usd: number;
+  capital_additions_usd: number;
+  withdrawn_usd: number;
+  total_invested_usd: number;
+  fees_claimed_usd: number;
+  current_value_usd: number | null;    // Latest value snapshot
+  value_updated_at: string | null;
+  unrealized_pnl_usd: number | null;   // current value - (invested - withdrawn)
+  pool_address: string | null;
+  pair: string | null;
+  fee_tier_percentage: number | null;
+  tags: string[];
+  notes: string | null;
+}
+
+export interface ClosedPositionRow {
+  id: string;
+  token: string;
+  label: string | null;
+  created_at: string;
+  closed_at: string;
+  days_open: number;
+  total_invested_usd: number;
+  withdrawn_usd: number;
+  fees_claimed_usd: number;
+  exit_value_usd: number;
+  final_pnl_usd: number;
+  final_pnl_percentage: number;
+  total_invested_sol: number;
+  exit_value_sol: number;
+  final_pnl_sol: number;
+  final_pnl_percentage_sol: number;
+  irr_percentage: number | null;
+  twr_percentage: number | null;
+  pool_address: string | null;
+  pair: string | null;
+  fee_tier_percentage: number | null;
+  tags: string[];
+  notes: string | null;
+}
+
+export interface FeeReportRow extends FeeStats {
+  scope: 'position' | 'token';
+  id: string | null;                   // Position ID (null for token totals)
+  token: string;
+  label: string | null;
+  status: 'active' | 'closed' | null;
+  positions: number;
+}
+
+export interface TaxReportRow {
+  date: string;                        // When the gain or income was realized
+  position_id: string;
+  token: string;
+  label: string | null;
+  event: 'withdraw' | 'close' | 'fee_claim';
+  category: 'capital_gain' | 'fee_income';
+  acquired: string | null;             // Lot date (FIFO), earliest lot date (pro-rata), null for fees
+  holding_days: number | null;
+  proceeds_usd: number;
+  cost_basis_usd: number;
+  gain_usd: number;
+  method: CostBasisMethod;
+}
+
+export interface DashboardRow {
+  scope: 'position' | 'total';
+  id: string | null;                   // Position ID (null for the portfolio total)
+  token: string | null;
+  label: string | null;
+  value_usd: number;                   // Latest value snapshot
+  value_sol: number;
+  value_updated_at: string | null;
+  stale: boolean | null;               // Snapshot older than --stale-after
+  unrealized_pnl_usd: number;
+  realized_pnl_usd: number;
+  total_pnl_usd: number;
+  unrealized_pnl_sol: number;
+  realized_pnl_sol: number;
+  total_pnl_sol: number;
+  pnl_percentage: number;
+  weight_percentage: number;
+  days_open: number | null;
+  action: Suggestion['action'] | null;
+  confidence: Suggestion['confidence'] | null;
+}
+
+export interface SummaryPeriod {
+  period: string;                      // e.g. "2026-10-18", "2026-W42", "2026-10", "2026", "range" or "all_time"
+  start: string | null;
+  end: string | null;
+  token?: string | null;               // Set when grouped with --by token
+  tag?: string | null;                 // Set when grouped with --by tag (null: untagged)
+  positions: number;
+  stats: SummaryStats;
+}
+
+export interface SuggestionReportRow {
+  id: string;
+  token: string;
+  label: string | null;
+  suggestion: Suggestion;
+  metrics: SuggestionMetrics;
+  evaluated?: RuleEvaluation[];        // Only with --explain
+}
+
+export interface PositionReport {
+  position: ActivePositionRow;
+  pnl: PnlData;
+  suggestion: Suggestion;
+}
+
+export interface Suggestion {
+  action: 'HOLD' | 'TOP_UP' | 'REDUCE' | 'TAKE_PROFIT' | 'STOP_LOSS';
+  reason: string;
+  confidence: 'LOW' | 'MEDIUM' | 'HIGH';
+  rule: string | null;                 // Name of the suggestion rule that fired
+}
+
+// ---------------------------------------------------------------------------
+// Data directory, config file and portfolios
+//
+// Everything lives under DAMM_PNL_HOME (default ~/.damm-pnl):
+//   config.json              settings and the current portfolio
+//   portfolios/<name>.json   one position book per portfolio
+//   sol_price_*.json         price cache and manual price
+//   rules.json               suggestion rules (optional)
+//   watch/<name>.json        alerts already sent by `watch`
+// ---------------------------------------------------------------------------
+
+export interface Config {
+  portfolio?: string;          // Current portfolio, set by `portfolio switch`
+  price_sources?: string;      // Same as DAMM_PNL_PRICE_SOURCES
+  price_file?: string;         // Same as DAMM_PNL_PRICE_FILE
+  price_url?: string;          // Same as DAMM_PNL_PRICE_URL
+  price_field?: string;        // Same as DAMM_PNL_PRICE_FIELD
+  rules_file?: string;         // Same as DAMM_PNL_RULES_FILE
+  alerts?: string;             // Same as DAMM_PNL_ALERTS
+  alert_command?: string;      // Same as DAMM_PNL_ALERT_COMMAND
+  alert_webhook?: string;      // Same as DAMM_PNL_ALERT_WEBHOOK
+  import_columns?: string;     // Default for import --columns
+  api_token?: string;          // Same as DAMM_PNL_API_TOKEN
+}
+
+export const DEFAULT_PORTFOLIO = 'default';
+export const LEGACY_DATA_FILE = 'damm_positions.json';  // Pre-portfolio location, relative to the working directory
+export const PORTFOLIO_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export function getHomeDir(): string {
+  return process.env.DAMM_PNL_HOME || path.join(os.homedir(), '.damm-pnl');
+}
+
+export function homePath(...parts: string[]): string {
+  return path.join(getHomeDir(), ...parts);
+}
+
+export function loadConfig(): Config {
+  const configFile = homePath('config.json');
+  if (fs.existsSync(configFile)) {
+    try {
+      return JSON.parse(fs.readFileSync(configFile, 'utf8'));
+    } catch (error) {
+      throw new PositionBookError('config', `Cannot parse ${configFile}: ${error}`);
+    }
+  }
+  return {};
+}
+
+export function saveConfig(config: Config): void {
+  fs.mkdirSync(getHomeDir(), { recursive: true });
+  writeFileAtomic(homePath('config.json'), JSON.stringify(config, null, 2));
+}
+
+export function portfolioFile(name: string): string {
+  return homePath('portfolios', `${name}.json`);
+}
+
+export function listPortfolios(): string[] {
+  const dir = homePath('portfolios');
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.slice(0, -'.json'.length))
+    .sort();
+}
+
+// Create the data directory on first use. A damm_positions.json from the
+// pre-portfolio layout in the working directory is copied in as the default
+// portfolio, so existing books keep working. Returns whether it was.
+export function ensureHomeDir(): boolean {
+  fs.mkdirSync(homePath('portfolios'), { recursive: true });
+  const defaultFile = portfolioFile(DEFAULT_PORTFOLIO);
+  if (!fs.existsSync(defaultFile) && fs.existsSync(LEGACY_DATA_FILE)) {
+    fs.copyFileSync(LEGACY_DATA_FILE, defaultFile);
+    return true;
+  }
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// SOL price providers
+//
+// Providers are tried in the order given by DAMM_PNL_PRICE_SOURCES
+// (default: "coingecko,file,http,manual"). The first fresh quote wins; if none
+// is fresh, the most recent stale quote is used and flagged. There is no
+// made-up fallback price: when nothing is available the quote is null.
+// ---------------------------------------------------------------------------
+
+export interface PriceQuote {
+  price: number;
+  source: string;       // Provider that produced the quote, e.g. "coingecko" or "file:prices.csv"
+  timestamp: number;    // When the price was observed (ms since epoch)
+  stale: boolean;       // Older than PRICE_STALE_AFTER
+}
+
+export interface PriceProvider {
+  name: string;
+  getQuote(): Promise<PriceQuote | null>;
+}
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minute cache
+const PRICE_STALE_AFTER = 60 * 60 * 1000; // Quotes older than 1 hour are stale
+const PRICE_CACHE_FILE = 'sol_price_cache.json';    // Inside the data directory
+const MANUAL_PRICE_FILE = 'sol_price_manual.json';
+const DEFAULT_PRICE_SOURCES = 'coingecko,file,http,manual';
+
+function makeQuote(price: number, source: string, timestamp: number): PriceQuote {
+  return { price, source, timestamp, stale: Date.now() - timestamp > PRICE_STALE_AFTER };
+}
+
+// Parse a timestamp given as ISO string, epoch seconds or epoch milliseconds
+export function parsePriceTimestamp(value: unknown): number {
+  if (typeof value === 'number') {
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const numeric = Number(value);
+    if (!isNaN(numeric)) {
+      return parsePriceTimestamp(numeric);
+    }
+    return new Date(value).getTime();
+  }
+  return NaN;
+}
+
+// Read price points from a JSON ({price, timestamp} or an array of them) or
+// CSV ("timestamp,price" rows, optional header) file
+function loadPriceFile(filePath: string): PricePoint[] {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const points: PricePoint[] = [];
+  
+  if (filePath.toLowerCase().endsWith('.csv')) {
+    for (const line of content.split(/\r?\n/)) {
+      const [timestampField, priceField] = line.split(',').map(field => field.trim());
+      const price = parseFloat(priceField);
+      const timestamp = parsePriceTimestamp(timestampField);
+      if (!isNaN(price) && price > 0 && !isNaN(timestamp)) {
+        points.push({ timestamp, price });
+      }
+    }
+  } else {
+    const data = JSON.parse(content);
+    const entries = Array.isArray(data) ? data : [data];
+    for (const entry of entries) {
+      const price = Number(entry?.price);
+      const timestamp = parsePriceTimestamp(entry?.timestamp);
+      if (price > 0 && !isNaN(timestamp)) {
+        points.push({ timestamp, price });
+      }
+    }
+  }
+  
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Load cached price from file
+function loadPriceCache(): { price: number; timestamp: number } | null {
+  if (fs.existsSync(homePath(PRICE_CACHE_FILE))) {
+    try {
+      const data = fs.readFileSync(homePath(PRICE_CACHE_FILE), 'utf8');
+      return JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Save price cache to file
+function savePriceCache(cache: { price: number; timestamp: number }): void {
+  try {
+    fs.writeFileSync(homePath(PRICE_CACHE_FILE), JSON.stringify(cache));
+  } catch (error) {
+    // Ignore file save errors
+  }
+}
+
+// CoinGecko public API, with a 5-minute file cache to avoid rate limiting.
+// When the API is unreachable the cached price is returned with its real age.
+function createCoinGeckoProvider(): PriceProvider {
+  return {
+    name: 'coingecko',
+    async getQuote(): Promise<PriceQuote | null> {
+      const cache = loadPriceCache();
+      if (cache && cache.price > 0 && (Date.now() - cache.timestamp) < CACHE_DURATION) {
+        return makeQuote(cache.price, 'coingecko', cache.timestamp);
+      }
+      
+      try {
+        const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd', {
+          signal: AbortSignal.timeout(10000)
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          const price = data.solana?.usd;
+          
+          if (price && price > 0) {
+            const fresh = { price, timestamp: Date.now() };
+            savePriceCache(fresh);
+            return makeQuote(fresh.price, 'coingecko', fresh.timestamp);
+          }
+        }
+      } catch {
+        // Network error - fall through to the cached price
+      }
+      
+      return cache && cache.price > 0 ? makeQuote(cache.price, 'coingecko (cached)', cache.timestamp) : null;
+    }
+  };
+}
+
+// Local JSON/CSV price file (DAMM_PNL_PRICE_FILE); the latest row is used
+function createFilePriceProvider(filePath: string): PriceProvider {
+  return {
+    name: 'file',
+    async getQuote(): Promise<PriceQuote | null> {
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+      try {
+        const points = loadPriceFile(filePath);
+        const latest = points[points.length - 1];
+        return latest ? makeQuote(latest.price, `file:${filePath}`, latest.timestamp) : null;
+      } catch {
+        return null;
+      }
+    }
+  };
+}
+
+// Price set by hand with `set-price SOL <usd>`
+function createManualPriceProvider(): PriceProvider {
+  return {
+    name: 'manual',
+    async getQuote(): Promise<PriceQuote | null> {
+      if (!fs.existsSync(homePath(MANUAL_PRICE_FILE))) {
+        return null;
+      }
+      try {
+        const data = JSON.parse(fs.readFileSync(homePath(MANUAL_PRICE_FILE), 'utf8'));
+        return data.price > 0 ? makeQuote(data.price, 'manual', data.timestamp) : null;
+      } catch {
+        return null;
+      }
+    }
+  };
+}
+
+// Any HTTP endpoint (DAMM_PNL_PRICE_URL) returning a plain number or JSON with
+// the price at DAMM_PNL_PRICE_FIELD (default: "price", "usd" or "solana.usd").
+// An optional "timestamp" field in the response is honoured.
+function createHttpPriceProvider(url: string, field?: string): PriceProvider {
+  return {
+    name: 'http',
+    async getQuote(): Promise<PriceQuote | null> {
+      try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+        if (!response.ok) {
+          return null;
+        }
+        const body = (await response.text()).trim();
+        let price = Number(body);
+        let timestamp = Date.now();
+        
+        if (isNaN(price)) {
+          const data = JSON.parse(body);
+          const lookup = (path: string) => path.split('.').reduce((value: any, key) => value?.[key], data);
+          const paths = field ? [field] : ['price', 'usd', 'solana.usd'];
+          price = Number(paths.map(lookup).find(value => value !== undefined));
+          const reported = parsePriceTimestamp(data.timestamp);
+          if (!isNaN(reported)) {
+            timestamp = reported;
+          }
+        }
+        
+        return price > 0 ? makeQuote(price, `http:${url}`, timestamp) : null;
+      } catch {
+        return null;
+      }
+    }
+  };
+}
+
+// Build the provider chain from the environment, falling back to config.json
+export function getPriceProviders(): PriceProvider[] {
+  const config = loadConfig();
+  const priceFile = process.env.DAMM_PNL_PRICE_FILE || config.price_file;
+  const priceUrl = process.env.DAMM_PNL_PRICE_URL || config.price_url;
+  const priceField = process.env.DAMM_PNL_PRICE_FIELD || config.price_field;
+  const sources = (process.env.DAMM_PNL_PRICE_SOURCES || config.price_sources || DEFAULT_PRICE_SOURCES)
+    .split(',')
+    .map(source => source.trim().toLowerCase())
+    .filter(Boolean);
+  const providers: PriceProvider[] = [];
+  
+  for (const source of sources) {
+    if (source === 'coingecko') {
+      providers.push(createCoinGeckoProvider());
+    } else if (source === 'file' && priceFile) {
+      providers.push(createFilePriceProvider(priceFile));
+    } else if (source === 'http' && priceUrl) {
+      providers.push(createHttpPriceProvider(priceUrl, priceField));
+    } else if (source === 'manual') {
+      providers.push(createManualPriceProvider());
+    }
+  }
+  
+  return providers;
+}
+
+// Memoized per process so every display uses the same quote
+let solPriceQuote: Promise<PriceQuote | null> | null = null;
+
+async function resolveSOLPriceQuote(): Promise<PriceQuote | null> {
+  let best: PriceQuote | null = null;
+  for (const provider of getPriceProviders()) {
+    const quote = await provider.getQuote();
+    if (!quote) continue;
+    if (!quote.stale) return quote;
+    if (!best || quote.timestamp > best.timestamp) {
+      best = quote;
+    }
+  }
+  return best;
+}
+
+// Get the current SOL quote, or null when no provider has a price
+export function getSOLPriceQuote(): Promise<PriceQuote | null> {
+  if (!solPriceQuote) {
+    solPriceQuote = resolveSOLPriceQuote();
+  }
+  return solPriceQuote;
+}
+
+// Drop the memoized quote; the next call asks the providers again
+export function refreshSOLPriceQuote(): void {
+  solPriceQuote = null;
+}
+
+// Get SOL price in USD (0 when unavailable)
+export async function getSOLPriceUSD(): Promise<number> {
+  const quote = await getSOLPriceQuote();
+  return quote ? quote.price : 0;
+}
+
+// SOL quote for a past moment: the last point at or before `time` in the
+// price file when one is configured, otherwise the current quote
+export async function getSOLPriceQuoteAt(time: number): Promise<PriceQuote | null> {
+  const priceFile = process.env.DAMM_PNL_PRICE_FILE || loadConfig().price_file;
+  if (priceFile && fs.existsSync(priceFile)) {
+    try {
+      const point = loadPriceFile(priceFile).filter(entry => entry.timestamp <= time).pop();
+      if (point) {
+        return { price: point.price, source: `file:${priceFile}`, timestamp: point.timestamp, stale: time - point.timestamp > PRICE_STALE_AFTER };
+      }
+    } catch {
+      // Fall through to the current quote
+    }
+  }
+  const quote = await getSOLPriceQuote();
+  return quote ? { ...quote, stale: Math.abs(quote.timestamp - time) > PRICE_STALE_AFTER } : null;
+}
+
+export function saveManualPrice(price: number): void {
+  fs.writeFileSync(homePath(MANUAL_PRICE_FILE), JSON.stringify({ price, timestamp: Date.now() }));
+  refreshSOLPriceQuote();
+}
+
+// ---------------------------------------------------------------------------
+// Crash-safe storage
+//
+// Saves write to a temporary file, fsync it and rename it over the live file,
+// so a crash never leaves a half-written book. The previous version is kept in
+// backups/<portfolio>@<timestamp>.json (newest BACKUP_COUNT per portfolio).
+// Mutating commands hold <file>.lock from load to save.
+// ---------------------------------------------------------------------------
+
+const BACKUP_COUNT = 20;
+const LOCK_TIMEOUT = 5000; // Wait up to 5 seconds for another terminal to finish
+
+// Lock files this process holds, one per data file
+const heldLockFiles = new Set<string>();
+
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tmpFile = `${filePath}.${process.pid}.tmp`;
+  const fd = fs.openSync(tmpFile, 'w');
+  try {
+    fs.writeSync(fd, content);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmpFile, filePath);
+}
+
+function backupName(dataFile: string): string {
+  return path.basename(dataFile, '.json');
+}
+
+// Backups of a data file, newest first
+export function listBackups(dataFile: string): string[] {
+  const dir = homePath('backups');
+  if (!fs.existsSync(dir)) return [];
+  const prefix = `${backupName(dataFile)}@`;
+  return fs.readdirSync(dir)
+    .filter(file => file.startsWith(prefix) && file.endsWith('.json'))
+    .sort()
+    .reverse()
+    .map(file => path.join(dir, file));
+}
+
+// Copy the current data file into backups/ and prune old backups
+export function backupDataFile(dataFile: string): void {
+  if (!fs.existsSync(dataFile)) return;
+  const dir = homePath('backups');
+  fs.mkdirSync(dir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  fs.copyFileSync(dataFile, path.join(dir, `${backupName(dataFile)}@${stamp}.json`));
+  
+  const count = Number(process.env.DAMM_PNL_BACKUPS) || BACKUP_COUNT;
+  listBackups(dataFile).slice(count).forEach(file => fs.unlinkSync(file));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// Take the lock for a data file, waiting briefly for another terminal and
+// taking over locks left behind by processes that no longer exist. Returns
+// null once the lock is held, or the pid still holding it after LOCK_TIMEOUT.
+export function tryAcquireLock(dataFile: string): number | null {
+  const lockFile = `${dataFile}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT;
+  
+  while (true) {
+    try {
+      fs.writeFileSync(lockFile, String(process.pid), { flag: 'wx' });
+      if (heldLockFiles.size === 0) {
+        process.on('exit', releaseAllLocks);
+      }
+      heldLockFiles.add(lockFile);
+      return null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    
+    let content: string;
+    try {
+      content = fs.readFileSync(lockFile, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+    const owner = parseInt(content, 10);
+    if (isNaN(owner) || !isProcessAlive(owner)) {
+      moveStaleLockAside(lockFile, content);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      return owner;
+    }
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 100);
+  }
+}
+
+// Remove a lock left behind by a dead process. Several processes can find the
+// same stale lock, and deleting it by name could delete the fresh lock one of
+// them has written since. Renaming is atomic, so the lock is moved aside first
+// and only deleted if it still is the stale one; a fresh lock is put back.
+function moveStaleLockAside(lockFile: string, staleContent: string): void {
+  const aside = `${lockFile}.stale-${process.pid}`;
+  try {
+    fs.renameSync(lockFile, aside);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+  if (fs.readFileSync(aside, 'utf8') !== staleContent) {
+    try {
+      fs.linkSync(aside, lockFile);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  }
+  fs.unlinkSync(aside);
+}
+
+function holdsLock(dataFile: string): boolean {
+  return heldLockFiles.has(`${dataFile}.lock`);
+}
+
+function releaseLock(dataFile: string): void {
+  const lockFile = `${dataFile}.lock`;
+  if (heldLockFiles.delete(lockFile) && fs.existsSync(lockFile)) {
+    fs.unlinkSync(lockFile);
+  }
+  if (heldLockFiles.size === 0) {
+    process.removeListener('exit', releaseAllLocks);
+  }
+}
+
+function releaseAllLocks(): void {
+  [...heldLockFiles].forEach(lockFile => releaseLock(lockFile.slice(0, -'.lock'.length)));
+}
+
+// A data file that can't be parsed is never treated as an empty book
+function corruptDataFileError(dataFile: string, error: unknown): PositionBookError {
+  const backups = listBackups(dataFile);
+  const hints = ['The file has NOT been modified. Recovery options:'];
+  if (backups.length > 0) {
+    hints.push(`  ./damm-pnl backups            # List the ${backups.length} available backup(s)`);
+    hints.push(`  ./damm-pnl restore latest     # Restore ${path.basename(backups[0])}`);
+  } else {
+    hints.push('  (no backups found)');
+  }
+  hints.push(`  Repair the JSON by hand in ${dataFile}`);
+  return new PositionBookError('storage', `Cannot read ${dataFile}: ${error instanceof Error ? error.message : error}`, { hints });
+}
+
+// ---------------------------------------------------------------------------
+// Schema versions and migrations
+//
+// Data files are stored as { schema_version, migrations, positions }. Files
+// from before versioning are a bare object of positions (version 0). On load,
+// every migration newer than the file's version runs in order, in memory; the
+// next save writes the new version and appends the applied steps to the
+// file's `migrations` log. `migrate --dry-run` shows what would change.
+// ---------------------------------------------------------------------------
+
+// A position as some schema version stored it: any field of Position may be
+// missing, and fields that later versions dropped may still be there
+export interface RawPosition extends Partial<Position> {
+  capital_reduction_usd?: number;      // Folded into withdrawn_usd by v2
+  profit_taken_usd?: number;           // Folded into withdrawn_usd by v2
+}
+
+export interface Migration {
+  version: number;             // Schema version the file has after this step
+  description: string;
+  migrate(positions: Record<string, RawPosition>): Record<string, RawPosition>;
+}
+
+export interface MigrationRecord {
+  version: number;
+  description: string;
+  applied_at: string;
+}
+
+export interface DataFile {
+  schema_version: number;
+  migrations: MigrationRecord[];
+  positions: Record<string, Position>;
+}
+
+// Apply a per-record change to every position object in the book
+function mapPositions(positions: Record<string, RawPosition>, fn: (key: string, pos: RawPosition) => void): Record<string, RawPosition> {
+  for (const [key, pos] of Object.entries(positions)) {
+    if (typeof pos === 'object' && pos !== null) {
+      fn(key, pos);
+    }
+  }
+  return positions;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Key positions by ID instead of token',
+    migrate: positions => {
+      const migrated: Record<string, RawPosition> = {};
+      mapPositions(positions, (key, pos) => {
+        // If this position doesn't have an ID, it's the token-keyed format
+        if (!pos.id) {
+          pos.id = `${key}_${new Date(pos.created_at || Date.now()).getTime()}`;
+          pos.token = key;
+        }
+        migrated[pos.id] = pos;
+      });
+      return migrated;
+    }
+  },
+  {
+    version: 2,
+    description: 'Fold capital_reduction_usd and profit_taken_usd into withdrawn_usd',
+    migrate: positions => mapPositions(positions, (_key, pos) => {
+      if (pos.capital_reduction_usd !== undefined || pos.profit_taken_usd !== undefined) {
+        pos.withdrawn_usd = (pos.withdrawn_usd || 0) + (pos.capital_reduction_usd || 0) + (pos.profit_taken_usd || 0);
+        delete pos.capital_reduction_usd;
+        delete pos.profit_taken_usd;
+      }
+    })
+  },
+  {
+    version: 3,
+    description: 'Recompute total_invested_usd as initial + capital additions',
+    migrate: positions => mapPositions(positions, (_key, pos) => {
+      if (pos.initial_value_usd !== undefined) {
+        pos.total_invested_usd = pos.initial_value_usd + (pos.capital_additions_usd || 0);
+      }
+    })
+  },
+  {
+    version: 4,
+    description: 'Convert aggregate totals into synthetic events on the event ledger',
+    migrate: positions => mapPositions(positions, (_key, pos) => {
+      if (!Array.isArray(pos.events)) {
+        pos.events = synthesizeEvents(pos as Position);
+        replayEvents(pos as Position);
+      }
+    })
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Migrations applied in memory on load, per data file, until the next save
+export const pendingMigrations = new Map<string, Migration[]>();
+// Migration log read from each data file, carried over on save
+const migrationLogs = new Map<string, MigrationRecord[]>();
+
+// Read and validate a data file without migrating it
+export function readDataFile(dataFile: string): { version: number; migrations: MigrationRecord[]; positions: Record<string, RawPosition> } {
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+  } catch (error) {
+    throw corruptDataFileError(dataFile, error);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw corruptDataFileError(dataFile, 'expected an object of positions');
+  }
+  
+  if (typeof data.schema_version !== 'number') {
+    return { version: 0, migrations: [], positions: data };
+  }
+  if (data.schema_version > SCHEMA_VERSION) {
+    throw new PositionBookError('storage', `${dataFile} uses schema version ${data.schema_version}, but this version of damm-pnl only understands up to ${SCHEMA_VERSION}. Please upgrade.`);
+  }
+  if (typeof data.positions !== 'object' || data.positions === null || Array.isArray(data.positions)) {
+    throw corruptDataFileError(dataFile, "missing 'positions' object");
+  }
+  return { version: data.schema_version, migrations: data.migrations || [], positions: data.positions };
+}
+
+// Migrations a file at the given schema version still needs
+export function migrationsAfter(version: number): Migration[] {
+  return MIGRATIONS.filter(migration => migration.version > version);
+}
+
+export function loadPositions(dataFile: string): Record<string, Position> {
+  if (!fs.existsSync(dataFile)) {
+    return {};
+  }
+  
+  const file = readDataFile(dataFile);
+  let positions = file.positions;
+  const steps = migrationsAfter(file.version);
+  for (const step of steps) {
+    positions = step.migrate(positions);
+  }
+  
+  migrationLogs.set(dataFile, file.migrations);
+  if (steps.length > 0) {
+    pendingMigrations.set(dataFile, steps);
+  }
+  
+  // Aggregates are always derived from the ledger
+  mapPositions(positions, (_key, pos) => replayEvents(pos as Position));
+  loadedSnapshots.set(dataFile, JSON.parse(JSON.stringify(positions)));
+  return positions as Record<string, Position>;
+}
+
+export function savePositions(positions: Record<string, Position>, dataFile: string): void {
+  const now = new Date().toISOString();
+  const applied = (pendingMigrations.get(dataFile) || []).map(step => ({
+    version: step.version,
+    description: step.description,
+    applied_at: now
+  }));
+  const data: DataFile = {
+    schema_version: SCHEMA_VERSION,
+    migrations: [...(migrationLogs.get(dataFile) || []), ...applied],
+    positions
+  };
+  
+  try {
+    backupDataFile(dataFile);
+    writeFileAtomic(dataFile, JSON.stringify(data, null, 2));
+    migrationLogs.set(dataFile, data.migrations);
+    pendingMigrations.delete(dataFile);
+    recordJournalEntry(dataFile, positions);
+  } catch (error) {
+    throw error instanceof PositionBookError ? error : new PositionBookError('storage', `Cannot save ${dataFile}: ${error}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Undo/redo journal
+//
+// Every save made by a mutating command is journaled with the positions it
+// changed, as they were loaded (before) and as they were saved (after), in
+// journal/<portfolio>.json. `undo` puts back `before`, `redo` puts back
+// `after`; other positions are left alone. Running a new command after an
+// undo discards the entries that could have been redone.
+// ---------------------------------------------------------------------------
+
+// A changed position around a command; null where it didn't exist
+export interface JournalChange {
+  before: Position | null;
+  after: Position | null;
+}
+
+export interface JournalEntry {
+  id: number;
+  timestamp: string;
+  command: string;                       // Command line as typed
+  changes: Record<string, JournalChange>; // By position ID
+  undone?: boolean;
+}
+
+export interface Journal {
+  next_id: number;
+  entries: JournalEntry[];
+}
+
+export const JOURNAL_LIMIT = 50; // Entries kept per portfolio
+
+// Command line of the running mutating command per data file; none while
+// undo/redo write
+export const journalCommands = new Map<string, string>();
+// Book as loaded from each data file, used as the "before" state
+const loadedSnapshots = new Map<string, Record<string, Position>>();
+
+function journalFile(dataFile: string): string {
+  return homePath('journal', path.basename(dataFile));
+}
+
+export function loadJournal(dataFile: string): Journal {
+  const file = journalFile(dataFile);
+  if (fs.existsSync(file)) {
+    let journal: Journal;
+    try {
+      journal = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new PositionBookError('storage', `Cannot read journal ${file}: ${error}`);
+    }
+    journal.entries = journal.entries.map(upgradeJournalEntry);
+    return journal;
+  }
+  return { next_id: 1, entries: [] };
+}
+
+// Older journals kept the whole book before and after each command
+function upgradeJournalEntry(entry: any): JournalEntry {
+  if (entry.changes) return entry;
+  const { before, after, ...rest } = entry;
+  return { ...rest, changes: diffBooks(before || {}, after || {}) };
+}
+
+// The positions that differ between two versions of a book
+function diffBooks(before: Record<string, Position>, after: Record<string, Position>): Record<string, JournalChange> {
+  const changes: Record<string, JournalChange> = {};
+  for (const id of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[id]) !== JSON.stringify(after[id])) {
+      changes[id] = { before: before[id] ?? null, after: after[id] ?? null };
+    }
+  }
+  return changes;
+}
+
+// The changed positions of an entry as they were before or after it
+export function journalSide(entry: JournalEntry, side: keyof JournalChange): Record<string, Position> {
+  const positions: Record<string, Position> = {};
+  Object.entries(entry.changes).forEach(([id, change]) => {
+    if (change[side]) positions[id] = change[side]!;
+  });
+  return positions;
+}
+
+// The book with an entry's positions put back as they were before or after it
+export function applyJournalSide(positions: Record<string, Position>, entry: JournalEntry, side: keyof JournalChange): Record<string, Position> {
+  const target = { ...positions };
+  Object.entries(entry.changes).forEach(([id, change]) => {
+    if (change[side]) target[id] = change[side]!;
+    else delete target[id];
+  });
+  return target;
+}
+
+export function saveJournal(dataFile: string, journal: Journal): void {
+  fs.mkdirSync(homePath('journal'), { recursive: true });
+  writeFileAtomic(journalFile(dataFile), JSON.stringify(journal, null, 2));
+}
+
+function recordJournalEntry(dataFile: string, positions: Record<string, Position>): void {
+  const command = journalCommands.get(dataFile);
+  if (command === undefined) {
+    return;
+  }
+  
+  const after = JSON.parse(JSON.stringify(positions));
+  const journal = loadJournal(dataFile);
+  // A new change makes the undone entries unreachable for redo
+  journal.entries = journal.entries.filter(entry => !entry.undone);
+  journal.entries.push({
+    id: journal.next_id++,
+    timestamp: new Date().toISOString(),
+    command,
+    changes: diffBooks(loadedSnapshots.get(dataFile) || {}, after)
+  });
+  journal.entries = journal.entries.slice(-JOURNAL_LIMIT);
+  saveJournal(dataFile, journal);
+  loadedSnapshots.set(dataFile, after);
+}
+
+// PositionBook changes, one at a time
+let bookQueue: Promise<unknown> = Promise.resolve();
+
+// Run `change` against a freshly loaded book from `dataFile` under its lock,
+// then save and journal it as `commandLine`. Throwing from `change` saves
+// nothing, and neither does a change that leaves the book as it was. A lock
+// the CLI already holds for its whole command is used as is.
+function changeBook<T>(dataFile: string, commandLine: string, change: (positions: Record<string, Position>) => Promise<T>): Promise<T> {
+  const run = async (): Promise<T> => {
+    const ownLock = !holdsLock(dataFile);
+    if (ownLock) {
+      const owner = tryAcquireLock(dataFile);
+      if (owner !== null) {
+        throw new PositionBookError('locked', `${dataFile} is locked by another damm-pnl process (pid ${owner})`);
+      }
+    }
+    const outerCommand = journalCommands.get(dataFile);
+    try {
+      const positions = loadPositions(dataFile);
+      const before = JSON.stringify(positions);
+      journalCommands.set(dataFile, commandLine);
+      const result = await change(positions);
+      if (JSON.stringify(positions) !== before) {
+        savePositions(positions, dataFile);
+      }
+      return result;
+    } finally {
+      if (outerCommand === undefined) journalCommands.delete(dataFile);
+      else journalCommands.set(dataFile, outerCommand);
+      if (ownLock) releaseLock(dataFile);
+    }
+  };
+  const result = bookQueue.then(run, run);
+  bookQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Human-readable summary of what changed between two versions of a book
+export function summarizeBookChanges(before: Record<string, Position>, after: Record<string, Position>): string[] {
+  const lines: string[] = [];
+  const ids = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const id of ids) {
+    const oldPos = before[id];
+    const newPos = after[id];
+    const name = positionName((newPos || oldPos) as Position);
+    if (!oldPos) {
+      lines.push(`+ ${name} #${positionShortId(newPos)} created`);
+    } else if (!newPos) {
+      lines.push(`- ${name} #${positionShortId(oldPos)} removed`);
+    } else {
+      const changes = diffPosition(oldPos, newPos).filter(change => !/(last_updated|value_updated_at):/.test(change));
+      if (changes.length > 0) {
+        lines.push(`~ ${name} #${positionShortId(newPos)}: ${changes.join('; ')}`);
+      }
+    }
+  }
+  return lines;
+}
+
+// Field-level differences between two versions of a position, for migrate --dry-run
+export function diffPosition(before: RawPosition | undefined, after: RawPosition | undefined): string[] {
+  const changes: string[] = [];
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]) as Set<keyof RawPosition>;
+  for (const key of keys) {
+    const oldValue = before?.[key];
+    const newValue = after?.[key];
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+    if (key === 'events') {
+      const events = after?.events || [];
+      const added = events.length - (before?.events || []).length;
+      changes.push(`events: ${added >= 0 ? '+' : ''}${added} (${events.map(event => event.type).join(', ')})`);
+    } else if (oldValue === undefined) {
+      changes.push(`+ ${key}: ${JSON.stringify(newValue)}`);
+    } else if (newValue === undefined) {
+      changes.push(`- ${key}: ${JSON.stringify(oldValue)}`);
+    } else {
+      changes.push(`~ ${key}: ${JSON.stringify(oldValue)} -> ${JSON.stringify(newValue)}`);
+    }
+  }
+  return changes;
+}
+
+// Helper functions for position management
+
+// Short form of a position ID (its random suffix), used as a selector
+export function positionShortId(position: Position): string {
+  return position.id.split('_').pop()!.toLowerCase();
+}
+
+// Display name of a position: token plus label when one is set
+export function positionName(position: Position): string {
+  return position.label ? `${position.token.toUpperCase()} [${position.label}]` : position.token.toUpperCase();
+}
+
+// Match a selector against positions. An exact token match wins; otherwise the
+// selector is an exact ID/label or a prefix of the ID, short ID or label.
+export function matchPositions(candidates: Position[], selector: string): Position[] {
+  const sel = selector.toLowerCase().replace(/^#/, '');
+  
+  const byToken = candidates.filter(pos => pos.token.toLowerCase() === sel);
+  if (byToken.length > 0) return byToken;
+  
+  const exact = candidates.filter(pos => pos.id.toLowerCase() === sel || (pos.label || '').toLowerCase() === sel);
+  if (exact.length > 0) return exact;
+  
+  return candidates.filter(pos =>
+    pos.id.toLowerCase().startsWith(sel) ||
+    positionShortId(pos).startsWith(sel) ||
+    (pos.label !== undefined && pos.label.toLowerCase().startsWith(sel))
+  );
+}
+
+export function findActivePositions(positions: Record<string, Position>, selector: string): Position[] {
+  return matchPositions(Object.values(positions).filter(pos => !pos.is_closed), selector);
+}
+
+// Resolve a selector to a single active position (null if none). Throws with
+// the list of candidates when the selector matches more than one.
+export function selectActivePosition(positions: Record<string, Position>, selector: string): Position | null {
+  const matches = findActivePositions(positions, selector);
+  if (matches.length > 1) {
+    throw new PositionBookError('ambiguous', `'${selector}' matches ${matches.length} active positions. Use a position ID or label:`, { candidates: matches });
+  }
+  return matches[0] || null;
+}
+
+export function findClosedPositions(positions: Record<string, Position>, token: string): Position[] {
+  return Object.values(positions).filter(
+    pos => pos.token.toLowerCase() === token.toLowerCase() && pos.is_closed
+  );
+}
+
+function generatePositionId(token: string): string {
+  return `${token.toLowerCase()}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Build synthetic events for records saved before the event ledger existed.
+// Timing of individual additions/withdrawals/claims is unknown, so they are
+// dated at the last update (or closure) of the position.
+function synthesizeEvents(position: Position): PositionEvent[] {
+  const createdAt = position.created_at || new Date().toISOString();
+  const lastUpdated = position.last_updated || createdAt;
+  const settledAt = position.closed_at || lastUpdated;
+  const events: PositionEvent[] = [
+    { type: 'open', timestamp: createdAt, amount_usd: position.initial_value_usd || 0, synthetic: true }
+  ];
+  
+  if ((position.capital_additions_usd || 0) > 0) {
+    events.push({ type: 'add_capital', timestamp: settledAt, amount_usd: position.capital_additions_usd!, synthetic: true });
+  }
+  if ((position.withdrawn_usd || 0) > 0) {
+    events.push({ type: 'withdraw', timestamp: settledAt, amount_usd: position.withdrawn_usd!, synthetic: true });
+  }
+  if ((position.fees_claimed_usd || 0) > 0) {
+    events.push({ type: 'fee_claim', timestamp: settledAt, amount_usd: position.fees_claimed_usd, synthetic: true });
+  }
+  if (position.is_closed && position.closed_at) {
+    events.push({ type: 'close', timestamp: position.closed_at, amount_usd: position.exit_value_usd || 0, synthetic: true });
+  }
+  
+  return events;
+}
+
+// Events in chronological order. Sorting is stable, so events sharing a
+// timestamp keep the order in which they were recorded.
+export function sortedEvents(position: Position): PositionEvent[] {
+  return [...(position.events || [])].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+// Recompute every aggregate field of a position from its event ledger
+function replayEvents(position: Position): void {
+  let initialValue = 0;
+  let feesClaimed = 0;
+  let capitalAdditions = 0;
+  let withdrawn = 0;
+  
+  delete position.closed_at;
+  delete position.exit_value_usd;
+  delete position.final_pnl_usd;
+  delete position.final_pnl_percentage;
+  delete position.is_closed;
+  delete position.current_value_usd;
+  delete position.value_updated_at;
+  
+  for (const event of sortedEvents(position)) {
+    switch (event.type) {
+      case 'open':
+        initialValue = event.amount_usd;
+        position.created_at = event.timestamp;
+        position.current_value_usd = event.amount_usd;
+        position.value_updated_at = event.timestamp;
+        break;
+      case 'fee_claim':
+        feesClaimed += event.amount_usd;
+        break;
+      case 'add_capital':
+        capitalAdditions += event.amount_usd;
+        break;
+      case 'withdraw':
+        withdrawn += event.amount_usd;
+        break;
+      case 'close': {
+        const totalInvested = initialValue + capitalAdditions;
+        const finalPnl = event.amount_usd + withdrawn + feesClaimed - totalInvested;
+        position.closed_at = event.timestamp;
+        position.exit_value_usd = event.amount_usd;
+        position.final_pnl_usd = finalPnl;
+        position.final_pnl_percentage = totalInvested > 0 ? (finalPnl / totalInvested) * 100 : 0;
+        position.is_closed = true;
+        position.current_value_usd = event.amount_usd;
+        position.value_updated_at = event.timestamp;
+        break;
+      }
+      case 'value_snapshot':
+        // Snapshots don't change invested capital or realized amounts
+        position.current_value_usd = event.amount_usd;
+        position.value_updated_at = event.timestamp;
+        break;
+    }
+    position.last_updated = event.timestamp;
+  }
+  
+  position.initial_value_usd = initialValue;
+  position.fees_claimed_usd = feesClaimed;
+  position.capital_additions_usd = capitalAdditions;
+  position.withdrawn_usd = withdrawn;
+  position.total_invested_usd = initialValue + capitalAdditions;
+}
+
+// Replay the ledger and emit one point per valuation (open, value snapshot, close)
+export function buildValueHistory(position: Position): ValuePoint[] {
+  const points: ValuePoint[] = [];
+  let invested = 0;
+  let withdrawn = 0;
+  let fees = 0;
+  
+  for (const event of sortedEvents(position)) {
+    if (event.type === 'open' || event.type === 'add_capital') {
+      invested += event.amount_usd;
+    } else if (event.type === 'withdraw') {
+      withdrawn += event.amount_usd;
+    } else if (event.type === 'fee_claim') {
+      fees += event.amount_usd;
+    }
+    
+    if (event.type === 'open' || event.type === 'value_snapshot' || event.type === 'close') {
+      points.push({
+        timestamp: event.timestamp,
+        value_usd: event.amount_usd,
+        fees_claimed_usd: fees,
+        total_invested_usd: invested,
+        withdrawn_usd: withdrawn,
+        total_pnl_usd: event.amount_usd + withdrawn + fees - invested
+      });
+    }
+  }
+  
+  return points;
+}
+
+// Convert each event at its own SOL/USD rate. Events without a recorded rate
+// (e.g. migrated from aggregate-only data) use the fallback price instead.
+export function calculateSolFlows(position: Position, fallbackPriceUSD: number): SolFlows {
+  const flows: SolFlows = {
+    initial_value_sol: 0,
+    capital_additions_sol: 0,
+    total_invested_sol: 0,
+    withdrawn_sol: 0,
+    fees_claimed_sol: 0
+  };
+  
+  for (const event of sortedEvents(position)) {
+    const rate = event.sol_price_usd || fallbackPriceUSD;
+    const amountSOL = rate > 0 ? event.amount_usd / rate : 0;
+    switch (event.type) {
+      case 'open':
+        flows.initial_value_sol = amountSOL;
+        break;
+      case 'add_capital':
+        flows.capital_additions_sol += amountSOL;
+        break;
+      case 'withdraw':
+        flows.withdrawn_sol += amountSOL;
+        break;
+      case 'fee_claim':
+        flows.fees_claimed_sol += amountSOL;
+        break;
+      case 'close':
+        flows.exit_value_sol = amountSOL;
+        break;
+      case 'value_snapshot':
+        break;
+    }
+  }
+  
+  flows.total_invested_sol = flows.initial_value_sol + flows.capital_additions_sol;
+  return flows;
+}
+
+// Final PNL of a closed position in SOL terms
+export function closedPnlSOL(position: Position, fallbackPriceUSD: number): number {
+  const flows = calculateSolFlows(position, fallbackPriceUSD);
+  return (flows.exit_value_sol || 0) + flows.withdrawn_sol + flows.fees_claimed_sol - flows.total_invested_sol;
+}
+
+// Whether any event of the position lacks a recorded SOL/USD rate
+export function hasMissingSolPrice(position: Position): boolean {
+  return (position.events || []).some(event => event.type !== 'value_snapshot' && !event.sol_price_usd);
+}
+
+// ---------------------------------------------------------------------------
+// Time- and money-weighted returns
+//
+// pnl_percentage divides total PNL by total invested, whatever the timing.
+// The IRR (money-weighted, annualised) weights each dollar by how long it was
+// deployed; the TWR chains the returns between valuations so that capital
+// added or withdrawn along the way doesn't distort the result.
+// ---------------------------------------------------------------------------
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const MIN_IRR_SPAN_MS = 24 * 60 * 60 * 1000; // Annualising less than a day is noise
+
+// Valuations and cash flows of a position in time order. Open positions are
+// valued at `currentValueUSD` as of `asOf` when given.
+export function returnTimeline(position: Position, currentValueUSD?: number, asOf: string = new Date().toISOString()): ReturnEntry[] {
+  const entries: ReturnEntry[] = [];
+  const add = (timestamp: string, kind: ReturnEntry['kind'], amount: number) =>
+    entries.push({ timestamp, kind, position_id: position.id, amount_usd: amount });
+  
+  for (const event of sortedEvents(position)) {
+    switch (event.type) {
+      case 'open':
+        add(event.timestamp, 'flow', event.amount_usd);
+        add(event.timestamp, 'value', event.amount_usd);
+        break;
+      case 'add_capital':
+        add(event.timestamp, 'flow', event.amount_usd);
+        break;
+      case 'withdraw':
+        add(event.timestamp, 'flow', -event.amount_usd);
+        break;
+      case 'fee_claim':
+        add(event.timestamp, 'income', event.amount_usd);
+        break;
+      case 'value_snapshot':
+        add(event.timestamp, 'value', event.amount_usd);
+        break;
+      case 'close':
+        // Valued at the exit, then the whole exit value is paid out
+        add(event.timestamp, 'value', event.amount_usd);
+        add(event.timestamp, 'flow', -event.amount_usd);
+        add(event.timestamp, 'value', 0);
+        break;
+    }
+  }
+  
+  if (!position.is_closed && currentValueUSD !== undefined && entries.length > 0) {
+    add(asOf, 'value', currentValueUSD);
+  }
+  return entries;
+}
+
+// Stable merge of several timelines into one, for portfolio-level returns
+function mergeTimelines(timelines: ReturnEntry[][]): ReturnEntry[] {
+  return timelines.flat().map((entry, index) => ({ entry, index })).sort((a, b) =>
+    new Date(a.entry.timestamp).getTime() - new Date(b.entry.timestamp).getTime() || a.index - b.index
+  ).map(item => item.entry);
+}
+
+// Annualised IRR (XIRR) of the timeline's cash flows from the investor's side:
+// capital in is negative, withdrawals, fees and the final value are positive.
+export function calculateIRR(timeline: ReturnEntry[]): number | null {
+  if (timeline.length === 0) return null;
+  
+  const cashFlows: { years: number; amount: number }[] = [];
+  const start = new Date(timeline[0].timestamp).getTime();
+  const end = new Date(timeline[timeline.length - 1].timestamp).getTime();
+  if (end - start < MIN_IRR_SPAN_MS) return null;
+  
+  const lastValues = new Map<string, number>();
+  for (const entry of timeline) {
+    const years = (new Date(entry.timestamp).getTime() - start) / YEAR_MS;
+    if (entry.kind === 'value') {
+      lastValues.set(entry.position_id, entry.amount_usd);
+    } else {
+      cashFlows.push({ years, amount: entry.kind === 'flow' ? -entry.amount_usd : entry.amount_usd });
+    }
+  }
+  // Whatever is still held counts as received at the end
+  const held = [...lastValues.values()].reduce((sum, value) => sum + value, 0);
+  cashFlows.push({ years: (end - start) / YEAR_MS, amount: held });
+  
+  if (!cashFlows.some(flow => flow.amount < 0) || !cashFlows.some(flow => flow.amount > 0)) {
+    return null;
+  }
+  
+  // Bisect on the continuous rate g = ln(1 + r); NPV falls as g rises for
+  // investments (money in first, out later)
+  const npv = (g: number) => cashFlows.reduce((sum, flow) => sum + flow.amount * Math.exp(-g * flow.years), 0);
+  let low = -20;
+  let high = 20;
+  if (npv(low) < 0 || npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(mid) > 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (Math.exp((low + high) / 2) - 1) * 100;
+}
+
+// Time-weighted return: Modified Dietz returns between consecutive valuation
+// times, chained. Flows inside a sub-period are weighted by the time they
+// were invested; fees count as return. Null when nothing was ever valued.
+export function calculateTWR(timeline: ReturnEntry[]): number | null {
+  if (timeline.length === 0) return null;
+  
+  const values = new Map<string, number>();
+  const bookValue = () => [...values.values()].reduce((sum, value) => sum + value, 0);
+  let growth = 1;
+  let periodStart = new Date(timeline[0].timestamp).getTime();
+  let startValue = 0;
+  let pending: { time: number; amount: number }[] = [];
+  let income = 0;
+  let linked = false;
+  
+  let i = 0;
+  while (i < timeline.length) {
+    const time = new Date(timeline[i].timestamp).getTime();
+    let revalued = false;
+    // Take every entry at this instant together
+    while (i < timeline.length && new Date(timeline[i].timestamp).getTime() === time) {
+      const entry = timeline[i++];
+      if (entry.kind === 'value') {
+        values.set(entry.position_id, entry.amount_usd);
+        revalued = true;
+      } else if (entry.kind === 'flow') {
+        pending.push({ time, amount: entry.amount_usd });
+      } else {
+        income += entry.amount_usd;
+      }
+    }
+    if (!revalued) continue;
+    
+    const endValue = bookValue();
+    const span = time - periodStart;
+    const netFlow = pending.reduce((sum, flow) => sum + flow.amount, 0);
+    const weightedFlow = pending.reduce((sum, flow) => sum + flow.amount * (span > 0 ? (time - flow.time) / span : 0), 0);
+    const capital = startValue + weightedFlow;
+    if (capital > 0) {
+      growth *= 1 + (endValue - startValue - netFlow + income) / capital;
+      linked = true;
+    }
+    
+    periodStart = time;
+    startValue = endValue;
+    pending = [];
+    income = 0;
+  }
+  
+  return linked ? (growth - 1) * 100 : null;
+}
+
+// Append an event to the position ledger and refresh the derived aggregates
+export function recordEvent(position: Position, type: PositionEventType, amountUSD: number, timestamp: string = new Date().toISOString(), solPriceUSD?: number): PositionEvent {
+  const event: PositionEvent = { type, timestamp, amount_usd: amountUSD };
+  if (solPriceUSD && solPriceUSD > 0) {
+    event.sol_price_usd = solPriceUSD;
+  }
+  if (!position.events) {
+    position.events = [];
+  }
+  position.events.push(event);
+  replayEvents(position);
+  return event;
+}
+
+export async function initializePosition(token: string, initialValueUSD: number, solPriceUSD?: number, now: string = new Date().toISOString()): Promise<Position> {
+  const position: Position = {
+    id: generatePositionId(token),
+    token,
+    initial_value_usd: initialValueUSD,
+    fees_claimed_usd: 0,
+    created_at: now,
+    last_updated: now,
+    capital_additions_usd: 0,
+    withdrawn_usd: 0,
+    total_invested_usd: initialValueUSD,
+    events: []
+  };
+  recordEvent(position, 'open', initialValueUSD, now, solPriceUSD);
+  return position;
+}
+
+export async function calculatePnl(position: Position, currentValueUSD: number): Promise<PnlData> {
+  // Initialize fields if they don't exist (backward compatibility)
+  const capitalAdditions = position.capital_additions_usd || 0;
+  const withdrawn = position.withdrawn_usd || 0;
+  
+  // Total invested stays constant: initial + additions
+  const totalInvestedUSD = position.initial_value_usd + capitalAdditions;
+  
+  // Amount still invested = total invested - amount withdrawn
+  const currentlyInvestedUSD = totalInvestedUSD - withdrawn;
+  
+  // Total value received: current position + withdrawn + fees
+  const totalValueUSD = currentValueUSD + withdrawn + position.fees_claimed_usd;
+  
+  // Total PnL is total value minus total invested
+  const totalPnlUSD = totalValueUSD - totalInvestedUSD;
+  
+  // Unrealized PnL is current position value minus what's still invested
+  const unrealizedPnlUSD = currentValueUSD - currentlyInvestedUSD;
+  
+  // Realized PnL is withdrawn + fees
+  const realizedPnlUSD = withdrawn + position.fees_claimed_usd;
+  
+  const pnlPercentage = totalInvestedUSD > 0 ? (totalPnlUSD / totalInvestedUSD) * 100 : 0;
+
+  // Current value is converted at the live rate; every other flow at the
+  // rate recorded when it happened
+  const solPriceUSD = await getSOLPriceUSD();
+  const flows = calculateSolFlows(position, solPriceUSD);
+  
+  const currentValueSOL = solPriceUSD > 0 ? currentValueUSD / solPriceUSD : 0;
+  const totalPnlSOL = currentValueSOL + flows.withdrawn_sol + flows.fees_claimed_sol - flows.total_invested_sol;
+  const unrealizedPnlSOL = currentValueSOL - (flows.total_invested_sol - flows.withdrawn_sol);
+  const realizedPnlSOL = flows.withdrawn_sol + flows.fees_claimed_sol;
+  const pnlPercentageSOL = flows.total_invested_sol > 0 ? (totalPnlSOL / flows.total_invested_sol) * 100 : 0;
+  
+  const timeline = returnTimeline(position, currentValueUSD);
+
+  return {
+    // Primary USD values
+    unrealized_pnl_usd: unrealizedPnlUSD,
+    realized_pnl_usd: realizedPnlUSD,
+    total_pnl_usd: totalPnlUSD,
+    pnl_percentage: pnlPercentage,
+    initial_value_usd: position.initial_value_usd,
+    current_value_usd: currentValueUSD,
+    total_invested_usd: totalInvestedUSD,
+    // SOL values (flows at their historical rates)
+    unrealized_pnl_sol: unrealizedPnlSOL,
+    realized_pnl_sol: realizedPnlSOL,
+    total_pnl_sol: totalPnlSOL,
+    initial_value_sol: flows.initial_value_sol,
+    current_value_sol: currentValueSOL,
+    total_invested_sol: flows.total_invested_sol,
+    capital_additions_sol: flows.capital_additions_sol,
+    withdrawn_sol: flows.withdrawn_sol,
+    fees_claimed_sol: flows.fees_claimed_sol,
+    pnl_percentage_sol: pnlPercentageSOL,
+    sol_price_usd: solPriceUSD,
+    irr_percentage: calculateIRR(timeline),
+    twr_percentage: calculateTWR(timeline)
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Suggestion rules
+//
+// A suggestion comes from the first rule whose conditions all hold. Rules are
+// read from rules.json (or DAMM_PNL_RULES_FILE / rules_file in config.json):
+//   { "rules": [...],                       replaces the built-in rules
+//     "portfolios": { "<name>": [...] },    overrides for one portfolio
+//     "tokens": { "<token>": [...] } }      overrides for one token
+// An override with the name of an existing rule replaces the fields it sets
+// (`"disabled": true` switches the rule off); new rules are checked first.
+// Token overrides are applied after portfolio overrides.
+// ---------------------------------------------------------------------------
+
+export type SuggestionMetric = 'pnl_pct' | 'days_open' | 'fee_ratio' | 'position_usd' | 'weight_pct' | 'unrealized_pnl_usd' | 'realized_pnl_usd';
+
+export type ConditionOperator = 'gt' | 'gte' | 'lt' | 'lte';
+
+export type RuleCondition = Partial<Record<ConditionOperator, number>>;
+
+export interface SuggestionRule {
+  name: string;
+  when?: Partial<Record<SuggestionMetric, RuleCondition>>;
+  action: Suggestion['action'];
+  confidence: Suggestion['confidence'];
+  message: string;             // Template, e.g. "Down {abs_pnl_pct}% for {days_open} days"
+  disabled?: boolean;
+}
+
+export interface RulesFile {
+  rules?: SuggestionRule[];
+  portfolios?: Record<string, Partial<SuggestionRule>[]>;
+  tokens?: Record<string, Partial<SuggestionRule>[]>;
+}
+
+// Inputs to the rules. fee_ratio is realized / unrealized PNL and is only
+// defined while the unrealized PNL is positive; weight_pct is the share of
+// the portfolio's active value.
+export type SuggestionMetrics = Record<SuggestionMetric, number | null>;
+
+export interface ConditionCheck {
+  metric: SuggestionMetric;
+  operator: ConditionOperator;
+  threshold: number;
+  value: number | null;
+  passed: boolean;
+}
+
+export interface RuleEvaluation {
+  rule: string;
+  source: string;              // "built-in", "rules.json", "portfolio <name>" or "token <token>"
+  checks: ConditionCheck[];
+  fired: boolean;
+}
+
+export interface SuggestionExplanation {
+  suggestion: Suggestion;
+  metrics: SuggestionMetrics;
+  evaluated: RuleEvaluation[]; // Rules checked, up to and including the one that fired
+}
+
+const RULES_FILE = 'rules.json';
+const SUGGESTION_METRICS: SuggestionMetric[] = ['pnl_pct', 'days_open', 'fee_ratio', 'position_usd', 'weight_pct', 'unrealized_pnl_usd', 'realized_pnl_usd'];
+export const CONDITION_SYMBOLS: Record<ConditionOperator, string> = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+const SUGGESTION_ACTIONS: Suggestion['action'][] = ['HOLD', 'TOP_UP', 'REDUCE', 'TAKE_PROFIT', 'STOP_LOSS'];
+const SUGGESTION_CONFIDENCES: Suggestion['confidence'][] = ['LOW', 'MEDIUM', 'HIGH'];
+
+// Checked in order; the last one always matches
+const DEFAULT_SUGGESTION_RULES: SuggestionRule[] = [
+  {
+    // Only meaningful once unrealized gains are above $10, to avoid false positives
+    name: 'high-fees',
+    when: { unrealized_pnl_usd: { gt: 10 }, fee_ratio: { gt: 0.8 } },
+    action: 'TAKE_PROFIT',
+    confidence: 'HIGH',
+    message: 'High fees earned ({fee_ratio_pct}% of unrealized gains). Secure profits before market turns.'
+  },
+  {
+    name: 'take-profit',
+    when: { pnl_pct: { gte: 25 } },
+    action: 'TAKE_PROFIT',
+    confidence: 'HIGH',
+    message: 'Excellent {pnl_pct}% return! Consider taking partial profits to secure gains.'
+  },
+  {
+    name: 'strong-profit',
+    when: { pnl_pct: { gte: 15 } },
+    action: 'REDUCE',
+    confidence: 'MEDIUM',
+    message: 'Strong {pnl_pct}% profit. Consider reducing position size to lock in gains while maintaining exposure.'
+  },
+  {
+    name: 'stop-loss',
+    when: { pnl_pct: { lte: -20 } },
+    action: 'STOP_LOSS',
+    confidence: 'HIGH',
+    message: 'Position down {abs_pnl_pct}%. Consider cutting losses to preserve capital.'
+  },
+  {
+    name: 'stale-loss',
+    when: { pnl_pct: { lte: -10 }, days_open: { gt: 30 } },
+    action: 'REDUCE',
+    confidence: 'MEDIUM',
+    message: 'Position down {abs_pnl_pct}% for {days_open} days. Consider reducing exposure or reevaluating thesis.'
+  },
+  {
+    name: 'recent-loss',
+    when: { pnl_pct: { lte: -10 } },
+    action: 'HOLD',
+    confidence: 'LOW',
+    message: 'Down {abs_pnl_pct}% but position is recent ({days_open} days). Monitor closely.'
+  },
+  {
+    name: 'breakeven-with-fees',
+    when: { pnl_pct: { gte: 0, lt: 5 }, realized_pnl_usd: { gt: 0 } },
+    action: 'TOP_UP',
+    confidence: 'MEDIUM',
+    message: 'Near breakeven with ${realized_pnl_usd} in fees earned. Position showing promise - consider increasing.'
+  },
+  {
+    name: 'breakeven',
+    when: { pnl_pct: { gte: 0, lt: 5 } },
+    action: 'HOLD',
+    confidence: 'LOW',
+    message: 'Position near breakeven. Monitor for clear direction before making changes.'
+  },
+  {
+    name: 'moderate-profit',
+    when: { pnl_pct: { gte: 5, lt: 15 } },
+    action: 'HOLD',
+    confidence: 'MEDIUM',
+    message: 'Good {pnl_pct}% profit with momentum. Hold position and monitor for further gains.'
+  },
+  {
+    name: 'default',
+    action: 'HOLD',
+    confidence: 'LOW',
+    message: 'Position performing as expected. Continue monitoring market conditions.'
+  }
+];
+
+export function rulesFilePath(): string {
+  return process.env.DAMM_PNL_RULES_FILE || loadConfig().rules_file || homePath(RULES_FILE);
+}
+
+function validateRule(rule: Partial<SuggestionRule>, where: string, complete: boolean): void {
+  const fail = (message: string): never => {
+    throw new PositionBookError('config', `${rulesFilePath()}: ${where}: ${message}`);
+  };
+  
+  if (typeof rule.name !== 'string' || rule.name === '') fail('every rule needs a "name"');
+  if (complete && (rule.action === undefined || rule.confidence === undefined || rule.message === undefined)) {
+    fail(`rule '${rule.name}' needs "action", "confidence" and "message"`);
+  }
+  if (rule.action !== undefined && !SUGGESTION_ACTIONS.includes(rule.action)) {
+    fail(`rule '${rule.name}' has unknown action '${rule.action}' (use ${SUGGESTION_ACTIONS.join(', ')})`);
+  }
+  if (rule.confidence !== undefined && !SUGGESTION_CONFIDENCES.includes(rule.confidence)) {
+    fail(`rule '${rule.name}' has unknown confidence '${rule.confidence}' (use ${SUGGESTION_CONFIDENCES.join(', ')})`);
+  }
+  for (const [metric, condition] of Object.entries(rule.when || {})) {
+    if (!SUGGESTION_METRICS.includes(metric as SuggestionMetric)) {
+      fail(`rule '${rule.name}' has unknown condition '${metric}' (use ${SUGGESTION_METRICS.join(', ')})`);
+    }
+    for (const [operator, threshold] of Object.entries(condition || {})) {
+      if (!(operator in CONDITION_SYMBOLS) || typeof threshold !== 'number') {
+        fail(`rule '${rule.name}': ${metric} must look like { "gte": 10 } (operators: gt, gte, lt, lte)`);
+      }
+    }
+  }
+}
+
+function loadRulesFile(): RulesFile {
+  const file = rulesFilePath();
+  if (!fs.existsSync(file)) return {};
+  
+  let rules: RulesFile;
+  try {
+    rules = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new PositionBookError('config', `Cannot parse ${file}: ${error}`);
+  }
+  
+  (rules.rules || []).forEach((rule, index) => validateRule(rule, `rules[${index}]`, true));
+  for (const scope of ['portfolios', 'tokens'] as const) {
+    for (const [name, overrides] of Object.entries(rules[scope] || {})) {
+      overrides.forEach((rule, index) => validateRule(rule, `${scope}.${name}[${index}]`, false));
+    }
+  }
+  return rules;
+}
+
+// Apply overrides to a rule list: merge by name, prepend new rules
+function applyRuleOverrides(rules: { rule: SuggestionRule; source: string }[], overrides: Partial<SuggestionRule>[], source: string): { rule: SuggestionRule; source: string }[] {
+  const merged = [...rules];
+  const added: { rule: SuggestionRule; source: string }[] = [];
+  overrides.forEach((override, index) => {
+    const existing = merged.findIndex(entry => entry.rule.name === override.name);
+    if (existing !== -1) {
+      merged[existing] = { rule: { ...merged[existing].rule, ...override } as SuggestionRule, source };
+    } else {
+      validateRule(override, `${source}[${index}]`, true);
+      added.push({ rule: override as SuggestionRule, source });
+    }
+  });
+  return [...added, ...merged];
+}
+
+// The rules that apply to a position, in the order they are checked
+function resolveSuggestionRules(position: Position, portfolio: string): { rule: SuggestionRule; source: string }[] {
+  const file = loadRulesFile();
+  let rules = file.rules
+    ? file.rules.map(rule => ({ rule, source: RULES_FILE }))
+    : DEFAULT_SUGGESTION_RULES.map(rule => ({ rule, source: 'built-in' }));
+  
+  const portfolioOverrides = file.portfolios?.[portfolio];
+  if (portfolioOverrides) {
+    rules = applyRuleOverrides(rules, portfolioOverrides, `portfolio ${portfolio}`);
+  }
+  const tokenOverrides = Object.entries(file.tokens || {})
+    .find(([token]) => token.toLowerCase() === position.token.toLowerCase());
+  if (tokenOverrides) {
+    rules = applyRuleOverrides(rules, tokenOverrides[1], `token ${position.token.toLowerCase()}`);
+  }
+  
+  return rules.filter(entry => !entry.rule.disabled);
+}
+
+function suggestionMetrics(position: Position, pnlData: PnlData, positions: Record<string, Position>): SuggestionMetrics {
+  const unrealizedPnlUSD = pnlData.unrealized_pnl_usd;
+  const realizedPnlUSD = pnlData.realized_pnl_usd;
+  
+  // Portfolio weight, valuing the other active positions at their latest snapshot
+  const bookValue = Object.values(positions)
+    .filter(pos => !pos.is_closed && pos.id !== position.id)
+    .reduce((sum, pos) => sum + (pos.current_value_usd ?? pos.initial_value_usd), pnlData.current_value_usd);
+  
+  return {
+    pnl_pct: pnlData.pnl_percentage,
+    days_open: Math.floor((Date.now() - new Date(position.created_at).getTime()) / (1000 * 60 * 60 * 24)),
+    fee_ratio: unrealizedPnlUSD > 0 ? realizedPnlUSD / unrealizedPnlUSD : null,
+    position_usd: pnlData.current_value_usd,
+    weight_pct: bookValue > 0 ? (pnlData.current_value_usd / bookValue) * 100 : null,
+    unrealized_pnl_usd: unrealizedPnlUSD,
+    realized_pnl_usd: realizedPnlUSD
+  };
+}
+
+// Fill {placeholders} in a rule message. Besides the metrics there are
+// {abs_pnl_pct} and {fee_ratio_pct}.
+function renderRuleMessage(message: string, metrics: SuggestionMetrics): string {
+  const values: Record<string, string> = {};
+  const format = (value: number | null, digits: number) => value === null ? 'n/a' : value.toFixed(digits);
+  values.pnl_pct = format(metrics.pnl_pct, 1);
+  values.abs_pnl_pct = format(metrics.pnl_pct === null ? null : Math.abs(metrics.pnl_pct), 1);
+  values.days_open = format(metrics.days_open, 0);
+  values.fee_ratio = format(metrics.fee_ratio, 2);
+  values.fee_ratio_pct = format(metrics.fee_ratio === null ? null : metrics.fee_ratio * 100, 0);
+  values.position_usd = format(metrics.position_usd, 2);
+  values.weight_pct = format(metrics.weight_pct, 1);
+  values.unrealized_pnl_usd = format(metrics.unrealized_pnl_usd, 2);
+  values.realized_pnl_usd = format(metrics.realized_pnl_usd, 2);
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) => values[name] ?? placeholder);
+}
+
+// Run the rules against a position and record every check made on the way
+function explainSuggestion(position: Position, pnlData: PnlData, positions: Record<string, Position>, portfolio: string): SuggestionExplanation {
+  const metrics = suggestionMetrics(position, pnlData, positions);
+  const evaluated: RuleEvaluation[] = [];
+  
+  for (const { rule, source } of resolveSuggestionRules(position, portfolio)) {
+    const checks: ConditionCheck[] = [];
+    for (const [metric, condition] of Object.entries(rule.when || {}) as [SuggestionMetric, RuleCondition][]) {
+      for (const [operator, threshold] of Object.entries(condition) as [ConditionOperator, number][]) {
+        const value = metrics[metric];
+        const passed = value !== null && (
+          operator === 'gt' ? value > threshold :
+          operator === 'gte' ? value >= threshold :
+          operator === 'lt' ? value < threshold :
+          value <= threshold
+        );
+        checks.push({ metric, operator, threshold, value, passed });
+      }
+    }
+    
+    const fired = checks.every(check => check.passed);
+    evaluated.push({ rule: rule.name, source, checks, fired });
+    if (fired) {
+      return {
+        suggestion: { action: rule.action, reason: renderRuleMessage(rule.message, metrics), confidence: rule.confidence, rule: rule.name },
+        metrics,
+        evaluated
+      };
+    }
+  }
+  
+  return {
+    suggestion: { action: 'HOLD', reason: 'No suggestion rule matched this position.', confidence: 'LOW', rule: null },
+    metrics,
+    evaluated
+  };
+}
+
+export function generateSuggestion(position: Position, pnlData: PnlData, positions: Record<string, Position>, portfolio: string): Suggestion {
+  return explainSuggestion(position, pnlData, positions, portfolio).suggestion;
+}
+
+// ---------------------------------------------------------------------------
+// Position metadata
+//
+// Pool address, pair, fee tier, strategy tags and notes tell apart positions
+// in the same token. None of it affects PNL. Tags are lowercase words used by
+// the --tag filter and --by tag grouping of list, closed and summary.
+// ---------------------------------------------------------------------------
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_.-]*$/;
+const POOL_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const PAIR_PATTERN = /^[A-Z0-9.]+\/[A-Z0-9.]+$/;
+
+// Lowercase, deduplicated tags from arguments that may hold comma-separated
+// lists and a leading '#'. Throws PositionBookError on an invalid tag.
+export function normalizeTags(values: string[]): string[] {
+  const tags = values
+    .flatMap(value => value.split(','))
+    .map(tag => tag.trim().toLowerCase().replace(/^#/, ''))
+    .filter(Boolean);
+  const invalid = tags.find(tag => !TAG_PATTERN.test(tag));
+  if (invalid) {
+    throw new PositionBookError('invalid_input', `Invalid tag '${invalid}' (use letters, digits, '-', '_' and '.')`);
+  }
+  return [...new Set(tags)];
+}
+
+// Whether a position has any of the tags (always true without a tag filter)
+export function hasAnyTag(position: Position, tags?: string[]): boolean {
+  return !tags || (position.tags || []).some(tag => tags.includes(tag));
+}
+
+// Positions per tag in alphabetical order, untagged ones last under null.
+// A position with several tags is counted in each of their groups.
+export function groupPositionsByTag(positions: Position[]): [string | null, Position[]][] {
+  const groups = new Map<string | null, Position[]>();
+  positions.forEach(position => {
+    const tags = position.tags && position.tags.length > 0 ? position.tags : [null];
+    tags.forEach(tag => {
+      if (!groups.has(tag)) groups.set(tag, []);
+      groups.get(tag)!.push(position);
+    });
+  });
+  return [...groups.entries()].sort(([a], [b]) => a === null ? 1 : b === null ? -1 : a.localeCompare(b));
+}
+
+// Resolve a selector for editing metadata: the active position, or else the
+// most recently closed match (like events/history). Throws PositionBookError
+// ('ambiguous') when several active positions match.
+export function selectAnyPosition(positions: Record<string, Position>, selector: string): Position | null {
+  const active = selectActivePosition(positions, selector);
+  if (active) return active;
+  const closed = matchPositions(Object.values(positions).filter(pos => pos.is_closed), selector)
+    .sort((a, b) => new Date(b.closed_at!).getTime() - new Date(a.closed_at!).getTime());
+  return closed[0] || null;
+}
+
+// Suggestions for active positions at their latest recorded value
+export async function buildSuggestionReport(book: Position[], positions: Record<string, Position>, explain: boolean, portfolio: string): Promise<SuggestionReportRow[]> {
+  const rows: SuggestionReportRow[] = [];
+  for (const position of book) {
+    const pnlData = await calculatePnl(position, position.current_value_usd ?? position.initial_value_usd);
+    const explanation = explainSuggestion(position, pnlData, positions, portfolio);
+    rows.push({
+      id: position.id,
+      token: position.token,
+      label: position.label || null,
+      suggestion: explanation.suggestion,
+      metrics: explanation.metrics,
+      ...(explain ? { evaluated: explanation.evaluated } : {})
+    });
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Risk statistics over closed positions
+// ---------------------------------------------------------------------------
+
+// Upper bound (exclusive, in days) of each holding-time bucket, shortest first
+export const HOLDING_BUCKETS: { bucket: HoldingBucket; label: string; maxDays: number }[] = [
+  { bucket: 'under_1d', label: '< 1 day', maxDays: 1 },
+  { bucket: '1d_to_7d', label: '1-7 days', maxDays: 7 },
+  { bucket: '7d_to_30d', label: '7-30 days', maxDays: 30 },
+  { bucket: 'over_30d', label: '30+ days', maxDays: Infinity }
+];
+
+function holdingDays(position: Position): number {
+  return (new Date(position.closed_at!).getTime() - new Date(position.created_at).getTime()) / DAY_MS;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Deepest peak-to-trough fall of the cumulative PNL curve, starting from zero
+function maxDrawdown(pnls: number[]): number {
+  let cumulative = 0;
+  let peak = 0;
+  let drawdown = 0;
+  pnls.forEach(pnl => {
+    cumulative += pnl;
+    peak = Math.max(peak, cumulative);
+    drawdown = Math.min(drawdown, cumulative - peak);
+  });
+  return drawdown;
+}
+
+// Longest runs of consecutive wins and losses; break-even trades end both
+function longestStreaks(pnls: number[]): { wins: number; losses: number } {
+  let wins = 0;
+  let losses = 0;
+  let winRun = 0;
+  let lossRun = 0;
+  pnls.forEach(pnl => {
+    winRun = pnl > 0 ? winRun + 1 : 0;
+    lossRun = pnl < 0 ? lossRun + 1 : 0;
+    wins = Math.max(wins, winRun);
+    losses = Math.max(losses, lossRun);
+  });
+  return { wins, losses };
+}
+
+// Sharpe- and Sortino-style ratios of per-position returns with a zero
+// risk-free rate. Both deviations are sample estimates (divided by n - 1), so
+// the two ratios compare. Null with fewer than two positions or no dispersion.
+function returnRatios(returns: number[]): { sharpe: number | null; sortino: number | null } {
+  if (returns.length < 2) return { sharpe: null, sortino: null };
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / (returns.length - 1));
+  const stdDev = Math.sqrt(variance);
+  return {
+    sharpe: stdDev > 0 ? mean / stdDev : null,
+    sortino: downside > 0 ? mean / downside : null
+  };
+}
+
+function holdingBucketStats(positions: Position[]): Record<HoldingBucket, HoldingBucketStats> {
+  const result = {} as Record<HoldingBucket, HoldingBucketStats>;
+  HOLDING_BUCKETS.forEach(({ bucket, maxDays }, index) => {
+    const minDays = index > 0 ? HOLDING_BUCKETS[index - 1].maxDays : 0;
+    const inBucket = positions.filter(position => {
+      const days = holdingDays(position);
+      return days >= minDays && days < maxDays;
+    });
+    const wins = inBucket.filter(position => (position.final_pnl_usd || 0) > 0).length;
+    const totalPnl = inBucket.reduce((sum, position) => sum + (position.final_pnl_usd || 0), 0);
+    result[bucket] = {
+      positions: inBucket.length,
+      winRate: inBucket.length > 0 ? (wins / inBucket.length) * 100 : 0,
+      expectedValueUSD: inBucket.length > 0 ? totalPnl / inBucket.length : 0
+    };
+  });
+  return result;
+}
+
+export function calculateSummaryStats(positions: Position[], fallbackSolPriceUSD: number = 0): SummaryStats {
+  let totalInvestedUSD = 0;
+  let totalPnlUSD = 0;
+  let totalInvestedSOL = 0;
+  let totalPnlSOL = 0;
+  let winningPositions = 0;
+  let losingPositions = 0;
+  let totalWinPnlUSD = 0;
+  let totalLossPnlUSD = 0;
+  let biggestWinUSD = 0;
+  let biggestLossUSD = 0;
+  let biggestWinPercent = 0;
+  let biggestLossPercent = 0;
+  
+  positions.forEach(position => {
+    totalInvestedUSD += position.total_invested_usd || 0;
+    const pnlUSD = position.final_pnl_usd || 0;
+    const pnlPercent = position.final_pnl_percentage || 0;
+    
+    totalPnlUSD += pnlUSD;
+    totalInvestedSOL += calculateSolFlows(position, fallbackSolPriceUSD).total_invested_sol;
+    totalPnlSOL += closedPnlSOL(position, fallbackSolPriceUSD);
+    
+    if (pnlUSD > 0) {
+      winningPositions++;
+      totalWinPnlUSD += pnlUSD;
+      if (pnlUSD > biggestWinUSD) {
+        biggestWinUSD = pnlUSD;
+      }
+      if (pnlPercent > biggestWinPercent) {
+        biggestWinPercent = pnlPercent;
+      }
+    } else if (pnlUSD < 0) {
+      losingPositions++;
+      totalLossPnlUSD += pnlUSD;
+      if (pnlUSD < biggestLossUSD) {
+        biggestLossUSD = pnlUSD;
+      }
+      if (pnlPercent < biggestLossPercent) {
+        biggestLossPercent = pnlPercent;
+      }
+    }
+  });
+  
+  const totalPositions = positions.length;
+  const winRate = totalPositions > 0 ? (winningPositions / totalPositions) * 100 : 0;
+  const lossRate = totalPositions > 0 ? (losingPositions / totalPositions) * 100 : 0;
+  const overallPnlPercentage = totalInvestedUSD > 0 ? (totalPnlUSD / totalInvestedUSD) * 100 : 0;
+  
+  // Calculate Expected Value (EV)
+  const avgWinUSD = winningPositions > 0 ? totalWinPnlUSD / winningPositions : 0;
+  const avgLossUSD = losingPositions > 0 ? totalLossPnlUSD / losingPositions : 0;
+  const winProbability = totalPositions > 0 ? winningPositions / totalPositions : 0;
+  const lossProbability = totalPositions > 0 ? losingPositions / totalPositions : 0;
+  const expectedValueUSD = (winProbability * avgWinUSD) + (lossProbability * avgLossUSD);
+  
+  // Money- and time-weighted returns of the positions taken together
+  const timeline = mergeTimelines(positions.map(position => returnTimeline(position)));
+  
+  // Drawdown and streaks follow the order positions were closed in
+  const closingOrder = [...positions].sort((a, b) => new Date(a.closed_at || 0).getTime() - new Date(b.closed_at || 0).getTime());
+  const pnlsInOrder = closingOrder.map(position => position.final_pnl_usd || 0);
+  const streaks = longestStreaks(pnlsInOrder);
+  const ratios = returnRatios(positions.map(position => (position.final_pnl_percentage || 0) / 100));
+  
+  return {
+    totalInvestedUSD,
+    totalPnlUSD,
+    totalInvestedSOL,
+    totalPnlSOL,
+    winningPositions,
+    losingPositions,
+    totalWinPnlUSD,
+    totalLossPnlUSD,
+    winRate,
+    lossRate,
+    overallPnlPercentage,
+    biggestWinUSD,
+    biggestLossUSD,
+    biggestWinPercent,
+    biggestLossPercent,
+    expectedValueUSD,
+    irrPercentage: calculateIRR(timeline),
+    twrPercentage: calculateTWR(timeline),
+    profitFactor: totalLossPnlUSD < 0 ? totalWinPnlUSD / -totalLossPnlUSD : null,
+    maxDrawdownUSD: maxDrawdown(pnlsInOrder),
+    longestWinStreak: streaks.wins,
+    longestLossStreak: streaks.losses,
+    sharpeRatio: ratios.sharpe,
+    sortinoRatio: ratios.sortino,
+    medianHoldingDays: median(positions.filter(position => position.closed_at).map(holdingDays)),
+    expectancyByHolding: holdingBucketStats(positions.filter(position => position.closed_at))
+  };
+}
+
+// Whether any summary filter or grouping was requested
+export function hasSummaryOptions(options: SummaryOptions): boolean {
+  return Boolean(options.period || options.from || options.to || options.tokens || options.tags || options.groupBy);
+}
+
+export function localDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// A YYYY-MM-DD date as local midnight, or null when it isn't a valid date
+export function localDateFromString(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(NaN);
+  return isNaN(date.getTime()) || localDateString(date) !== value ? null : date;
+}
+
+// Local calendar bucket containing `date`: its key, first and last instant.
+// Weeks start on Monday and are keyed by ISO week number.
+function periodBucket(date: Date, period: SummaryPeriodSize): { key: string; start: Date; end: Date } {
+  let start: Date;
+  let end: Date;
+  let key: string;
+  
+  switch (period) {
+    case 'day':
+      start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+      key = localDateString(start);
+      break;
+    case 'week': {
+      const mondayOffset = (date.getDay() + 6) % 7;
+      start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - mondayOffset);
+      end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+      // The ISO week belongs to the year of its Thursday
+      const thursday = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 3);
+      const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+      const week = 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / (24 * 60 * 60 * 1000) - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+      key = `${thursday.getFullYear()}-W${String(week).padStart(2, '0')}`;
+      break;
+    }
+    case 'month':
+      start = new Date(date.getFullYear(), date.getMonth(), 1);
+      end = new Date(date.getFullYear(), date.getMonth() + 1, 1);
+      key = `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`;
+      break;
+    case 'year':
+      start = new Date(date.getFullYear(), 0, 1);
+      end = new Date(date.getFullYear() + 1, 0, 1);
+      key = String(start.getFullYear());
+      break;
+  }
+  
+  return { key, start, end: new Date(end.getTime() - 1) };
+}
+
+// Closed positions matching the --from/--to/--token/--tag filters
+export function filterClosedPositions(positions: Position[], options: SummaryOptions): Position[] {
+  return positions.filter(position => {
+    if (!position.is_closed || !position.closed_at) return false;
+    const closedDate = new Date(position.closed_at);
+    if (options.from && closedDate < options.from) return false;
+    if (options.to && closedDate > options.to) return false;
+    if (options.tokens && !options.tokens.includes(position.token.toLowerCase())) return false;
+    if (!hasAnyTag(position, options.tags)) return false;
+    return true;
+  });
+}
+
+// Stats per period bucket (oldest first), or one bucket for the whole range,
+// optionally split per token or tag (best total PNL first)
+export function buildGroupedSummary(closedPositions: Position[], options: SummaryOptions, solPrice: number): SummaryPeriod[] {
+  const buckets: { key: string; start: Date | null; end: Date | null; positions: Position[] }[] = [];
+  
+  if (options.period) {
+    const byKey = new Map<string, { key: string; start: Date | null; end: Date | null; positions: Position[] }>();
+    closedPositions.forEach(position => {
+      const bucket = periodBucket(new Date(position.closed_at!), options.period!);
+      if (!byKey.has(bucket.key)) {
+        byKey.set(bucket.key, { ...bucket, positions: [] });
+      }
+      byKey.get(bucket.key)!.positions.push(position);
+    });
+    buckets.push(...[...byKey.values()].sort((a, b) => a.start!.getTime() - b.start!.getTime()));
+  } else {
+    const ranged = options.from || options.to;
+    buckets.push({
+      key: ranged ? 'range' : 'all_time',
+      start: options.from || null,
+      end: options.to || null,
+      positions: closedPositions
+    });
+  }
+  
+  const periods: SummaryPeriod[] = [];
+  for (const bucket of buckets) {
+    const base = {
+      period: bucket.key,
+      start: bucket.start ? bucket.start.toISOString() : null,
+      end: bucket.end ? bucket.end.toISOString() : null
+    };
+    
+    if (!options.groupBy) {
+      periods.push({ ...base, token: null, tag: null, positions: bucket.positions.length, stats: calculateSummaryStats(bucket.positions, solPrice) });
+      continue;
+    }
+    
+    if (options.groupBy === 'tag') {
+      groupPositionsByTag(bucket.positions)
+        .map(([tag, tagPositions]) => ({ ...base, token: null, tag, positions: tagPositions.length, stats: calculateSummaryStats(tagPositions, solPrice) }))
+        .sort((a, b) => b.stats.totalPnlUSD - a.stats.totalPnlUSD)
+        .forEach(period => periods.push(period));
+      continue;
+    }
+    
+    const byToken: Record<string, Position[]> = {};
+    bucket.positions.forEach(position => {
+      const token = position.token.toLowerCase();
+      (byToken[token] = byToken[token] || []).push(position);
+    });
+    Object.entries(byToken)
+      .map(([token, tokenPositions]) => ({ ...base, token, tag: null, positions: tokenPositions.length, stats: calculateSummaryStats(tokenPositions, solPrice) }))
+      .sort((a, b) => b.stats.totalPnlUSD - a.stats.totalPnlUSD)
+      .forEach(period => periods.push(period));
+  }
+  
+  return periods;
+}
+
+// ---------------------------------------------------------------------------
+// Fee analytics
+// ---------------------------------------------------------------------------
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fee yield of a position from its ledger. Deployed capital is invested minus
+// withdrawn, integrated from opening until closure (or `asOf` while open).
+function calculateFeeStats(position: Position, asOf: number = Date.now()): FeeStats {
+  const end = position.closed_at ? new Date(position.closed_at).getTime() : asOf;
+  let capital = 0;
+  let capitalDays = 0;
+  let lastTime: number | null = null;
+  
+  for (const event of sortedEvents(position)) {
+    const time = new Date(event.timestamp).getTime();
+    if (lastTime !== null) {
+      capitalDays += capital * (time - lastTime) / DAY_MS;
+    }
+    lastTime = time;
+    if (event.type === 'open' || event.type === 'add_capital') {
+      capital += event.amount_usd;
+    } else if (event.type === 'withdraw') {
+      capital = Math.max(0, capital - event.amount_usd);
+    } else if (event.type === 'close') {
+      capital = 0;
+    }
+  }
+  if (lastTime !== null && end > lastTime) {
+    capitalDays += capital * (end - lastTime) / DAY_MS;
+  }
+  
+  const fees = position.fees_claimed_usd || 0;
+  const value = position.is_closed ? position.exit_value_usd : position.current_value_usd;
+  const drift = value !== undefined
+    ? value + (position.withdrawn_usd || 0) - (position.total_invested_usd || 0)
+    : null;
+  const daysDeployed = Math.max(0, (end - new Date(position.created_at).getTime()) / DAY_MS);
+  return finishFeeStats(daysDeployed, fees, capitalDays, drift);
+}
+
+// Derived ratios shared by position and token figures. Rates are left out
+// below the same minimum span as IRR: a claim an hour after opening would
+// otherwise annualise to a huge APR.
+function finishFeeStats(daysDeployed: number, fees: number, capitalDays: number, drift: number | null): FeeStats {
+  const totalPnl = drift !== null ? drift + fees : null;
+  const longEnough = daysDeployed * DAY_MS >= MIN_IRR_SPAN_MS;
+  return {
+    days_deployed: daysDeployed,
+    fees_claimed_usd: fees,
+    fees_per_day_usd: longEnough ? fees / daysDeployed : null,
+    capital_days_usd: capitalDays,
+    average_deployed_usd: daysDeployed > 0 ? capitalDays / daysDeployed : 0,
+    fee_apr_percentage: longEnough && capitalDays > 0 ? (fees / capitalDays) * 365 * 100 : null,
+    value_drift_usd: drift,
+    total_pnl_usd: totalPnl,
+    fee_share_percentage: totalPnl !== null && totalPnl > 0 ? (fees / totalPnl) * 100 : null
+  };
+}
+
+// Token totals: fees over capital-days, so larger and longer positions weigh more.
+// Days deployed is the sum across positions, fees per day is per position-day.
+function combineFeeStats(stats: FeeStats[]): FeeStats {
+  const sum = (pick: (item: FeeStats) => number) => stats.reduce((total, item) => total + pick(item), 0);
+  const drifts = stats.filter(item => item.value_drift_usd !== null);
+  return finishFeeStats(
+    sum(item => item.days_deployed),
+    sum(item => item.fees_claimed_usd),
+    sum(item => item.capital_days_usd),
+    drifts.length > 0 ? drifts.reduce((total, item) => total + item.value_drift_usd!, 0) : null
+  );
+}
+
+// Rows per position, followed by a total row for each token
+export function buildFeeReport(positions: Position[]): FeeReportRow[] {
+  const byToken: Record<string, Position[]> = {};
+  positions.forEach(pos => {
+    const token = pos.token.toLowerCase();
+    (byToken[token] = byToken[token] || []).push(pos);
+  });
+  
+  const rows: FeeReportRow[] = [];
+  for (const [token, tokenPositions] of Object.entries(byToken)) {
+    tokenPositions.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    const stats = tokenPositions.map(pos => calculateFeeStats(pos));
+    tokenPositions.forEach((pos, index) => rows.push({
+      scope: 'position',
+      id: pos.id,
+      token,
+      label: pos.label || null,
+      status: pos.is_closed ? 'closed' : 'active',
+      positions: 1,
+      ...stats[index]
+    }));
+    rows.push({ scope: 'token', id: null, token, label: null, status: null, positions: tokenPositions.length, ...combineFeeStats(stats) });
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Tax report
+//
+// Capital goes in as lots (open, add capital) and comes out through
+// withdrawals and the close. To allocate cost basis, a position is treated
+// like a fund: each lot buys units at the position's value per unit at that
+// moment (the last valuation, adjusted for flows since), and each withdrawal
+// redeems units worth its amount. Pro-rata charges redeemed units at the
+// average cost per unit; FIFO takes them from the oldest lots first, one row
+// per lot. Fee claims are income with no cost basis, reported apart.
+// ---------------------------------------------------------------------------
+
+export type CostBasisMethod = 'pro-rata' | 'fifo';
+
+export interface TaxLot {
+  acquired: string;
+  units: number;
+  cost_usd: number;
+}
+
+// Every realized row of one position, oldest first
+function buildTaxRows(position: Position, method: CostBasisMethod): TaxReportRow[] {
+  const rows: TaxReportRow[] = [];
+  const lots: TaxLot[] = [];
+  let value = 0;          // Estimated position value
+  let units = 0;
+  
+  const holdingDays = (from: string, to: string) => Math.floor((new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+  const makeRow = (event: PositionEvent, category: TaxReportRow['category'], acquired: string | null, proceeds: number, basis: number): TaxReportRow => ({
+    date: event.timestamp,
+    position_id: position.id,
+    token: position.token,
+    label: position.label || null,
+    event: event.type as TaxReportRow['event'],
+    category,
+    acquired,
+    holding_days: acquired ? holdingDays(acquired, event.timestamp) : null,
+    proceeds_usd: proceeds,
+    cost_basis_usd: basis,
+    gain_usd: proceeds - basis,
+    method,
+  });
+  
+  // Redeem units worth `proceeds` (all remaining units when `all` is set)
+  const redeem = (event: PositionEvent, proceeds: number, all: boolean) => {
+    const unitsOut = all ? units : Math.min(units, value > 0 ? proceeds * units / value : units);
+    if (unitsOut <= 0) {
+      rows.push(makeRow(event, 'capital_gain', null, proceeds, 0));
+      return;
+    }
+    
+    if (method === 'pro-rata') {
+      const totalCost = lots.reduce((sum, lot) => sum + lot.cost_usd, 0);
+      const basis = totalCost * unitsOut / units;
+      lots.forEach(lot => {
+        lot.cost_usd -= lot.cost_usd * unitsOut / units;
+        lot.units -= lot.units * unitsOut / units;
+      });
+      const acquired = lots.length > 0 ? lots[0].acquired : null;
+      rows.push(makeRow(event, 'capital_gain', acquired, proceeds, basis));
+    } else {
+      let remaining = unitsOut;
+      while (remaining > 1e-12 && lots.length > 0) {
+        const lot = lots[0];
+        const taken = Math.min(lot.units, remaining);
+        const basis = lot.cost_usd * taken / lot.units;
+        const lotProceeds = proceeds * taken / unitsOut;
+        rows.push(makeRow(event, 'capital_gain', lot.acquired, lotProceeds, basis));
+        lot.units -= taken;
+        lot.cost_usd -= basis;
+        remaining -= taken;
+        if (lot.units <= 1e-12) lots.shift();
+      }
+    }
+    
+    units -= unitsOut;
+    value = Math.max(0, value - proceeds);
+  };
+  
+  for (const event of sortedEvents(position)) {
+    switch (event.type) {
+      case 'open':
+      case 'add_capital': {
+        // New units at the current value per unit (1.0 for the first lot)
+        const unitsIn = units > 0 && value > 0 ? event.amount_usd * units / value : event.amount_usd;
+        lots.push({ acquired: event.timestamp, units: unitsIn, cost_usd: event.amount_usd });
+        units += unitsIn;
+        value += event.amount_usd;
+        break;
+      }
+      case 'value_snapshot':
+        value = event.amount_usd;
+        break;
+      case 'withdraw':
+        redeem(event, event.amount_usd, false);
+        break;
+      case 'close':
+        redeem(event, event.amount_usd, true);
+        break;
+      case 'fee_claim':
+        rows.push(makeRow(event, 'fee_income', null, event.amount_usd, 0));
+        break;
+    }
+  }
+  
+  return rows;
+}
+
+// Realized rows of every position in a calendar year (local time), by date
+export function buildTaxReport(positions: Position[], year: number, method: CostBasisMethod): TaxReportRow[] {
+  return positions
+    .flatMap(position => buildTaxRows(position, method))
+    .filter(row => new Date(row.date).getFullYear() === year)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ---------------------------------------------------------------------------
+// Portfolio dashboard
+//
+// Every active position at its latest value snapshot, with the PNL split,
+// portfolio weight and current suggestion, and the book's totals in USD and
+// SOL. Snapshots older than --stale-after hours are highlighted.
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_STALE_AFTER_HOURS = 24;
+
+// Sort keys for --sort. Numbers sort largest first, text A-Z, updated oldest first.
+export const DASHBOARD_SORT_KEYS: Record<string, (a: DashboardRow, b: DashboardRow) => number> = {
+  value: (a, b) => b.value_usd - a.value_usd,
+  unrealized: (a, b) => b.unrealized_pnl_usd - a.unrealized_pnl_usd,
+  realized: (a, b) => b.realized_pnl_usd - a.realized_pnl_usd,
+  total: (a, b) => b.total_pnl_usd - a.total_pnl_usd,
+  pnl: (a, b) => b.pnl_percentage - a.pnl_percentage,
+  weight: (a, b) => b.weight_percentage - a.weight_percentage,
+  days: (a, b) => b.days_open! - a.days_open!,
+  updated: (a, b) => (a.value_updated_at || '').localeCompare(b.value_updated_at || ''),
+  token: (a, b) => a.token!.localeCompare(b.token!) || (a.label || '').localeCompare(b.label || ''),
+  action: (a, b) => a.action!.localeCompare(b.action!)
+};
+
+// One row per active position in the requested order, then the portfolio total
+export async function buildDashboard(book: Position[], positions: Record<string, Position>, sortKey: string, reverse: boolean, staleAfterHours: number, portfolio: string): Promise<DashboardRow[]> {
+  const activePositions = book.filter(pos => !pos.is_closed);
+  const bookValue = activePositions.reduce((sum, pos) => sum + (pos.current_value_usd ?? pos.initial_value_usd), 0);
+  const staleBefore = Date.now() - staleAfterHours * 60 * 60 * 1000;
+  
+  const rows: DashboardRow[] = [];
+  let totalInvestedUSD = 0;
+  for (const position of activePositions) {
+    const valueUSD = position.current_value_usd ?? position.initial_value_usd;
+    const pnlData = await calculatePnl(position, valueUSD);
+    const suggestion = generateSuggestion(position, pnlData, positions, portfolio);
+    totalInvestedUSD += pnlData.total_invested_usd;
+    rows.push({
+      scope: 'position',
+      id: position.id,
+      token: position.token,
+      label: position.label || null,
+      value_usd: valueUSD,
+      value_sol: pnlData.current_value_sol,
+      value_updated_at: position.value_updated_at || null,
+      stale: !position.value_updated_at || new Date(position.value_updated_at).getTime() < staleBefore,
+      unrealized_pnl_usd: pnlData.unrealized_pnl_usd,
+      realized_pnl_usd: pnlData.realized_pnl_usd,
+      total_pnl_usd: pnlData.total_pnl_usd,
+      unrealized_pnl_sol: pnlData.unrealized_pnl_sol,
+      realized_pnl_sol: pnlData.realized_pnl_sol,
+      total_pnl_sol: pnlData.total_pnl_sol,
+      pnl_percentage: pnlData.pnl_percentage,
+      weight_percentage: bookValue > 0 ? (valueUSD / bookValue) * 100 : 0,
+      days_open: Math.floor((Date.now() - new Date(position.created_at).getTime()) / (1000 * 60 * 60 * 24)),
+      action: suggestion.action,
+      confidence: suggestion.confidence
+    });
+  }
+  
+  rows.sort(DASHBOARD_SORT_KEYS[sortKey]);
+  if (reverse) rows.reverse();
+  
+  const sum = (field: keyof DashboardRow) => rows.reduce((total, row) => total + (row[field] as number), 0);
+  const totalPnlUSD = sum('total_pnl_usd');
+  rows.push({
+    scope: 'total',
+    id: null,
+    token: null,
+    label: null,
+    value_usd: sum('value_usd'),
+    value_sol: sum('value_sol'),
+    value_updated_at: null,
+    stale: null,
+    unrealized_pnl_usd: sum('unrealized_pnl_usd'),
+    realized_pnl_usd: sum('realized_pnl_usd'),
+    total_pnl_usd: totalPnlUSD,
+    unrealized_pnl_sol: sum('unrealized_pnl_sol'),
+    realized_pnl_sol: sum('realized_pnl_sol'),
+    total_pnl_sol: sum('total_pnl_sol'),
+    pnl_percentage: totalInvestedUSD > 0 ? (totalPnlUSD / totalInvestedUSD) * 100 : 0,
+    weight_percentage: rows.length > 0 ? 100 : 0,
+    days_open: null,
+    action: null,
+    confidence: null
+  });
+  
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Report rows
+//
+// Positions, periods and reports as the plain rows of --format json|csv,
+// shared by the CLI, serve and PositionBook.
+// ---------------------------------------------------------------------------
+
+function toPositionMetaFields(position: Position): Pick<ActivePositionRow, 'pool_address' | 'pair' | 'fee_tier_percentage' | 'tags' | 'notes'> {
+  return {
+    pool_address: position.pool_address || null,
+    pair: position.pair || null,
+    fee_tier_percentage: position.fee_tier_percentage ?? null,
+    tags: position.tags || [],
+    notes: position.notes || null
+  };
+}
+
+export function toActivePositionRow(position: Position): ActivePositionRow {
+  const totalInvested = position.total_invested_usd || 0;
+  const withdrawn = position.withdrawn_usd || 0;
+  const hasValue = position.current_value_usd !== undefined;
+  return {
+    id: position.id,
+    token: position.token,
+    label: position.label || null,
+    created_at: position.created_at,
+    initial_value_usd: position.initial_value_usd,
+    capital_additions_usd: position.capital_additions_usd || 0,
+    withdrawn_usd: withdrawn,
+    total_invested_usd: totalInvested,
+    fees_claimed_usd: position.fees_claimed_usd,
+    current_value_usd: hasValue ? position.current_value_usd! : null,
+    value_updated_at: position.value_updated_at || null,
+    unrealized_pnl_usd: hasValue ? position.current_value_usd! - (totalInvested - withdrawn) : null,
+    ...toPositionMetaFields(position)
+  };
+}
+
+export function toClosedPositionRow(position: Position, fallbackSolPriceUSD: number): ClosedPositionRow {
+  const flows = calculateSolFlows(position, fallbackSolPriceUSD);
+  const finalPnlSOL = closedPnlSOL(position, fallbackSolPriceUSD);
+  const timeline = returnTimeline(position);
+  return {
+    id: position.id,
+    token: position.token,
+    label: position.label || null,
+    created_at: position.created_at,
+    closed_at: position.closed_at!,
+    days_open: Math.floor((new Date(position.closed_at!).getTime() - new Date(position.created_at).getTime()) / (1000 * 60 * 60 * 24)),
+    total_invested_usd: position.total_invested_usd || 0,
+    withdrawn_usd: position.withdrawn_usd || 0,
+    fees_claimed_usd: position.fees_claimed_usd,
+    exit_value_usd: position.exit_value_usd || 0,
+    final_pnl_usd: position.final_pnl_usd || 0,
+    final_pnl_percentage: position.final_pnl_percentage || 0,
+    total_invested_sol: flows.total_invested_sol,
+    exit_value_sol: flows.exit_value_sol || 0,
+    final_pnl_sol: finalPnlSOL,
+    final_pnl_percentage_sol: flows.total_invested_sol > 0 ? (finalPnlSOL / flows.total_invested_sol) * 100 : 0,
+    irr_percentage: calculateIRR(timeline),
+    twr_percentage: calculateTWR(timeline),
+    ...toPositionMetaFields(position)
+  };
+}
+
+// Daily periods for the last 7 days plus all time, matching showSummary
+export function buildSummaryPeriods(closedPositions: Position[], solPrice: number): SummaryPeriod[] {
+  const periods: SummaryPeriod[] = [];
+  const today = new Date();
+  
+  for (let i = 0; i < 7; i++) {
+    const dayStart = new Date(today);
+    dayStart.setDate(today.getDate() - i);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setHours(23, 59, 59, 999);
+    
+    const dayPositions = closedPositions.filter(position => {
+      const closedDate = new Date(position.closed_at!);
+      return closedDate >= dayStart && closedDate <= dayEnd;
+    });
+    
+    const localDate = `${dayStart.getFullYear()}-${String(dayStart.getMonth() + 1).padStart(2, '0')}-${String(dayStart.getDate()).padStart(2, '0')}`;
+    periods.push({
+      period: localDate,
+      start: dayStart.toISOString(),
+      end: dayEnd.toISOString(),
+      positions: dayPositions.length,
+      stats: calculateSummaryStats(dayPositions, solPrice)
+    });
+  }
+  
+  periods.push({
+    period: 'all_time',
+    start: null,
+    end: null,
+    positions: closedPositions.length,
+    stats: calculateSummaryStats(closedPositions, solPrice)
+  });
+  
+  return periods;
+}
+
+export async function buildPositionReport(position: Position, currentValueUSD: number, positions: Record<string, Position>, portfolio: string): Promise<PositionReport> {
+  const pnl = await calculatePnl(position, currentValueUSD);
+  return {
+    position: toActivePositionRow(position),
+    pnl,
+    suggestion: generateSuggestion(position, pnl, positions, portfolio)
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Library API
+//
+// PositionBook is the programmatic interface to a portfolio, for scripts and
+// bots that would otherwise shell out to the CLI:
+//
+//   import { PositionBook } from './position-book';
+//   const book = new PositionBook({ source: 'bot' });
+//   await book.update('aixbt', 1180, 12.5);
+//   const { total_pnl_usd } = await book.pnl('aixbt');
+//
+// Changes reload the book under the portfolio lock, save it and are journaled
+// (as "./damm-pnl update aixbt 1180 12.5 (bot)"), so undo works as usual. Nothing
+// here prints or exits: failures throw PositionBookError. The CLI, tui and
+// serve are thin layers over this class.
+// ---------------------------------------------------------------------------
+
+export type PositionBookErrorCode =
+  | 'invalid_input'   // Bad amount, tag, pool address, portfolio name, ...
+  | 'not_found'       // No position (or portfolio) matches
+  | 'ambiguous'       // The selector matches several active positions, see `candidates`
+  | 'locked'          // Another process holds the portfolio lock
+  | 'storage'         // The data file or journal can't be read or written
+  | 'config';         // config.json or the rules file is invalid
+
+export class PositionBookError extends Error {
+  readonly code: PositionBookErrorCode;
+  readonly candidates: Position[];   // Matches of an ambiguous selector
+  readonly hints: string[];          // Recovery steps, one per line
+  
+  constructor(code: PositionBookErrorCode, message: string, details: { candidates?: Position[]; hints?: string[] } = {}) {
+    super(message);
+    this.name = 'PositionBookError';
+    this.code = code;
+    this.candidates = details.candidates || [];
+    this.hints = details.hints || [];
+  }
+}
+
+export interface PositionBookOptions {
+  portfolio?: string;                      // Default: DAMM_PNL_PORTFOLIO, then config.json, then "default"
+  solPriceUSD?: number;                    // SOL/USD rate recorded on new events, like --price
+  source?: string;                         // Appended to journaled changes, e.g. "(api)"; default "lib"
+  commandLine?: string;                    // Journal every change as this command line instead
+  onWarning?: (message: string) => void;   // E.g. an event recorded without a SOL rate
+}
+
+export interface PositionQuery {
+  status?: 'active' | 'closed' | 'all';    // Default: active
+  selector?: string;                       // Token, ID or label, as on the command line
+  tags?: string[];                         // Positions with any of these tags
+}
+
+// Metadata edits; null removes a field
+export interface PositionMetaChange {
+  pool_address?: string | null;
+  pair?: string | null;
+  fee_tier_percentage?: number | null;
+  tags?: string[] | null;                  // Replaces the current tags
+  notes?: string | null;
+}
+
+// When and why an event happened, for backdated entries; both optional
+export interface EventOptions {
+  timestamp?: string;                      // ISO time, default now; not in the future or before the position opened
+  note?: string;                           // Kept on the event, like --note
+}
+
+function requireAmount(value: number, what: string, allowZero: boolean = false): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || (value === 0 && !allowZero)) {
+    throw new PositionBookError('invalid_input', `${what} must be ${allowZero ? 'zero or more' : 'positive'}, got '${value}'`);
+  }
+}
+
+// Check the time of a new event against the ledger: not in the future, not
+// before the position opened, and a close not before the latest event. Also
+// used by import and ingest-tx, which report the error per row.
+export function checkEventTime(position: Position | null, type: PositionEventType, timestamp: string): void {
+  if (new Date(timestamp).getTime() > Date.now()) {
+    throw new PositionBookError('invalid_input', `Event time ${timestamp.substring(0, 19)} is in the future`);
+  }
+  if (position && timestamp < position.created_at) {
+    throw new PositionBookError('invalid_input', `Event time ${timestamp.substring(0, 19)} is before ${positionName(position)} was opened (${position.created_at.substring(0, 19)})`);
+  }
+  const latest = position ? sortedEvents(position).pop() : undefined;
+  if (type === 'close' && latest && timestamp < latest.timestamp) {
+    throw new PositionBookError('invalid_input', `Close time ${timestamp.substring(0, 19)} is before the latest event of ${positionName(position!)} (${latest.timestamp.substring(0, 19)})`);
+  }
+}
+
+// The --date and --note flags an EventOptions was given as, for the journal
+function eventArgs(event: EventOptions): string[] {
+  return [
+    ...(event.timestamp ? ['--date', event.timestamp] : []),
+    ...(event.note ? ['--note', JSON.stringify(event.note)] : [])
+  ];
+}
+
+export class PositionBook {
+  readonly portfolio: string;
+  readonly dataFile: string;
+  private readonly options: PositionBookOptions;
+  
+  // Each book reads, locks and journals its own portfolio file, so books on
+  // different portfolios can live side by side in one process
+  constructor(options: PositionBookOptions = {}) {
+    ensureHomeDir();
+    const portfolio = options.portfolio || process.env.DAMM_PNL_PORTFOLIO || loadConfig().portfolio || DEFAULT_PORTFOLIO;
+    if (!PORTFOLIO_NAME_PATTERN.test(portfolio)) {
+      throw new PositionBookError('invalid_input', `Invalid portfolio name '${portfolio}' (use letters, digits, '-' and '_')`);
+    }
+    if (portfolio !== DEFAULT_PORTFOLIO && !fs.existsSync(portfolioFile(portfolio))) {
+      throw new PositionBookError('not_found', `Portfolio '${portfolio}' does not exist.`, { hints: [`Create it with: ./damm-pnl portfolio create ${portfolio}`] });
+    }
+    if (options.solPriceUSD !== undefined) {
+      requireAmount(options.solPriceUSD, 'SOL price');
+    }
+    this.portfolio = portfolio;
+    this.dataFile = portfolioFile(portfolio);
+    this.options = options;
+  }
+  
+  // Every position keyed by ID, read from disk on each call
+  load(): Record<string, Position> {
+    return loadPositions(this.dataFile);
+  }
+  
+  query(query: PositionQuery = {}): Position[] {
+    const status = query.status || 'active';
+    let positions = Object.values(this.load()).filter(pos => status === 'all' || Boolean(pos.is_closed) === (status === 'closed'));
+    if (query.selector) {
+      positions = matchPositions(positions, query.selector);
+    }
+    return positions.filter(pos => hasAnyTag(pos, query.tags));
+  }
+  
+  // The active position a selector names, or null
+  find(selector: string): Position | null {
+    return selectActivePosition(this.load(), selector);
+  }
+  
+  // Like find, but throws not_found. With includeClosed the most recently
+  // closed match stands in when no position is active.
+  get(selector: string, includeClosed: boolean = false): Position {
+    return this.pick(this.load(), selector, includeClosed);
+  }
+  
+  async pnl(selector: string): Promise<PnlData> {
+    const position = this.get(selector, true);
+    return calculatePnl(position, position.current_value_usd ?? position.initial_value_usd);
+  }
+  
+  // Position, PNL and suggestion, as `show --format json`
+  async report(selector: string): Promise<PositionReport> {
+    const positions = this.load();
+    const position = this.pick(positions, selector, true);
+    return buildPositionReport(position, position.current_value_usd ?? position.initial_value_usd, positions, this.portfolio);
+  }
+  
+  // Closed-position statistics, as `summary --format json`
+  async summary(options: SummaryOptions = {}): Promise<SummaryPeriod[]> {
+    const positions = Object.values(this.load());
+    const solPrice = await getSOLPriceUSD();
+    if (hasSummaryOptions(options)) {
+      return buildGroupedSummary(filterClosedPositions(positions, options), options, solPrice);
+    }
+    return buildSummaryPeriods(positions.filter(pos => pos.is_closed), solPrice);
+  }
+  
+  // A new position, even when one is already active for the token
+  open(token: string, valueUSD: number, label?: string, event: EventOptions = {}): Promise<Position> {
+    const name = token.trim().toLowerCase();
+    if (!name) {
+      throw new PositionBookError('invalid_input', 'Token name is required');
+    }
+    requireAmount(valueUSD, 'Position value');
+    return this.change(['open', name, valueUSD, ...(label ? ['--label', label] : []), ...eventArgs(event)], async positions => {
+      const timestamp = this.eventTime(null, 'open', event);
+      const position = await initializePosition(name, valueUSD, await this.eventSolPrice(timestamp), timestamp);
+      if (label) {
+        position.label = label;
+      }
+      if (event.note) {
+        position.events![0].note = event.note;
+      }
+      positions[position.id] = position;
+      return position;
+    });
+  }
+  
+  // Record the current value of an active position, with fees claimed since
+  update(selector: string, valueUSD: number, feesUSD: number = 0, label?: string, event: EventOptions = {}): Promise<Position> {
+    requireAmount(valueUSD, 'Position value', true);
+    requireAmount(feesUSD, 'Fees claimed', true);
+    return this.change(['update', selector, valueUSD, ...(feesUSD > 0 ? [feesUSD] : []), ...(label ? ['--label', label] : []), ...eventArgs(event)], async positions => {
+      const position = this.pick(positions, selector, false);
+      if (label) {
+        position.label = label;
+      }
+      const timestamp = this.eventTime(position, 'value_snapshot', event);
+      const solPrice = await this.eventSolPrice(timestamp);
+      // Fees first, so the snapshot reflects them
+      if (feesUSD > 0) {
+        recordEvent(position, 'fee_claim', feesUSD, timestamp, solPrice);
+      }
+      const snapshot = recordEvent(position, 'value_snapshot', valueUSD, timestamp, solPrice);
+      if (event.note) {
+        snapshot.note = event.note;
+      }
+      return position;
+    });
+  }
+  
+  claimFee(selector: string, amountUSD: number, event: EventOptions = {}): Promise<Position> {
+    return this.recordFlow('claim-fee', 'fee_claim', selector, amountUSD, 'Fees claimed', event);
+  }
+  
+  addCapital(selector: string, amountUSD: number, event: EventOptions = {}): Promise<Position> {
+    return this.recordFlow('add-capital', 'add_capital', selector, amountUSD, 'Additional capital', event);
+  }
+  
+  withdraw(selector: string, amountUSD: number, event: EventOptions = {}): Promise<Position> {
+    return this.recordFlow('withdraw', 'withdraw', selector, amountUSD, 'Amount', event);
+  }
+  
+  // Final fees and the closure share a timestamp; replay derives the final PNL
+  close(selector: string, exitValueUSD: number, finalFeesUSD: number = 0, event: EventOptions = {}): Promise<Position> {
+    requireAmount(exitValueUSD, 'Exit value');
+    requireAmount(finalFeesUSD, 'Final fees', true);
+    return this.change(['close', selector, exitValueUSD, ...(finalFeesUSD > 0 ? [finalFeesUSD] : []), ...eventArgs(event)], async positions => {
+      const position = this.pick(positions, selector, false);
+      const timestamp = this.eventTime(position, 'close', event);
+      const solPrice = await this.eventSolPrice(timestamp);
+      if (finalFeesUSD > 0) {
+        recordEvent(position, 'fee_claim', finalFeesUSD, timestamp, solPrice);
+      }
+      const closure = recordEvent(position, 'close', exitValueUSD, timestamp, solPrice);
+      if (event.note) {
+        closure.note = event.note;
+      }
+      return position;
+    });
+  }
+  
+  // Replace an active position with a fresh one at a new initial value. The
+  // label and metadata describe the pool rather than the amounts, so they
+  // carry over.
+  reset(selector: string, initialValueUSD: number): Promise<Position> {
+    requireAmount(initialValueUSD, 'New initial value');
+    return this.change(['reset', selector, initialValueUSD], async positions => {
+      const position = this.pick(positions, selector, false);
+      delete positions[position.id];
+      const newPosition = await initializePosition(position.token, initialValueUSD, await this.eventSolPrice());
+      newPosition.label = position.label;
+      newPosition.pool_address = position.pool_address;
+      newPosition.pair = position.pair;
+      newPosition.fee_tier_percentage = position.fee_tier_percentage;
+      newPosition.tags = position.tags;
+      newPosition.notes = position.notes;
+      positions[newPosition.id] = newPosition;
+      return newPosition;
+    });
+  }
+  
+  // Delete an active position; returns it as it was
+  remove(selector: string): Promise<Position> {
+    return this.change(['remove', selector], async positions => {
+      const position = this.pick(positions, selector, false);
+      delete positions[position.id];
+      return position;
+    });
+  }
+  
+  // Pool address, pair, fee tier, tags and notes; closed positions too
+  setMeta(selector: string, meta: PositionMetaChange): Promise<Position> {
+    if (meta.pool_address && !POOL_ADDRESS_PATTERN.test(meta.pool_address)) {
+      throw new PositionBookError('invalid_input', `Pool address must be a base58 address, got '${meta.pool_address}'`);
+    }
+    const pair = meta.pair ? meta.pair.toUpperCase() : meta.pair;
+    if (pair && !PAIR_PATTERN.test(pair)) {
+      throw new PositionBookError('invalid_input', `Pair must look like AIXBT/SOL, got '${meta.pair}'`);
+    }
+    const feeTier = meta.fee_tier_percentage;
+    if (typeof feeTier === 'number' && (!Number.isFinite(feeTier) || feeTier <= 0 || feeTier > 100)) {
+      throw new PositionBookError('invalid_input', `Fee tier must be a percentage between 0 and 100, got '${feeTier}'`);
+    }
+    const tags = meta.tags ? normalizeTags(meta.tags) : meta.tags;
+    
+    return this.change(['meta', selector], async positions => {
+      const position = this.pick(positions, selector, true);
+      const set = <K extends keyof Position>(key: K, value: Position[K] | null | undefined) => {
+        if (value === null) delete position[key];
+        else if (value !== undefined) position[key] = value;
+      };
+      set('pool_address', meta.pool_address);
+      set('pair', pair);
+      set('fee_tier_percentage', feeTier);
+      set('tags', tags && tags.length === 0 ? null : tags);
+      set('notes', meta.notes === '' ? null : meta.notes);
+      return position;
+    });
+  }
+  
+  // SOL/USD rate recorded on new events: the fixed rate, else a fresh quote
+  // (for a backdated event, the price file's rate at that time). Without
+  // either the event gets no rate and onWarning is told.
+  async eventSolPrice(timestamp?: string): Promise<number | undefined> {
+    if (this.options.solPriceUSD !== undefined) return this.options.solPriceUSD;
+    const backdated = timestamp !== undefined && Date.now() - new Date(timestamp).getTime() > PRICE_STALE_AFTER;
+    const quote = backdated ? await getSOLPriceQuoteAt(new Date(timestamp!).getTime()) : await getSOLPriceQuote();
+    if (!quote || quote.stale) {
+      this.options.onWarning?.(backdated
+        ? `No SOL price for ${timestamp!.substring(0, 19)} - event recorded without a SOL rate`
+        : 'No fresh SOL price - event recorded without a SOL rate');
+      return undefined;
+    }
+    return quote.price;
+  }
+  
+  // SOL quotes are memoized per process (the rate is the same whichever
+  // portfolio asks); long-running callers refresh them between batches, like
+  // watch, tui and serve do
+  refreshPrice(): void {
+    refreshSOLPriceQuote();
+  }
+  
+  private pick(positions: Record<string, Position>, selector: string, includeClosed: boolean): Position {
+    const position = includeClosed ? selectAnyPosition(positions, selector) : selectActivePosition(positions, selector);
+    if (!position) {
+      throw new PositionBookError('not_found', `No ${includeClosed ? '' : 'active '}position for ${selector.toUpperCase()} found.`);
+    }
+    return position;
+  }
+  
+  // Now, or the backdated event.timestamp when it is not in the future, not
+  // before the position was opened and, for a close, not before its latest
+  // event (nothing may follow the closure)
+  private eventTime(position: Position | null, type: PositionEventType, event: EventOptions): string {
+    if (event.timestamp === undefined) {
+      return new Date().toISOString();
+    }
+    const time = new Date(event.timestamp).getTime();
+    if (isNaN(time)) {
+      throw new PositionBookError('invalid_input', `Event time must be an ISO date, got '${event.timestamp}'`);
+    }
+    const timestamp = new Date(time).toISOString();
+    checkEventTime(position, type, timestamp);
+    return timestamp;
+  }
+  
+  private recordFlow(command: string, type: PositionEventType, selector: string, amountUSD: number, what: string, event: EventOptions): Promise<Position> {
+    requireAmount(amountUSD, what);
+    return this.change([command, selector, amountUSD, ...eventArgs(event)], async positions => {
+      const position = this.pick(positions, selector, false);
+      const timestamp = this.eventTime(position, type, event);
+      const recorded = recordEvent(position, type, amountUSD, timestamp, await this.eventSolPrice(timestamp));
+      if (event.note) {
+        recorded.note = event.note;
+      }
+      return position;
+    });
+  }
+  
+  private change<T>(args: (string | number)[], apply: (positions: Record<string, Position>) => Promise<T>): Promise<T> {
+    const commandLine = this.options.commandLine ?? `./damm-pnl ${args.join(' ')} (${this.options.source || 'lib'})`;
+    return changeBook(this.dataFile, commandLine, apply);
+  }
+}
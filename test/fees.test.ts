@@ -0,0 +1,66 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { FeeReportRow, buildFeeReport } from '../position-book';
+import { assertClose, positionFromLedger } from './helpers';
+
+function row(rows: FeeReportRow[], id: string | null, token: string): FeeReportRow {
+  return rows.find(item => item.id === id && item.token === token)!;
+}
+
+describe('buildFeeReport', () => {
+  // 1000 deployed for 10 days, $10 of fees
+  const steady = positionFromLedger('jup_1735732800000_a1b2c3d4e', [
+    ['open', '2025-01-01T12:00:00.000Z', 1000],
+    ['fee_claim', '2025-01-11T12:00:00.000Z', 10],
+    ['close', '2025-01-11T12:00:00.000Z', 1000]
+  ]);
+  // 1000 for 10 days, then 500 for 10 more, $30 of fees
+  const halved = positionFromLedger('jup_1735732800000_f5g6h7i8j', [
+    ['open', '2025-01-01T12:00:00.000Z', 1000],
+    ['withdraw', '2025-01-11T12:00:00.000Z', 500],
+    ['fee_claim', '2025-01-21T12:00:00.000Z', 30],
+    ['close', '2025-01-21T12:00:00.000Z', 500]
+  ]);
+  // Closed half a day after opening
+  const brief = positionFromLedger('bonk_1735732800000_k9l8m7n6o', [
+    ['open', '2025-01-01T12:00:00.000Z', 1000],
+    ['fee_claim', '2025-01-01T18:00:00.000Z', 5],
+    ['close', '2025-01-02T00:00:00.000Z', 1000]
+  ]);
+  const rows = buildFeeReport([steady, halved, brief]);
+
+  it('annualises fees over the capital deployed each day', () => {
+    const first = row(rows, steady.id, 'jup');
+    assert.equal(first.days_deployed, 10);
+    assert.equal(first.capital_days_usd, 10000);
+    assert.equal(first.fees_per_day_usd, 1);
+    assertClose(first.fee_apr_percentage, 36.5);       // 10 / 10000 * 365
+    assert.equal(first.value_drift_usd, 0);
+    assert.equal(first.fee_share_percentage, 100);
+
+    const second = row(rows, halved.id, 'jup');
+    assert.equal(second.capital_days_usd, 15000);       // 1000 * 10 + 500 * 10
+    assert.equal(second.average_deployed_usd, 750);
+    assert.equal(second.fees_per_day_usd, 1.5);
+    assertClose(second.fee_apr_percentage, 73);        // 30 / 15000 * 365
+  });
+
+  it('totals a token over its capital-days', () => {
+    const total = row(rows, null, 'jup');
+    assert.equal(total.positions, 2);
+    assert.equal(total.days_deployed, 30);
+    assert.equal(total.fees_claimed_usd, 40);
+    assert.equal(total.capital_days_usd, 25000);
+    assertClose(total.fee_apr_percentage, 58.4);       // 40 / 25000 * 365
+  });
+
+  it('leaves the rates out for less than a day deployed', () => {
+    const short = row(rows, brief.id, 'bonk');
+    assert.equal(short.days_deployed, 0.5);
+    assert.equal(short.fees_claimed_usd, 5);
+    assert.equal(short.fees_per_day_usd, null);
+    assert.equal(short.fee_apr_percentage, null);
+    assert.equal(short.average_deployed_usd, 1000);
+    assert.equal(row(rows, null, 'bonk').fee_apr_percentage, null);
+  });
+});
@@ -0,0 +1,14 @@
+import assert from 'assert/strict';
+import { Position, PositionEventType, recordEvent } from '../position-book';
+
+// A position built from its ledger, with the aggregates replayed as on load
+export function positionFromLedger(id: string, events: [PositionEventType, string, number][]): Position {
+  const position = { id, token: id.split('_')[0], events: [] } as unknown as Position;
+  events.forEach(([type, timestamp, amountUSD]) => recordEvent(position, type, amountUSD, timestamp));
+  return position;
+}
+
+export function assertClose(actual: number | null, expected: number): void {
+  assert.ok(actual !== null, `expected ${expected}, got null`);
+  assert.ok(Math.abs(actual - expected) < 1e-6, `expected ${expected}, got ${actual}`);
+}
@@ -0,0 +1,98 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { Position } from '../position-book';
+
+// `../damm-pnl` on its own would load the shell wrapper next to the script
+const { applyImport }: typeof import('../damm-pnl') = require('../damm-pnl.ts');
+
+type Row = [date: string, token: string, type: string, amount: string, reference?: string];
+
+function rows(...entries: Row[]) {
+  return entries.map(([date, token, type, amount, reference], index) => ({
+    line: index + 1,
+    values: { date, token, type, amount, ...(reference ? { reference } : {}) }
+  }));
+}
+
+function only(positions: Record<string, Position>): Position {
+  const all = Object.values(positions);
+  assert.equal(all.length, 1);
+  return all[0];
+}
+
+describe('applyImport', () => {
+  it('applies rows in date order whatever their order in the file', async () => {
+    const positions: Record<string, Position> = {};
+    const results = await applyImport(positions, rows(
+      ['2025-01-10T12:00:00Z', 'jup', 'value', '1100'],
+      ['2025-01-01T12:00:00Z', 'jup', 'open', '1000'],
+      ['2025-01-05T12:00:00Z', 'jup', 'claim fee', '5']
+    ));
+    assert.deepEqual(results.map(result => [result.row.line, result.status]), [[2, 'imported'], [3, 'imported'], [1, 'imported']]);
+    const position = only(positions);
+    assert.deepEqual(position.events!.map(event => event.type), ['open', 'fee_claim', 'value_snapshot']);
+    assert.equal(position.fees_claimed_usd, 5);
+    assert.equal(position.current_value_usd, 1100);
+  });
+
+  it('only opens positions from open rows', async () => {
+    const positions: Record<string, Position> = {};
+    const [result] = await applyImport(positions, rows(['2025-01-01T12:00:00Z', 'newtok', 'value', '100']));
+    assert.equal(result.status, 'error');
+    assert.equal(result.detail, 'no active position for NEWTOK');
+    assert.deepEqual(positions, {});
+  });
+
+  it('rejects rows dated in the future or a close before the latest event', async () => {
+    const positions: Record<string, Position> = {};
+    await applyImport(positions, rows(
+      ['2025-01-01T12:00:00Z', 'jup', 'open', '1000'],
+      ['2025-01-20T12:00:00Z', 'jup', 'value', '1200']
+    ));
+    const results = await applyImport(positions, rows(
+      ['2025-01-10T12:00:00Z', 'jup', 'close', '900'],
+      ['2999-01-01T12:00:00Z', 'jup', 'fee', '5']
+    ));
+    assert.deepEqual(results.map(result => result.status), ['error', 'error']);
+    assert.match(results[0].detail, /^Close time 2025-01-10T12:00:00 is before the latest event of JUP/);
+    assert.match(results[1].detail, /is in the future$/);
+    assert.equal(only(positions).is_closed, undefined);
+  });
+
+  it('skips rows already imported, but keeps identical rows of one file apart', async () => {
+    const positions: Record<string, Position> = {};
+    const file = rows(
+      ['2025-01-01T12:00:00Z', 'jup', 'open', '1000'],
+      ['2025-01-05T12:00:00Z', 'jup', 'fee', '5'],
+      ['2025-01-05T12:00:00Z', 'jup', 'fee', '5']
+    );
+    const first = await applyImport(positions, file);
+    assert.deepEqual(first.map(result => result.status), ['imported', 'imported', 'imported']);
+    assert.equal(only(positions).fees_claimed_usd, 10);
+
+    const again = await applyImport(positions, file);
+    assert.deepEqual(again.map(result => result.status), ['duplicate', 'duplicate', 'duplicate']);
+
+    // An export with one more identical claim brings in just that one
+    const later = await applyImport(positions, [...file, ...rows(['2025-01-05T12:00:00Z', 'jup', 'fee', '5'])]);
+    assert.deepEqual(later.map(result => result.status), ['duplicate', 'duplicate', 'duplicate', 'imported']);
+    assert.equal(only(positions).fees_claimed_usd, 15);
+  });
+
+  it('tells identical rows apart by their reference', async () => {
+    const positions: Record<string, Position> = {};
+    await applyImport(positions, rows(['2025-01-01T12:00:00Z', 'jup', 'open', '1000']));
+    const results = await applyImport(positions, rows(
+      ['2025-01-05T12:00:00Z', 'jup', 'fee', '5', 'tx-b'],
+      ['2025-01-05T12:00:00Z', 'jup', 'fee', '5', 'tx-a']
+    ));
+    assert.deepEqual(results.map(result => result.status), ['imported', 'imported']);
+
+    // Known references are skipped wherever they are in the file
+    const again = await applyImport(positions, rows(
+      ['2025-01-05T12:00:00Z', 'jup', 'fee', '5', 'tx-a'],
+      ['2025-01-05T12:00:00Z', 'jup', 'fee', '5', 'tx-c']
+    ));
+    assert.deepEqual(again.map(result => result.status), ['duplicate', 'imported']);
+  });
+});
@@ -0,0 +1,135 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { Position } from '../position-book';
+
+// `../damm-pnl` on its own would load the shell wrapper next to the script
+const { applyDammActions, decodeDammTransaction, valueDammAction }: typeof import('../damm-pnl') = require('../damm-pnl.ts');
+
+type DammAction = ReturnType<typeof decodeDammTransaction>[number];
+
+const DAMM_V2 = 'cpamdpZCGKUy5JxQXB4dcpGPiikHawvSWAd6mEn1sGG';
+const WSOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TOKEN = 'TokenMint1111111111111111111111111111111111';
+const WALLET = 'Wallet1111111111111111111111111111111111111';
+const POOL = 'Pool111111111111111111111111111111111111111';
+
+// A token transfer as the jsonParsed encoding shows it
+function transfer(mint: string, amount: number, fromWallet: boolean) {
+  return {
+    program: 'spl-token',
+    parsed: {
+      type: 'transferChecked',
+      info: {
+        source: fromWallet ? `${WALLET}-${mint}` : `${POOL}-${mint}`,
+        destination: fromWallet ? `${POOL}-${mint}` : `${WALLET}-${mint}`,
+        authority: fromWallet ? WALLET : POOL,
+        mint,
+        tokenAmount: { uiAmount: amount, uiAmountString: String(amount) }
+      }
+    }
+  };
+}
+
+// A transaction running one DAMM v2 instruction per entry, each at its own outer index
+function transaction(blockTime: number, ...instructions: [name: string, transfers: ReturnType<typeof transfer>[]][]) {
+  return {
+    blockTime,
+    transaction: { signatures: [`sig${blockTime}`], message: { accountKeys: [WALLET] } },
+    meta: {
+      err: null,
+      logMessages: instructions.flatMap(([name]) =>
+        [`Program ${DAMM_V2} invoke [1]`, `Program log: Instruction: ${name}`, `Program ${DAMM_V2} success`]),
+      innerInstructions: instructions.map(([, transfers], index) => ({ index, instructions: transfers }))
+    }
+  };
+}
+
+function action(kind: DammAction['kind'], legs: [mint: string, amount: number][], instructions: string[] = []): DammAction {
+  return {
+    signature: 'sig', index: 0, timestamp: '2025-01-01T12:00:00.000Z', instructions, kind,
+    legs: legs.map(([mint, amount]) => ({ mint, amount }))
+  };
+}
+
+describe('decodeDammTransaction', () => {
+  it('reads deposits signed by the wallet as negative legs and payouts as positive', () => {
+    const [add] = decodeDammTransaction(transaction(1735732800, ['AddLiquidity', [transfer(WSOL, 2, true), transfer(USDC, 400, true)]]));
+    assert.equal(add.kind, 'add');
+    assert.equal(add.timestamp, '2025-01-01T12:00:00.000Z');
+    assert.deepEqual(add.legs, [{ mint: WSOL, amount: -2 }, { mint: USDC, amount: -400 }]);
+    
+    const [claim] = decodeDammTransaction(transaction(1735732800, ['ClaimPositionFee', [transfer(USDC, 12.5, false)]]));
+    assert.equal(claim.kind, 'claim');
+    assert.deepEqual(claim.legs, [{ mint: USDC, amount: 12.5 }]);
+  });
+
+  it('counts a removal and close in one transaction as a close at the value withdrawn', () => {
+    const actions = decodeDammTransaction(transaction(1735732800,
+      ['RemoveAllLiquidity', [transfer(USDC, 300, false)]],
+      ['ClosePosition', []]));
+    assert.equal(actions.length, 1);
+    assert.equal(actions[0].kind, 'close');
+    assert.deepEqual(actions[0].instructions, ['RemoveAllLiquidity', 'ClosePosition']);
+  });
+
+  it('ignores instructions of other programs', () => {
+    const tx = transaction(1735732800, ['AddLiquidity', [transfer(USDC, 400, true)]]);
+    tx.meta.logMessages = tx.meta.logMessages.map(line => line.replace(DAMM_V2, 'OtherProgram1111111111111111111111111111111'));
+    assert.deepEqual(decodeDammTransaction(tx), []);
+  });
+});
+
+describe('valueDammAction', () => {
+  it('values SOL at the given rate and stablecoins at $1', () => {
+    assert.deepEqual(valueDammAction(action('add', [[WSOL, -2], [USDC, -400]]), 200), { amountUSD: 800, estimated: false });
+  });
+
+  it('counts an unpriced token in a balanced move at the value of the priced one, as an estimate', () => {
+    assert.deepEqual(valueDammAction(action('add', [[USDC, -400], [TOKEN, -1000]], ['AddLiquidity'])), { amountUSD: 800, estimated: true });
+    assert.deepEqual(valueDammAction(action('add', [[USDC, -400], [TOKEN, -1000]], ['AddLiquidity']), undefined, 0.5), { amountUSD: 900, estimated: false });
+  });
+
+  it('needs a token price for one-sided moves and fee claims', () => {
+    assert.throws(() => valueDammAction(action('add', [[USDC, -400], [TOKEN, -1000]], ['AddImbalanceLiquidity'])), /--token-price/);
+    assert.throws(() => valueDammAction(action('remove', [[USDC, 400], [TOKEN, 10]], ['RemoveLiquiditySingleSide'])), /--token-price/);
+    assert.throws(() => valueDammAction(action('claim', [[USDC, 5], [TOKEN, 10]], ['ClaimPositionFee'])), /--token-price/);
+  });
+
+  it('needs a SOL price for SOL legs', () => {
+    assert.throws(() => valueDammAction(action('add', [[WSOL, -2]])), /no SOL price/);
+  });
+});
+
+describe('applyDammActions', () => {
+  it('opens a position on an add, then records the later actions on it once', async () => {
+    const positions: Record<string, Position> = {};
+    const actions = [
+      ...decodeDammTransaction(transaction(1735732800, ['AddLiquidity', [transfer(WSOL, 2, true), transfer(USDC, 400, true)]])),
+      ...decodeDammTransaction(transaction(1736078400, ['ClaimPositionFee', [transfer(USDC, 12.5, false)]]))
+    ];
+    const results = await applyDammActions(positions, actions, 'sol', 200);
+    assert.deepEqual(results.map(result => [result.status, result.type, result.amount_usd]), [['imported', 'open', 800], ['imported', 'fee_claim', 12.5]]);
+    const [position] = Object.values(positions);
+    assert.equal(position.fees_claimed_usd, 12.5);
+    
+    const again = await applyDammActions(positions, actions, 'sol', 200);
+    assert.deepEqual(again.map(result => result.status), ['duplicate', 'duplicate']);
+    assert.equal(position.events!.length, 2);
+  });
+
+  it('reports actions no event could be recorded for', async () => {
+    const positions: Record<string, Position> = {};
+    await applyDammActions(positions, decodeDammTransaction(transaction(1735732800, ['AddLiquidity', [transfer(USDC, 400, true)]])), 'sol', 200);
+    const [position] = Object.values(positions);
+    
+    const [early] = await applyDammActions(positions, decodeDammTransaction(transaction(1735689600, ['ClaimPositionFee', [transfer(USDC, 5, false)]])), 'sol', 200);
+    assert.equal(early.status, 'error');
+    assert.match(early.detail, /before/);
+    
+    const [unknown] = await applyDammActions(positions, decodeDammTransaction(transaction(1736078400, ['RemoveLiquidity', [transfer(USDC, 100, false)]])), 'jup', 200);
+    assert.equal(unknown.status, 'error');
+    assert.match(unknown.detail, /no active position for JUP/);
+    assert.equal(position.events!.length, 1);
+  });
+});
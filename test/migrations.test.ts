@@ -0,0 +1,163 @@
+import assert from 'assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { describe, it } from 'node:test';
+import { MIGRATIONS, SCHEMA_VERSION, diffPosition, loadPositions, pendingMigrations } from '../position-book';
+
+// Old data files, one per format the migrations have to handle
+function fixturePath(name: string): string {
+  return path.join(__dirname, 'fixtures', `${name}.json`);
+}
+
+function fixture(name: string): Record<string, any> {
+  return JSON.parse(fs.readFileSync(fixturePath(name), 'utf8'));
+}
+
+// Run the migrations up to and including `version` on a fresh copy of a fixture
+function migrateTo(name: string, version: number): Record<string, any> {
+  return MIGRATIONS
+    .filter(step => step.version <= version)
+    .reduce((positions, step) => step.migrate(positions), fixture(name));
+}
+
+function step(version: number) {
+  return MIGRATIONS.find(migration => migration.version === version)!;
+}
+
+describe('MIGRATIONS', () => {
+  it('numbers the steps 1, 2, 3, ... up to SCHEMA_VERSION', () => {
+    assert.deepEqual(MIGRATIONS.map(migration => migration.version), [1, 2, 3, 4]);
+    assert.equal(SCHEMA_VERSION, 4);
+  });
+
+  describe('v1: key positions by ID', () => {
+    it('keys token-keyed positions by an ID from the token and creation time', () => {
+      const positions = step(1).migrate(fixture('token-keyed'));
+      assert.deepEqual(Object.keys(positions), ['aixbt_1748772000000', 'bonk_1748852100000']);
+      assert.equal(positions.aixbt_1748772000000.id, 'aixbt_1748772000000');
+      assert.equal(positions.aixbt_1748772000000.token, 'aixbt');
+      assert.equal(positions.aixbt_1748772000000.total_invested_usd, 600);
+      assert.equal(positions.bonk_1748852100000.token, 'bonk');
+    });
+
+    it('leaves books that are already keyed by ID as they are', () => {
+      assert.deepEqual(step(1).migrate(fixture('capital-reductions')), fixture('capital-reductions'));
+    });
+  });
+
+  describe('v2: fold reductions into withdrawn_usd', () => {
+    it('adds capital_reduction_usd and profit_taken_usd to withdrawn_usd and drops them', () => {
+      const positions = migrateTo('capital-reductions', 2);
+      const open = positions.jup_1749000000000_a1b2c3d4e;
+      assert.equal(open.withdrawn_usd, 225);
+      assert.equal('capital_reduction_usd' in open, false);
+      assert.equal('profit_taken_usd' in open, false);
+
+      const closed = positions.jup_1749100000000_f5g6h7i8j;
+      assert.equal(closed.withdrawn_usd, 0);
+      assert.equal('capital_reduction_usd' in closed, false);
+    });
+
+    it('leaves positions without the old fields alone', () => {
+      assert.deepEqual(step(2).migrate(fixture('unversioned-ledger')), fixture('unversioned-ledger'));
+    });
+  });
+
+  describe('v3: recompute total_invested_usd', () => {
+    it('sets total invested to the initial value plus capital additions', () => {
+      const positions = migrateTo('capital-reductions', 3);
+      assert.equal(positions.jup_1749000000000_a1b2c3d4e.total_invested_usd, 1200);
+      assert.equal(positions.jup_1749100000000_f5g6h7i8j.total_invested_usd, 300);
+      assert.equal(migrateTo('unversioned-ledger', 3).sol_1750000000000_k9l8m7n6o.total_invested_usd, 450);
+    });
+  });
+
+  describe('v4: event ledger', () => {
+    it('turns the aggregate totals of an open position into synthetic events', () => {
+      const position = migrateTo('capital-reductions', 4).jup_1749000000000_a1b2c3d4e;
+      assert.deepEqual(position.events, [
+        { type: 'open', timestamp: '2025-06-04T01:20:00.000Z', amount_usd: 1000, synthetic: true },
+        { type: 'add_capital', timestamp: '2025-06-10T12:00:00.000Z', amount_usd: 200, synthetic: true },
+        { type: 'withdraw', timestamp: '2025-06-10T12:00:00.000Z', amount_usd: 225, synthetic: true },
+        { type: 'fee_claim', timestamp: '2025-06-10T12:00:00.000Z', amount_usd: 40, synthetic: true }
+      ]);
+      assert.equal(position.total_invested_usd, 1200);
+      assert.equal(position.withdrawn_usd, 225);
+      assert.equal(position.fees_claimed_usd, 40);
+      assert.equal(position.current_value_usd, 1000);
+      assert.equal(position.is_closed, undefined);
+    });
+
+    it('dates the claims of a closed position at its closure and keeps its final PNL', () => {
+      const position = migrateTo('capital-reductions', 4).jup_1749100000000_f5g6h7i8j;
+      assert.deepEqual(position.events, [
+        { type: 'open', timestamp: '2025-06-05T05:06:40.000Z', amount_usd: 300, synthetic: true },
+        { type: 'fee_claim', timestamp: '2025-06-06T09:00:00.000Z', amount_usd: 6, synthetic: true },
+        { type: 'close', timestamp: '2025-06-06T09:00:00.000Z', amount_usd: 320, synthetic: true }
+      ]);
+      assert.equal(position.is_closed, true);
+      assert.equal(position.exit_value_usd, 320);
+      assert.equal(position.final_pnl_usd, 26);
+    });
+
+    it('keeps a ledger the position already has', () => {
+      const position = migrateTo('unversioned-ledger', 4).sol_1750000000000_k9l8m7n6o;
+      assert.deepEqual(position.events, fixture('unversioned-ledger').sol_1750000000000_k9l8m7n6o.events);
+    });
+  });
+});
+
+describe('loadPositions', () => {
+  it('runs every step on an unversioned file and keeps them pending until the next save', () => {
+    const file = fixturePath('token-keyed');
+    const positions = loadPositions(file);
+    assert.deepEqual(pendingMigrations.get(file)!.map(migration => migration.version), [1, 2, 3, 4]);
+    assert.deepEqual(Object.keys(positions), ['aixbt_1748772000000', 'bonk_1748852100000']);
+    assert.deepEqual(positions.bonk_1748852100000.events, [
+      { type: 'open', timestamp: '2025-06-02T08:15:00.000Z', amount_usd: 250, synthetic: true }
+    ]);
+  });
+
+  it('derives the aggregates of an unversioned file with a ledger from its events', () => {
+    const position = loadPositions(fixturePath('unversioned-ledger')).sol_1750000000000_k9l8m7n6o;
+    assert.equal(position.total_invested_usd, 450);
+    assert.equal(position.capital_additions_usd, 50);
+    assert.equal(position.current_value_usd, 470);
+    assert.equal(position.value_updated_at, '2025-06-20T10:00:00.000Z');
+  });
+
+  it('loads a current file unchanged and without pending migrations', () => {
+    const file = fixturePath('v4');
+    assert.deepEqual(loadPositions(file), fixture('v4').positions);
+    assert.equal(pendingMigrations.has(file), false);
+  });
+});
+
+describe('diffPosition', () => {
+  const before = fixture('v4').positions.aixbt_1756000000000_p1q2r3s4t;
+
+  it('finds no changes between equal positions', () => {
+    assert.deepEqual(diffPosition(before, fixture('v4').positions.aixbt_1756000000000_p1q2r3s4t), []);
+  });
+
+  it('lists added, removed and changed fields', () => {
+    const after = { ...before, fees_claimed_usd: 25, pair: 'AIXBT/SOL' };
+    delete after.label;
+    assert.deepEqual(diffPosition(before, after), [
+      '- label: "0.25%"',
+      '~ fees_claimed_usd: 20 -> 25',
+      '+ pair: "AIXBT/SOL"'
+    ]);
+  });
+
+  it('summarizes the ledger as the number of events added and their types', () => {
+    const after = { ...before, events: [...before.events, { type: 'fee_claim', timestamp: '2025-08-31T00:00:00.000Z', amount_usd: 5 }] };
+    assert.deepEqual(diffPosition(before, after), ['events: +1 (open, fee_claim, withdraw, value_snapshot, fee_claim)']);
+    assert.deepEqual(diffPosition(after, before), ['events: -1 (open, fee_claim, withdraw, value_snapshot)']);
+  });
+
+  it('compares nested values by content', () => {
+    assert.deepEqual(diffPosition({ tags: ['farm'] }, { tags: ['farm', 'core'] }), ['~ tags: ["farm"] -> ["farm","core"]']);
+    assert.deepEqual(diffPosition(undefined, { id: 'x' }), ['+ id: "x"']);
+  });
+});
@@ -0,0 +1,113 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { Position, PositionEventType, calculateIRR, calculateTWR, returnTimeline } from '../position-book';
+import { assertClose } from './helpers';
+
+// A position with just the ledger the return calculations read
+function position(events: [PositionEventType, string, number][], closed: boolean = false): Position {
+  return {
+    id: 'aixbt_1735689600000',
+    token: 'aixbt',
+    is_closed: closed,
+    events: events.map(([type, timestamp, amount_usd]) => ({ type, timestamp, amount_usd }))
+  } as Position;
+}
+
+describe('calculateIRR', () => {
+  it('annualises a single year of growth as the growth itself', () => {
+    // -1000 now, +1100 in 365 days
+    const timeline = returnTimeline(position([
+      ['open', '2025-01-01T00:00:00.000Z', 1000],
+      ['value_snapshot', '2026-01-01T00:00:00.000Z', 1100]
+    ]));
+    assertClose(calculateIRR(timeline), 10);
+  });
+
+  it('compounds over several years', () => {
+    // 1000 * 1.1^2 = 1210 after two years
+    const timeline = returnTimeline(position([
+      ['open', '2025-01-01T00:00:00.000Z', 1000],
+      ['value_snapshot', '2027-01-01T00:00:00.000Z', 1210]
+    ]));
+    assertClose(calculateIRR(timeline), 10);
+  });
+
+  it('discounts withdrawals and fees by when they were received', () => {
+    // -1000 + 110 / 1.1 + 1089 / 1.1^2 = 0 at 10%
+    const withdrawal = returnTimeline(position([
+      ['open', '2025-01-01T00:00:00.000Z', 1000],
+      ['withdraw', '2026-01-01T00:00:00.000Z', 110],
+      ['value_snapshot', '2027-01-01T00:00:00.000Z', 1089]
+    ]));
+    assertClose(calculateIRR(withdrawal), 10);
+
+    // -1000 + (100 fees + 1000 value) / 1.1 = 0 at 10%
+    const fees = returnTimeline(position([
+      ['open', '2025-01-01T00:00:00.000Z', 1000],
+      ['fee_claim', '2026-01-01T00:00:00.000Z', 100],
+      ['value_snapshot', '2026-01-01T00:00:00.000Z', 1000]
+    ]));
+    assertClose(calculateIRR(fees), 10);
+  });
+
+  it('counts the exit value of a closed position as received', () => {
+    const timeline = returnTimeline(position([
+      ['open', '2025-01-01T00:00:00.000Z', 1000],
+      ['close', '2026-01-01T00:00:00.000Z', 900]
+    ], true));
+    assertClose(calculateIRR(timeline), -10);
+  });
+
+  it('is null for less than a day or without money both in and out', () => {
+    assert.equal(calculateIRR(returnTimeline(position([
+      ['open', '2025-01-01T00:00:00.000Z', 1000],
+      ['value_snapshot', '2025-01-01T12:00:00.000Z', 1100]
+    ]))), null);
+    assert.equal(calculateIRR(returnTimeline(position([
+      ['open', '2025-01-01T00:00:00.000Z', 1000],
+      ['value_snapshot', '2026-01-01T00:00:00.000Z', 0]
+    ]))), null);
+    assert.equal(calculateIRR([]), null);
+  });
+});
+
+describe('calculateTWR', () => {
+  it('chains the Modified Dietz return of each period between valuations', () => {
+    // Days 0-10: 1000 -> 1100, +10%. Days 10-30: 1000 added on day 20 is
+    // weighted (30 - 20) / 20 = 0.5, so (2000 - 1100 - 1000) / (1100 + 500)
+    // = -6.25%. Chained: 1.1 * 0.9375 = 1.03125.
+    const timeline = returnTimeline(position([
+      ['open', '2025-01-01T00:00:00.000Z', 1000],
+      ['value_snapshot', '2025-01-11T00:00:00.000Z', 1100],
+      ['add_capital', '2025-01-21T00:00:00.000Z', 1000],
+      ['value_snapshot', '2025-01-31T00:00:00.000Z', 2000]
+    ]));
+    assertClose(calculateTWR(timeline), 3.125);
+  });
+
+  it('ignores how much capital was in the position in each period', () => {
+    // +10% on 1000, then +10% on 11000: still 1.1 * 1.1
+    const timeline = returnTimeline(position([
+      ['open', '2025-01-01T00:00:00.000Z', 1000],
+      ['value_snapshot', '2025-01-11T00:00:00.000Z', 1100],
+      ['add_capital', '2025-01-11T00:00:00.001Z', 9900],
+      ['value_snapshot', '2025-01-11T00:00:00.001Z', 11000],
+      ['value_snapshot', '2025-01-21T00:00:00.000Z', 12100]
+    ]));
+    assertClose(calculateTWR(timeline), 21);
+  });
+
+  it('counts fees claimed in a period as return', () => {
+    const timeline = returnTimeline(position([
+      ['open', '2025-01-01T00:00:00.000Z', 1000],
+      ['fee_claim', '2025-01-11T00:00:00.000Z', 50],
+      ['value_snapshot', '2025-01-11T00:00:00.000Z', 1000]
+    ]));
+    assertClose(calculateTWR(timeline), 5);
+  });
+
+  it('is null when nothing was valued after the open', () => {
+    assert.equal(calculateTWR(returnTimeline(position([['open', '2025-01-01T00:00:00.000Z', 1000]]))), null);
+    assert.equal(calculateTWR([]), null);
+  });
+});
@@ -0,0 +1,59 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { buildTaxReport } from '../position-book';
+import { assertClose, positionFromLedger } from './helpers';
+
+// 1000 opened, doubled in value, then 1000 more at twice the price per unit:
+// 1000 units for $1000 in January and 500 units for $1000 in April. The
+// withdrawal of 1500 redeems half of the 1500 units, the close the rest.
+const position = positionFromLedger('aixbt_1735732800000', [
+  ['open', '2025-01-01T12:00:00.000Z', 1000],
+  ['value_snapshot', '2025-03-01T12:00:00.000Z', 2000],
+  ['add_capital', '2025-04-01T12:00:00.000Z', 1000],
+  ['fee_claim', '2025-05-01T12:00:00.000Z', 20],
+  ['withdraw', '2025-06-01T12:00:00.000Z', 1500],
+  ['close', '2025-09-01T12:00:00.000Z', 1500]
+]);
+
+function gains(method: 'pro-rata' | 'fifo') {
+  return buildTaxReport([position], 2025, method).filter(row => row.category === 'capital_gain');
+}
+
+describe('buildTaxReport', () => {
+  it('charges redeemed units at the average cost per unit pro-rata', () => {
+    const rows = gains('pro-rata');
+    assert.deepEqual(rows.map(row => row.event), ['withdraw', 'close']);
+    rows.forEach(row => {
+      assertClose(row.proceeds_usd, 1500);
+      assertClose(row.cost_basis_usd, 1000);
+      assertClose(row.gain_usd, 500);
+    });
+  });
+
+  it('takes redeemed units from the oldest lots first with FIFO, one row per lot', () => {
+    const rows = gains('fifo');
+    assert.deepEqual(rows.map(row => [row.event, row.acquired]), [
+      ['withdraw', '2025-01-01T12:00:00.000Z'],
+      ['close', '2025-01-01T12:00:00.000Z'],
+      ['close', '2025-04-01T12:00:00.000Z']
+    ]);
+    const expected = [[1500, 750], [500, 250], [1000, 1000]];
+    rows.forEach((row, index) => {
+      assertClose(row.proceeds_usd, expected[index][0]);
+      assertClose(row.cost_basis_usd, expected[index][1]);
+    });
+    assert.equal(rows[0].holding_days, 151);
+    
+    // Either way all the capital is charged once
+    assertClose(rows.reduce((sum, row) => sum + row.cost_basis_usd, 0), 2000);
+  });
+
+  it('reports fee claims as income with no cost basis', () => {
+    const fees = buildTaxReport([position], 2025, 'fifo').filter(row => row.category === 'fee_income');
+    assert.deepEqual(fees.map(row => [row.event, row.proceeds_usd, row.cost_basis_usd, row.acquired]), [['fee_claim', 20, 0, null]]);
+  });
+
+  it('only reports rows of the requested year', () => {
+    assert.deepEqual(buildTaxReport([position], 2026, 'fifo'), []);
+  });
+});